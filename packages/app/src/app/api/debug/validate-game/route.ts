@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { GameStateViolation, validateGameState } from '@bluepoker/shared';
 import { gameStore } from '../../../../lib/game-store';
 
 export async function GET(request: NextRequest) {
@@ -18,6 +19,7 @@ export async function GET(request: NextRequest) {
     exists: false,
     details: {} as Record<string, unknown>,
     issues: [] as string[],
+    violations: [] as GameStateViolation[],
     recommendations: [] as string[]
   };
 
@@ -42,17 +44,8 @@ export async function GET(request: NextRequest) {
     validation.details = game as unknown as Record<string, unknown>;
 
     // Validate game structure
-    if (game.players.length !== 2) {
-      validation.issues.push(`Expected 2 players, found ${game.players.length}`);
-    }
-
-    if (!game.players.every(p => p.id && p.name)) {
-      validation.issues.push('Players missing required id or name');
-    }
-
-    if (game.deck.length + game.communityCards.length + (game.players[0].holeCards.length + game.players[1].holeCards.length) !== 52) {
-      validation.issues.push('Card count doesn\'t add up to 52');
-    }
+    validation.violations = validateGameState(game);
+    validation.issues.push(...validation.violations.map(violation => violation.message));
 
     if (validation.issues.length === 0) {
       validation.recommendations.push('Game structure looks valid');
@@ -5,6 +5,7 @@ export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
     const seedParam = searchParams.get('seed');
+    const deckParam = searchParams.get('deck');
     
     // Parse seed or default to current timestamp
     let seed: number;
@@ -14,8 +15,15 @@ export async function GET(request: NextRequest) {
       seed = Date.now();
     }
     
-    // Create and shuffle deck
-    const deck = createDeck();
+    if (deckParam !== null && deckParam !== 'standard' && deckParam !== 'short') {
+      return NextResponse.json(
+        { error: 'Deck must be "standard" or "short"' },
+        { status: 400 }
+      );
+    }
+    
+    // Create and shuffle deck (?deck=short for the 36-card Short Deck)
+    const deck = createDeck(deckParam ?? 'standard');
     const shuffledDeck = shuffleDeck(deck, seed);
     
     const response: ShuffleResponse = {
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { executePlayerAction } from '@bluepoker/shared';
-import { gameStore } from '../../../../../lib/game-store';
+import { redactGameStateFor, PLAYER_ACTIONS } from '@bluepoker/shared';
+import { gameStore, parseDispatchOptions } from '../../../../../lib/game-store';
 import { broadcaster } from '../../../../../lib/event-broadcaster';
 import { withAuth, verifyGameAction } from '../../../../../lib/auth-middleware';
 
@@ -49,37 +49,49 @@ export const POST = withAuth(async (
     }
 
     // Validate action type
-    if (!['fold', 'call', 'raise'].includes(action)) {
+    if (!PLAYER_ACTIONS.includes(action)) {
       return NextResponse.json(
         { error: 'Invalid action' },
         { status: 400 }
       );
     }
 
-    // Validate raise amount
-    if (action === 'raise' && (amount === undefined || amount === null)) {
+    // Validate bet and raise amount
+    if ((action === 'bet' || action === 'raise') && (amount === undefined || amount === null)) {
       return NextResponse.json(
         { success: false, error: 'amount required' },
         { status: 400 }
       );
     }
 
-    // Execute player action
-    const result = executePlayerAction(gameState, playerId, action, amount);
+    const options = parseDispatchOptions(body);
+    if (typeof options === 'string') {
+      return NextResponse.json(
+        { success: false, error: options },
+        { status: 400 }
+      );
+    }
+
+    // Execute player action, storing the new state when it succeeds
+    const result = gameStore.dispatch(gameId, { type: 'act', playerId, action, amount }, options);
+
+    if (result.conflict) {
+      return NextResponse.json({ success: false, error: result.error, gameState: redactGameStateFor(result.gameState, playerId) }, { status: 409 });
+    }
     
     if (result.success) {
-      // Update stored game state
-      gameStore.set(gameId, result.gameState);
-
-      // Broadcast game state update to SSE connections
-      broadcaster.broadcast(gameId, {
-        type: 'gameStateUpdate',
-        data: result.gameState
-      });
+      // Broadcast game state update to SSE connections (a repeated request was broadcast the first time)
+      if (!result.duplicate) {
+        broadcaster.broadcast(gameId, {
+          type: 'gameStateUpdate',
+          data: result.gameState
+        });
+      }
 
-      return NextResponse.json(result);
+      // The events hold every player's cards, so only the redacted state is returned
+      return NextResponse.json({ success: true, gameState: redactGameStateFor(result.gameState, playerId) });
     } else {
-      return NextResponse.json(result, { status: 400 });
+      return NextResponse.json({ success: false, error: result.error, gameState: redactGameStateFor(result.gameState, playerId) }, { status: 400 });
     }
   } catch (error) {
     console.error('Error executing player action:', error);
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getLegalActions } from '@bluepoker/shared';
+import { gameStore } from '../../../../../lib/game-store';
+import { withAuth } from '../../../../../lib/auth-middleware';
+
+export const GET = withAuth(async (
+  request: NextRequest,
+  user,
+  { params }: { params: Promise<{ gameId: string }> }
+) => {
+  try {
+    const { gameId } = await params;
+
+    const gameState = gameStore.get(gameId);
+    if (!gameState) {
+      return NextResponse.json(
+        { error: 'Game not found' },
+        { status: 404 }
+      );
+    }
+
+    // Legal actions are only ever reported for the authenticated user's own seat
+    const userPlayer = gameState.players.find(p => p.name === user.username);
+    if (!userPlayer) {
+      return NextResponse.json(
+        { error: 'You are not a player in this game' },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json({
+      playerId: userPlayer.id,
+      isPlayerTurn: gameState.players[gameState.activePlayerIndex]?.id === userPlayer.id,
+      legalActions: getLegalActions(gameState, userPlayer.id)
+    });
+  } catch (error) {
+    console.error('Error getting legal actions:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { dealNewHand } from '@bluepoker/shared';
-import { gameStore } from '../../../../../lib/game-store';
+import { redactGameStateFor } from '@bluepoker/shared';
+import { gameStore, parseDispatchOptions } from '../../../../../lib/game-store';
 import { broadcaster } from '../../../../../lib/event-broadcaster';
 import { withAuth } from '../../../../../lib/auth-middleware';
 
@@ -11,6 +11,8 @@ export const POST = withAuth(async (
 ) => {
   try {
     const { gameId } = await params;
+    // Clients may post no body; the concurrency options are optional
+    const body = await request.json().catch(() => ({})) ?? {};
 
     const gameState = gameStore.get(gameId);
     if (!gameState) {
@@ -29,19 +31,33 @@ export const POST = withAuth(async (
       );
     }
 
-    // Deal new hand
-    const newGameState = dealNewHand(gameState);
-    
-    // Update stored game state
-    gameStore.set(gameId, newGameState);
+    const options = parseDispatchOptions(body);
+    if (typeof options === 'string') {
+      return NextResponse.json(
+        { error: options },
+        { status: 400 }
+      );
+    }
+
+    // Deal new hand and store it
+    const result = gameStore.dispatch(gameId, { type: 'deal' }, options);
+    const newGameState = result.gameState;
+    if (result.conflict) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: 409 }
+      );
+    }
 
-    // Broadcast game state update to SSE connections
-    broadcaster.broadcast(gameId, {
-      type: 'gameStateUpdate',
-      data: newGameState
-    });
+    // Broadcast game state update to SSE connections (a repeated request was broadcast the first time)
+    if (!result.duplicate) {
+      broadcaster.broadcast(gameId, {
+        type: 'gameStateUpdate',
+        data: newGameState
+      });
+    }
 
-    return NextResponse.json(newGameState);
+    return NextResponse.json(redactGameStateFor(newGameState, userPlayer.id));
   } catch (error) {
     console.error('Error dealing new hand:', error);
     return NextResponse.json(
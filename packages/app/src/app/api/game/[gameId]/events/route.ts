@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { redactGameStateFor } from '@bluepoker/shared';
 import { gameStore } from '../../../../../lib/game-store';
 import { broadcaster } from '../../../../../lib/event-broadcaster';
 import { requireAuth } from '../../../../../lib/auth-middleware';
@@ -13,6 +14,7 @@ export async function GET(
   console.log(`Games in store: ${gameStore.size()}`);
   
   // Authenticate the request (supports query param token for SSE)
+  let viewerPlayerId: string;
   try {
     const user = await requireAuth(request);
     console.log(`Authenticated SSE request from user: ${user.username}`);
@@ -40,6 +42,7 @@ export async function GET(
       );
     }
 
+    viewerPlayerId = userPlayer.id;
     console.log(`Game ${gameId} found, setting up SSE connection for user ${user.username}`);
   } catch (error) {
     console.error('SSE authentication error:', error);
@@ -51,15 +54,15 @@ export async function GET(
 
   const connectionId = `conn-${Date.now()}-${Math.random()}`;
   
-  // Get game state (we know it exists from auth check above)
-  const gameState = gameStore.get(gameId);
+  // Get game state (we know it exists from auth check above), as this player may see it
+  const gameState = redactGameStateFor(gameStore.get(gameId)!, viewerPlayerId);
   
   // Create SSE stream
   const stream = new ReadableStream({
     start(controller) {
       try {
         // Add connection to broadcaster
-        broadcaster.addConnection(gameId, connectionId, controller);
+        broadcaster.addConnection(gameId, connectionId, controller, viewerPlayerId);
 
         // Send initial connection event
         const welcomeEvent = `id: ${Date.now()}\nevent: connected\ndata: ${JSON.stringify({ gameId, connectionId })}\n\n`;
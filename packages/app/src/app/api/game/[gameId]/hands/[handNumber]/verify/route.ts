@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { redactHandHistoryFor, verifyHandShuffle } from '@bluepoker/shared';
+import { gameStore } from '../../../../../../../lib/game-store';
+import { handHistoryStore } from '../../../../../../../lib/hand-history-store';
+import { withAuth } from '../../../../../../../lib/auth-middleware';
+
+export const GET = withAuth(async (
+  request: NextRequest,
+  user,
+  { params }: { params: Promise<{ gameId: string; handNumber: string }> }
+) => {
+  try {
+    const { gameId, handNumber } = await params;
+
+    const handNumberValue = Number(handNumber);
+    if (!Number.isInteger(handNumberValue) || handNumberValue < 1) {
+      return NextResponse.json(
+        { error: 'Hand number must be a positive integer' },
+        { status: 400 }
+      );
+    }
+
+    const gameState = gameStore.get(gameId);
+    if (!gameState) {
+      return NextResponse.json(
+        { error: 'Game not found' },
+        { status: 404 }
+      );
+    }
+
+    const userPlayer = gameState.players.find(p => p.name === user.username);
+    if (!userPlayer) {
+      return NextResponse.json(
+        { error: 'You are not a player in this game' },
+        { status: 403 }
+      );
+    }
+
+    const history = await handHistoryStore.get(gameId, handNumberValue);
+    if (!history) {
+      return NextResponse.json(
+        { error: 'Hand not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!history.shuffle) {
+      return NextResponse.json(
+        { error: 'Hand was not dealt from a committed shuffle' },
+        { status: 400 }
+      );
+    }
+
+    // The player's own view of the hand is returned so the check can be repeated client-side
+    const hand = redactHandHistoryFor(history, userPlayer.id);
+
+    return NextResponse.json({
+      gameId,
+      handNumber: handNumberValue,
+      commitment: history.shuffle.commitment,
+      seed: history.shuffle.seed,
+      verification: verifyHandShuffle(hand),
+      history: hand
+    });
+  } catch (error) {
+    console.error('Error verifying hand shuffle:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { formatPokerStarsSession, redactHandHistoryFor } from '@bluepoker/shared';
+import { gameStore } from '../../../../../lib/game-store';
+import { handHistoryStore } from '../../../../../lib/hand-history-store';
+import { withAuth } from '../../../../../lib/auth-middleware';
+
+export const GET = withAuth(async (
+  request: NextRequest,
+  user,
+  { params }: { params: Promise<{ gameId: string }> }
+) => {
+  try {
+    const { gameId } = await params;
+
+    const gameState = gameStore.get(gameId);
+    if (!gameState) {
+      return NextResponse.json(
+        { error: 'Game not found' },
+        { status: 404 }
+      );
+    }
+
+    const userPlayer = gameState.players.find(p => p.name === user.username);
+    if (!userPlayer) {
+      return NextResponse.json(
+        { error: 'You are not a player in this game' },
+        { status: 403 }
+      );
+    }
+
+    // Players only see their own hole cards and the hands shown down
+    const hands = (await handHistoryStore.list(gameId))
+      .map(history => redactHandHistoryFor(history, userPlayer.id));
+
+    const { searchParams } = new URL(request.url);
+    if (searchParams.get('format') === 'pokerstars') {
+      return new NextResponse(formatPokerStarsSession(hands), {
+        headers: {
+          'Content-Type': 'text/plain; charset=utf-8',
+          'Content-Disposition': `attachment; filename="bluepoker-${gameId}.txt"`
+        }
+      });
+    }
+
+    return NextResponse.json({ gameId, hands });
+  } catch (error) {
+    console.error('Error getting hand histories:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+});
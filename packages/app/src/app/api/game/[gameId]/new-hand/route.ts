@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { startNewHand } from '@bluepoker/shared';
-import { gameStore } from '../../../../../lib/game-store';
+import { redactGameStateFor } from '@bluepoker/shared';
+import { gameStore, parseDispatchOptions } from '../../../../../lib/game-store';
 import { broadcaster } from '../../../../../lib/event-broadcaster';
 import { withAuth } from '../../../../../lib/auth-middleware';
 
@@ -11,6 +11,8 @@ export const POST = withAuth(async (
 ) => {
   try {
     const { gameId } = await params;
+    // Clients may post no body; the concurrency options are optional
+    const body = await request.json().catch(() => ({})) ?? {};
 
     const gameState = gameStore.get(gameId);
     if (!gameState) {
@@ -29,25 +31,33 @@ export const POST = withAuth(async (
       );
     }
 
-    // Check if current hand is complete
-    if (gameState.phase !== 'complete') {
+    const options = parseDispatchOptions(body);
+    if (typeof options === 'string') {
       return NextResponse.json(
-        { error: 'Current hand is not complete' },
+        { error: options },
         { status: 400 }
       );
     }
 
-    // Start new hand
-    const newGameState = startNewHand(gameState);
-    gameStore.set(gameId, newGameState);
+    // Start new hand; it is refused if the current hand is not complete
+    const result = gameStore.dispatch(gameId, { type: 'new-hand' }, options);
+    const newGameState = result.gameState;
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.error },
+        { status: result.conflict ? 409 : 400 }
+      );
+    }
 
-    // Broadcast update to all connected clients
-    broadcaster.broadcast(gameId, {
-      type: 'gameStateUpdate',
-      data: newGameState
-    });
+    // Broadcast update to all connected clients (a repeated request was broadcast the first time)
+    if (!result.duplicate) {
+      broadcaster.broadcast(gameId, {
+        type: 'gameStateUpdate',
+        data: newGameState
+      });
+    }
 
-    return NextResponse.json(newGameState);
+    return NextResponse.json(redactGameStateFor(newGameState, userPlayer.id));
   } catch (error) {
     console.error('Error starting new hand:', error);
     
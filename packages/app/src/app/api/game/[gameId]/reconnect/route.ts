@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { redactGameStateFor } from '@bluepoker/shared'
 import { gameStore } from '../../../../../lib/game-store'
 import { reconnectionService } from '../../../../../lib/persistence-service'
+import { gameEventStore } from '../../../../../lib/game-event-store'
 
 export async function POST(
   request: NextRequest,
@@ -29,14 +31,17 @@ export async function POST(
 
     try {
       // Handle the reconnection
-      const gameState = await reconnectionService.handleReconnection(
+      const persistedGameState = await reconnectionService.handleReconnection(
         gameId,
         playerId,
         reconnectToken
       )
 
-      // Restore game to memory if it's not already there
-      if (!gameStore.has(gameId)) {
+      // Restore game to memory if it's not already there, from its event log first (as restore
+      // does) so the log carries on from its last event rather than starting over
+      let gameState = gameStore.get(gameId)
+      if (!gameState) {
+        gameState = await gameEventStore.restore(gameId) ?? persistedGameState
         gameStore.set(gameId, gameState)
       }
 
@@ -47,7 +52,7 @@ export async function POST(
 
       return NextResponse.json({
         success: true,
-        gameState,
+        gameState: redactGameStateFor(gameState, playerId),
         reconnectedAt,
         missedEvents,
         playerId
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { redactGameStateFor, SPECTATOR, validateGameState } from '@bluepoker/shared'
 import { gameStore } from '../../../../../lib/game-store'
 import { gamePersistenceService } from '../../../../../lib/persistence-service'
+import { gameEventStore } from '../../../../../lib/game-event-store'
 
 export async function GET(
   request: NextRequest,
@@ -19,11 +21,11 @@ export async function GET(
     // First check if game exists in memory (faster)
     const memoryGameState = gameStore.get(gameId)
     if (memoryGameState) {
-      return NextResponse.json(memoryGameState)
+      return NextResponse.json(redactGameStateFor(memoryGameState, SPECTATOR))
     }
 
-    // Try to restore from persistence
-    const restoredGameState = await gamePersistenceService.restoreGame(gameId)
+    // Rebuild from the game's event log, falling back to the last persisted state
+    const restoredGameState = await gameEventStore.restore(gameId) ?? await gamePersistenceService.restoreGame(gameId)
     
     if (!restoredGameState) {
       return NextResponse.json(
@@ -32,10 +34,21 @@ export async function GET(
       )
     }
 
+    // Whichever path rebuilt it, a state that breaks the engine's invariants would fail on the next action
+    const violations = validateGameState(restoredGameState)
+    if (violations.length > 0) {
+      console.error('Restored game state violates game invariants:', gameId, violations)
+      return NextResponse.json(
+        { error: 'Persisted state for this game is invalid' },
+        { status: 500 }
+      )
+    }
+
     // Restore to memory for future requests
     gameStore.set(gameId, restoredGameState)
     
-    return NextResponse.json(restoredGameState)
+    // This endpoint is unauthenticated, so it only ever returns the spectator view
+    return NextResponse.json(redactGameStateFor(restoredGameState, SPECTATOR))
   } catch (error) {
     console.error('Restore endpoint error:', error)
     return NextResponse.json(
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { redactGameStateFor } from '@bluepoker/shared';
 import { gameStore } from '../../../../lib/game-store';
 import { withAuth } from '../../../../lib/auth-middleware';
 
@@ -27,7 +28,8 @@ export const GET = withAuth(async (
       );
     }
 
-    return NextResponse.json(gameState);
+    // Only the user's own hole cards (and showdown reveals) are included
+    return NextResponse.json(redactGameStateFor(gameState, userPlayer.id));
   } catch (error) {
     console.error('Error getting game state:', error);
     return NextResponse.json(
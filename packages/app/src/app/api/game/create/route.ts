@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { createGame } from '@bluepoker/shared';
+import { createTableConfig, redactGameStateFor, SPECTATOR, TableConfig, MIN_PLAYERS, MAX_PLAYERS } from '@bluepoker/shared';
 import { randomUUID } from 'crypto';
 import { gameStore } from '../../../../lib/game-store';
 import { withAuth } from '../../../../lib/auth-middleware';
@@ -7,12 +7,13 @@ import { withAuth } from '../../../../lib/auth-middleware';
 export const POST = withAuth(async (request: NextRequest, user) => {
   try {
     const body = await request.json();
-    const { playerNames } = body;
+    const { playerNames, tableConfig } = body;
 
     // Validate input
-    if (!playerNames || !Array.isArray(playerNames) || playerNames.length !== 2) {
+    if (!playerNames || !Array.isArray(playerNames) ||
+        playerNames.length < MIN_PLAYERS || playerNames.length > MAX_PLAYERS) {
       return NextResponse.json(
-        { error: 'Two player names required' },
+        { error: `Between ${MIN_PLAYERS} and ${MAX_PLAYERS} player names required` },
         { status: 400 }
       );
     }
@@ -32,23 +33,37 @@ export const POST = withAuth(async (request: NextRequest, user) => {
       );
     }
 
-    // Create new game
+    if (tableConfig !== undefined && (typeof tableConfig !== 'object' || tableConfig === null || Array.isArray(tableConfig))) {
+      return NextResponse.json(
+        { error: 'Table config must be an object' },
+        { status: 400 }
+      );
+    }
+
+    let config: TableConfig;
+    try {
+      config = createTableConfig(tableConfig);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Invalid table config' },
+        { status: 400 }
+      );
+    }
+
+    // Create and store the new game, linking the creator's seat to their user for authentication
     const gameId = randomUUID();
-    const gameState = createGame(gameId, playerNames as [string, string]);
-    
-    // Add user IDs to players for authentication
-    gameState.players.forEach(player => {
-      if (player.name === user.username) {
-        player.userId = user.id;
-      }
+    const { gameState } = gameStore.dispatch(gameId, {
+      type: 'create',
+      gameId,
+      playerNames,
+      config,
+      userIds: { [user.username]: user.id }
     });
-    
-    // Store game
-    gameStore.set(gameId, gameState);
 
+    const creator = gameState.players.find(p => p.name === user.username);
     return NextResponse.json({
       gameId,
-      gameState
+      gameState: redactGameStateFor(gameState, creator?.id ?? SPECTATOR)
     });
   } catch (error) {
     console.error('Error creating game:', error);
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { calculateEquity, EquityHand, EquityResult } from '@bluepoker/shared';
+
+interface HandEquityRequest {
+  hands: EquityHand[];
+  board?: string[];
+  deadCards?: string[];
+  iterations?: number;
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: HandEquityRequest = await request.json();
+
+    // Validate request body
+    if (!body || !Array.isArray(body.hands)) {
+      return NextResponse.json(
+        { error: 'Invalid request body. Expected { hands: (string[] | string[][] | string)[], board?: string[], deadCards?: string[] }' },
+        { status: 400 }
+      );
+    }
+
+    const { hands, board, deadCards, iterations } = body;
+
+    if ([board, deadCards].some(cards => cards !== undefined && (!Array.isArray(cards) || cards.some(card => typeof card !== 'string')))) {
+      return NextResponse.json(
+        { error: 'Board and dead cards must be arrays of card strings' },
+        { status: 400 }
+      );
+    }
+
+    // Bad hands, duplicate cards and out-of-range iterations are all rejected by the calculation
+    let result: EquityResult;
+    try {
+      result = calculateEquity(hands, { board, deadCards, iterations });
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Invalid equity request' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error('Error calculating equity:', error);
+    return NextResponse.json(
+      { error: 'Failed to calculate equity' },
+      { status: 500 }
+    );
+  }
+}
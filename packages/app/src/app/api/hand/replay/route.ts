@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { HandHistory, replayHand } from '@bluepoker/shared';
+
+interface HandReplayRequest {
+  history: HandHistory;
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const body: HandReplayRequest = await request.json();
+    const history = body?.history;
+
+    // Validate request body
+    if (!history || typeof history !== 'object' ||
+        !Array.isArray(history.seats) || !Array.isArray(history.events) ||
+        !history.config || typeof history.handNumber !== 'number') {
+      return NextResponse.json(
+        { error: 'Invalid request body. Expected { history: HandHistory }' },
+        { status: 400 }
+      );
+    }
+
+    const replay = replayHand(history);
+
+    // The remaining deck and the nested history are not needed to step through the hand
+    const steps = replay.steps.map(({ event, gameState }) => ({
+      event,
+      gameState: { ...gameState, deck: [], handHistory: undefined }
+    }));
+
+    return NextResponse.json({ ...replay, steps });
+  } catch (error) {
+    console.error('Error replaying hand:', error);
+    return NextResponse.json(
+      { error: 'Failed to replay hand' },
+      { status: 500 }
+    );
+  }
+}
@@ -4,7 +4,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getLobbyManager, createGame } from '@bluepoker/shared';
+import { getLobbyManager } from '@bluepoker/shared';
 import { randomUUID } from 'crypto';
 import { gameStore } from '../../../../../../lib/game-store';
 
@@ -69,24 +69,14 @@ export async function POST(
         const existingPokerGame = gameStore.get(gameId);
         
         if (existingPokerGame) {
-          // Update player names in the poker game based on lobby players
-          const playerNames: [string, string] = [
-            updatedGame.players[0]?.name || 'Waiting for Player 1',
-            updatedGame.players[1]?.name || 'Waiting for Player 2'
-          ];
-          
-          // Create updated poker game with real player names
-          const updatedPokerGameState = createGame(gameId, playerNames);
-          
-          // Preserve any existing game state (chips, etc.) if the game has started
-          if (existingPokerGame.phase !== 'waiting') {
-            // Game has started, preserve state but update player names
-            updatedPokerGameState.players[0].name = playerNames[0];
-            updatedPokerGameState.players[1].name = playerNames[1];
+          // Seat every lobby player, keeping at least two seats for heads-up placeholders
+          const playerNames = updatedGame.players.map(p => p.name);
+          while (playerNames.length < 2) {
+            playerNames.push(`Waiting for Player ${playerNames.length + 1}`);
           }
           
-          // Store the updated poker game
-          gameStore.set(gameId, updatedPokerGameState);
+          // Recreate the poker game with real player names; its log starts again from GameCreated
+          gameStore.dispatch(gameId, { type: 'create', gameId, playerNames, config: existingPokerGame.config });
           
           console.log(`Updated poker game ${gameId} with players:`, playerNames);
         } else {
@@ -5,7 +5,7 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { getLobbyManager, createGame } from '@bluepoker/shared';
+import { getLobbyManager, createTableConfig, TableConfig, isStud, MAX_STUD_PLAYERS } from '@bluepoker/shared';
 import { gameStore } from '../../../../lib/game-store';
 
 export async function GET(request: NextRequest) {
@@ -43,7 +43,7 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
-    const { name, maxPlayers, gameType, buyIn } = body;
+    const { name, maxPlayers, gameType, buyIn, tableConfig } = body;
 
     // Validation
     if (!name || typeof name !== 'string' || name.trim().length === 0) {
@@ -74,16 +74,41 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (tableConfig !== undefined && (typeof tableConfig !== 'object' || tableConfig === null || Array.isArray(tableConfig))) {
+      return NextResponse.json(
+        { error: 'Table config must be an object' },
+        { status: 400 }
+      );
+    }
+
+    // The buy-in seeds the starting stack unless the table config sets one
+    let config: TableConfig;
+    try {
+      config = createTableConfig({
+        ...(buyIn ? { startingStack: buyIn } : {}),
+        ...tableConfig
+      });
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Invalid table config' },
+        { status: 400 }
+      );
+    }
+
+    if (isStud(config.variant) && maxPlayers > MAX_STUD_PLAYERS) {
+      return NextResponse.json(
+        { error: `Seven-Card Stud games seat at most ${MAX_STUD_PLAYERS} players` },
+        { status: 400 }
+      );
+    }
+
     const lobbyManager = getLobbyManager();
-    const game = lobbyManager.createGame(name.trim(), maxPlayers, gameType, buyIn);
+    const game = lobbyManager.createGame(name.trim(), maxPlayers, gameType, buyIn, config);
 
     // Immediately create corresponding poker game with placeholder players
     try {
       const placeholderNames: [string, string] = ['Waiting for Player 1', 'Waiting for Player 2'];
-      const pokerGameState = createGame(game.gameId, placeholderNames);
-      
-      // Store the poker game
-      gameStore.set(game.gameId, pokerGameState);
+      gameStore.dispatch(game.gameId, { type: 'create', gameId: game.gameId, playerNames: placeholderNames, config });
       
       console.log(`Created poker game ${game.gameId} with placeholder players`);
     } catch (error) {
@@ -1,7 +1,26 @@
 'use client';
 
 import { useState } from 'react';
-import { Card, ShuffleResponse, DrawResponse, HandEvalResult, cardToString } from '@bluepoker/shared';
+import { Card, ShuffleResponse, DrawResponse, HandEvalResult, EquityHand, EquityResult, MAX_EQUITY_HANDS, MIN_EQUITY_HANDS, cardToString, stringToCard } from '@bluepoker/shared';
+import { RangeGridPicker } from '../../components/poker/RangeGridPicker';
+
+// Cards may be separated by spaces or commas, e.g. "Ah Kh" or "Ah,Kh"
+const parseCards = (text: string): string[] => text.split(/[\s,]+/).filter(Boolean);
+
+const isCard = (text: string): boolean => {
+  try {
+    stringToCard(text);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Two cards are a hand, e.g. "Ah Kh"; anything else is range notation, e.g. "QQ+, AKs"
+const parseEquityHand = (text: string): EquityHand => {
+  const cards = parseCards(text);
+  return cards.length === 2 && cards.every(isCard) ? cards : text;
+};
 
 export default function DeckPage() {
   const [deck, setDeck] = useState<Card[]>([]);
@@ -12,6 +31,12 @@ export default function DeckPage() {
   const [error, setError] = useState<string | null>(null);
   const [handEvaluation, setHandEvaluation] = useState<HandEvalResult | null>(null);
   const [evaluating, setEvaluating] = useState(false);
+  const [equityHands, setEquityHands] = useState<string[]>(['Ah Kh', 'Qc Qd']);
+  const [equityBoard, setEquityBoard] = useState<string>('');
+  const [equityDeadCards, setEquityDeadCards] = useState<string>('');
+  const [equityResult, setEquityResult] = useState<EquityResult | null>(null);
+  const [calculatingEquity, setCalculatingEquity] = useState(false);
+  const [rangeGridPlayer, setRangeGridPlayer] = useState<number | null>(null);
 
   const handleShuffle = async () => {
     setLoading(true);
@@ -111,6 +136,44 @@ export default function DeckPage() {
     }
   };
 
+  const handleCalculateEquity = async () => {
+    setCalculatingEquity(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/hand/equity', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          hands: equityHands.map(parseEquityHand),
+          board: parseCards(equityBoard),
+          deadCards: parseCards(equityDeadCards)
+        })
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to calculate equity');
+      }
+
+      const data: EquityResult = await response.json();
+      setEquityResult(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to calculate equity');
+    } finally {
+      setCalculatingEquity(false);
+    }
+  };
+
+  const updateEquityHand = (index: number, text: string) => {
+    setEquityHands(equityHands.map((hand, handIndex) => handIndex === index ? text : hand));
+    setEquityResult(null);
+  };
+
+  const formatPercent = (share: number) => `${(share * 100).toFixed(2)}%`;
+
   const renderCard = (card: Card, index: number) => {
     const suitSymbols: Record<Card['suit'], string> = {
       hearts: '♥',
@@ -290,6 +353,112 @@ export default function DeckPage() {
           </div>
         </div>
       </div>
+
+      <div className="bg-white p-6 rounded-lg shadow-lg mt-8">
+        <h2 className="text-xl font-semibold mb-4">Equity Calculator</h2>
+        <p className="text-sm text-gray-500 mb-4">
+          Enter two hole cards per player (e.g. &quot;Ah Kh&quot;), or a range (e.g. &quot;QQ+, AKs, A5s-A2s, KQo&quot;,
+          with &quot;:0.5&quot; after a hand to hold it half the time). Pick a range on the grid with &quot;Grid&quot;.
+        </p>
+        <div className="space-y-2">
+          {equityHands.map((hand, index) => {
+            const playerEquity = equityResult?.players.at(index);
+            return (
+              <div key={index}>
+                <div className="flex items-center gap-2">
+                  <label htmlFor={`equity-hand-${index}`} className="w-20 text-sm font-medium text-gray-700">
+                    Player {index + 1}
+                  </label>
+                  <input
+                    id={`equity-hand-${index}`}
+                    type="text"
+                    value={hand}
+                    onChange={(e) => updateEquityHand(index, e.target.value)}
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  {playerEquity && (
+                    <span className="w-64 text-sm text-gray-700">
+                      Equity {formatPercent(playerEquity.equity)} (win {formatPercent(playerEquity.win)},
+                      tie {formatPercent(playerEquity.tie)})
+                    </span>
+                  )}
+                  <button
+                    onClick={() => setRangeGridPlayer(rangeGridPlayer === index ? null : index)}
+                    className="text-sm text-indigo-600 hover:text-indigo-800"
+                  >
+                    Grid
+                  </button>
+                  <button
+                    onClick={() => {
+                      setEquityHands(equityHands.filter((_, handIndex) => handIndex !== index));
+                      setEquityResult(null);
+                      setRangeGridPlayer(null);
+                    }}
+                    disabled={equityHands.length <= MIN_EQUITY_HANDS}
+                    className="text-sm text-red-600 hover:text-red-800 disabled:text-gray-400"
+                  >
+                    Remove
+                  </button>
+                </div>
+                {rangeGridPlayer === index && (
+                  <div className="mt-2 ml-[5.5rem]">
+                    <RangeGridPicker value={hand} onChange={(notation) => updateEquityHand(index, notation)} />
+                  </div>
+                )}
+              </div>
+            );
+          })}
+          <button
+            onClick={() => {
+              setEquityHands([...equityHands, '']);
+              setEquityResult(null);
+            }}
+            disabled={equityHands.length >= MAX_EQUITY_HANDS}
+            className="text-sm text-blue-600 hover:text-blue-800 disabled:text-gray-400"
+          >
+            + Add player
+          </button>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+          <div>
+            <label htmlFor="equity-board" className="block text-sm font-medium text-gray-700 mb-1">
+              Board (optional)
+            </label>
+            <input
+              id="equity-board"
+              type="text"
+              value={equityBoard}
+              onChange={(e) => { setEquityBoard(e.target.value); setEquityResult(null); }}
+              placeholder="e.g. 2h 7h 9c"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+          <div>
+            <label htmlFor="equity-dead" className="block text-sm font-medium text-gray-700 mb-1">
+              Dead cards (optional)
+            </label>
+            <input
+              id="equity-dead"
+              type="text"
+              value={equityDeadCards}
+              onChange={(e) => { setEquityDeadCards(e.target.value); setEquityResult(null); }}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+        </div>
+        <button
+          onClick={handleCalculateEquity}
+          disabled={calculatingEquity}
+          className="mt-4 w-full bg-indigo-500 text-white px-4 py-2 rounded-md hover:bg-indigo-600 disabled:bg-gray-400 disabled:cursor-not-allowed"
+        >
+          {calculatingEquity ? 'Calculating...' : 'Calculate Equity'}
+        </button>
+        {equityResult && (
+          <p className="mt-2 text-xs text-gray-500">
+            {equityResult.method === 'exhaustive' ? 'Exact' : 'Monte Carlo estimate'} over {equityResult.trials.toLocaleString()} deals
+          </p>
+        )}
+      </div>
     </div>
   );
 }
\ No newline at end of file
@@ -13,6 +13,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Separator } from '@/components/ui/separator';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
+import { POKER_VARIANTS, PokerVariant, pokerVariantName } from '@bluepoker/shared';
 
 interface LobbyGame {
   gameId: string;
@@ -28,6 +29,13 @@ interface LobbyGame {
   }>;
   gameType: 'heads-up' | 'multi-table';
   buyIn?: number;
+  tableConfig?: {
+    variant: PokerVariant;
+    smallBlind: number;
+    bigBlind: number;
+    ante: number;
+    bettingStructure: string;
+  };
 }
 
 interface LobbyData {
@@ -51,6 +59,7 @@ export default function LobbyPage() {
     name: '',
     maxPlayers: '4',
     gameType: 'multi-table' as 'heads-up' | 'multi-table',
+    variant: 'holdem' as PokerVariant,
     buyIn: ''
   });
 
@@ -149,6 +158,7 @@ export default function LobbyPage() {
           maxPlayers: parseInt(createForm.maxPlayers),
           gameType: createForm.gameType,
           buyIn: createForm.buyIn ? parseInt(createForm.buyIn) : undefined,
+          tableConfig: { variant: createForm.variant },
           createdBy: user?.id
         })
       });
@@ -159,7 +169,7 @@ export default function LobbyPage() {
       }
 
       // Reset form and close dialog
-      setCreateForm({ name: '', maxPlayers: '4', gameType: 'multi-table', buyIn: '' });
+      setCreateForm({ name: '', maxPlayers: '4', gameType: 'multi-table', variant: 'holdem', buyIn: '' });
       setShowCreateDialog(false);
       
       // Refresh lobby data
@@ -303,6 +313,24 @@ export default function LobbyPage() {
                     </SelectContent>
                   </Select>
                 </div>
+                <div>
+                  <Label htmlFor="variant">Variant</Label>
+                  <Select
+                    name="variant"
+                    value={createForm.variant}
+                    onValueChange={(value) =>
+                      setCreateForm({ ...createForm, variant: value as PokerVariant })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {POKER_VARIANTS.map(variant => (
+                        <SelectItem key={variant} value={variant}>{pokerVariantName(variant)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
                 <div>
                   <Label htmlFor="buyIn">Buy-In (optional)</Label>
                   <Input
@@ -380,6 +408,12 @@ export default function LobbyPage() {
                         <span className="font-medium">Buy-in:</span> ${game.buyIn}
                       </div>
                     )}
+                    {game.tableConfig && (
+                      <div>
+                        <span className="font-medium">{pokerVariantName(game.tableConfig.variant)}:</span> ${game.tableConfig.smallBlind}/${game.tableConfig.bigBlind}
+                        {game.tableConfig.ante > 0 && ` (ante $${game.tableConfig.ante})`} {game.tableConfig.bettingStructure}
+                      </div>
+                    )}
                   </div>
                   
                   <div className="flex gap-2">
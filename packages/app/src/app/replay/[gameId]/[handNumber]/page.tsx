@@ -0,0 +1,243 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { GameState, HandHistory, HandHistoryEvent, HandReplayResult, verifyHandShuffle } from '@bluepoker/shared';
+import { useParams, useRouter } from 'next/navigation';
+import { ProtectedRoute } from '../../../../components/auth/ProtectedRoute';
+import { useAuth } from '../../../../contexts/AuthContext';
+
+export default function HandReplayPage() {
+  const { user } = useAuth();
+  const params = useParams();
+  const router = useRouter();
+  const gameId = params.gameId as string;
+  const handNumber = params.handNumber as string;
+
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string>('');
+  const [history, setHistory] = useState<HandHistory | null>(null);
+  const [replay, setReplay] = useState<HandReplayResult | null>(null);
+  const [stepIndex, setStepIndex] = useState<number>(0);
+
+  // Run a hand history through the engine on the server
+  const runReplay = useCallback(async (handHistory: HandHistory) => {
+    setError('');
+    const response = await fetch('/api/hand/replay', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ history: handHistory })
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || `HTTP ${response.status}`);
+    }
+
+    setHistory(handHistory);
+    setReplay(data);
+    setStepIndex(0);
+  }, []);
+
+  // Load the stored hand for this game
+  useEffect(() => {
+    if (!user) return;
+
+    setLoading(true);
+    fetch(`/api/game/${gameId}/hands/${handNumber}`, {
+      headers: { 'Authorization': `Bearer ${user.id}` }
+    })
+      .then(async response => {
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || `HTTP ${response.status}`);
+        }
+        await runReplay(data as HandHistory);
+      })
+      .catch(err => {
+        console.error('Failed to load hand history:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load hand history');
+      })
+      .finally(() => setLoading(false));
+  }, [gameId, handNumber, user, runReplay]);
+
+  // Replay a hand history exported from another session or attached to a bug report
+  const uploadHistory = async (file: File) => {
+    try {
+      await runReplay(JSON.parse(await file.text()) as HandHistory);
+    } catch (err) {
+      console.error('Failed to replay uploaded hand history:', err);
+      setError(err instanceof Error ? err.message : 'Failed to replay uploaded hand history');
+    }
+  };
+
+  const formatCard = (card: { suit: string; rank: string }) => {
+    const suitSymbols = { hearts: '♥', diamonds: '♦', clubs: '♣', spades: '♠' };
+    const suitColors = { hearts: 'text-red-500', diamonds: 'text-red-500', clubs: 'text-black', spades: 'text-black' };
+    return (
+      <span className={`font-bold ${suitColors[card.suit as keyof typeof suitColors]}`}>
+        {card.rank}{suitSymbols[card.suit as keyof typeof suitSymbols]}
+      </span>
+    );
+  };
+
+  const describeEvent = (event: HandHistoryEvent | undefined) => {
+    if (!event) return 'Cards dealt, blinds posted';
+    const name = history?.seats.find(s => 'playerId' in event && s.playerId === event.playerId)?.name ?? '';
+    if (event.type === 'post') return `${name} posts ${event.blind} $${event.amount}`;
+    if (event.type !== 'action') return event.type;
+    const amount = event.action === 'bet' || event.action === 'raise'
+      ? ` to $${event.raiseTo}`
+      : event.action === 'call' ? ` $${event.amount}` : '';
+    return `${name} ${event.action}s${amount}${event.allIn ? ' (all-in)' : ''}`;
+  };
+
+  // Checked in the browser from the revealed seed, so players need not trust the server's word
+  const shuffleCheck = history?.shuffle ? verifyHandShuffle(history) : null;
+
+  const steps = replay?.steps ?? [];
+  const step = steps.at(stepIndex);
+  const gameState: GameState | undefined = step?.gameState;
+
+  return (
+    <ProtectedRoute>
+      <div className="min-h-screen bg-green-800 p-8">
+        <div className="max-w-6xl mx-auto">
+          <h1 className="text-4xl font-bold text-white mb-8 text-center">
+            Hand Replay #{history?.handNumber ?? handNumber}
+          </h1>
+
+          {error && (
+            <div className="mb-4 p-4 rounded-lg bg-red-100 border border-red-400 text-red-700">
+              {error}
+            </div>
+          )}
+
+          <div className="space-y-6">
+            <div className="bg-white rounded-lg p-4 shadow-lg flex flex-wrap items-center justify-between gap-4">
+              <div>
+                <h3 className="text-lg font-bold">Game ID: {gameId}</h3>
+                {replay && (
+                  <div className={replay.verified ? 'text-green-700' : 'text-red-700'}>
+                    {replay.verified
+                      ? '✅ Final stacks match the recorded hand'
+                      : `❌ ${replay.error ?? `${replay.mismatches.length} stack(s) differ from the record`}`}
+                  </div>
+                )}
+                {shuffleCheck && (
+                  <div className={shuffleCheck.verified ? 'text-green-700' : 'text-red-700'}>
+                    {shuffleCheck.verified
+                      ? '✅ Shuffle verified against the published commitment'
+                      : `❌ ${shuffleCheck.error ?? shuffleCheck.mismatches.join('; ')}`}
+                    <div className="text-xs text-gray-500 break-all">Commitment: {history?.shuffle?.commitment}</div>
+                  </div>
+                )}
+              </div>
+              <div className="flex items-center space-x-2">
+                <label className="bg-gray-200 hover:bg-gray-300 text-gray-800 py-2 px-4 rounded cursor-pointer">
+                  Load hand history file
+                  <input
+                    type="file"
+                    accept="application/json"
+                    className="hidden"
+                    onChange={(e) => e.target.files?.[0] && uploadHistory(e.target.files[0])}
+                  />
+                </label>
+                <button
+                  onClick={() => router.push(`/table/${gameId}`)}
+                  className="bg-blue-500 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded"
+                >
+                  Back to table
+                </button>
+              </div>
+            </div>
+
+            {loading && <div className="text-white text-xl text-center">Loading hand...</div>}
+
+            {gameState && (
+              <>
+                <div className="bg-white rounded-lg p-4 shadow-lg">
+                  <div className="flex items-center justify-between">
+                    <button
+                      onClick={() => setStepIndex(index => Math.max(0, index - 1))}
+                      disabled={stepIndex === 0}
+                      className="bg-gray-500 hover:bg-gray-700 text-white font-bold py-2 px-4 rounded disabled:opacity-50"
+                    >
+                      ◀ Back
+                    </button>
+                    <div className="text-center">
+                      <div className="font-bold">Step {stepIndex + 1} of {steps.length}</div>
+                      <div className="text-gray-600">{describeEvent(step?.event)}</div>
+                    </div>
+                    <button
+                      onClick={() => setStepIndex(index => Math.min(steps.length - 1, index + 1))}
+                      disabled={stepIndex >= steps.length - 1}
+                      className="bg-gray-500 hover:bg-gray-700 text-white font-bold py-2 px-4 rounded disabled:opacity-50"
+                    >
+                      Forward ▶
+                    </button>
+                  </div>
+                </div>
+
+                <div className="bg-white rounded-lg p-4 shadow-lg">
+                  <div className="flex justify-between mb-2">
+                    <div className="text-lg font-bold">Phase: {gameState.phase}</div>
+                    <div className="text-xl font-bold text-green-600">Pot: ${gameState.pot}</div>
+                  </div>
+                  <div className="flex space-x-2">
+                    {gameState.communityCards.length === 0 ? (
+                      <span className="text-gray-500">No community cards</span>
+                    ) : (
+                      gameState.communityCards.map((card, cardIndex) => (
+                        <div key={cardIndex} className="bg-white border border-gray-300 rounded p-2">
+                          {formatCard(card)}
+                        </div>
+                      ))
+                    )}
+                  </div>
+                </div>
+
+                <div className={`grid gap-4 ${gameState.players.length > 2 ? 'md:grid-cols-3' : 'md:grid-cols-2'}`}>
+                  {gameState.players.map((player, index) => (
+                    <div
+                      key={player.id}
+                      className={`bg-white rounded-lg p-4 shadow-lg ${index === gameState.activePlayerIndex && gameState.phase !== 'complete' ? 'ring-4 ring-yellow-400' : ''}`}
+                    >
+                      <h3 className="text-lg font-bold">
+                        {player.name}
+                        {index === gameState.dealerIndex && <span className="ml-2 text-sm text-gray-500">(D)</span>}
+                      </h3>
+                      <div>Chips: ${player.chips}</div>
+                      <div>Bet: ${player.currentBet}</div>
+                      {player.folded && <div className="text-red-600">Folded</div>}
+                      {player.allIn && <div className="text-orange-600">All-In</div>}
+                      <div className="flex space-x-1 mt-2">
+                        {player.holeCards.length === 0 ? (
+                          <span className="text-gray-500 text-sm">Hidden</span>
+                        ) : (
+                          player.holeCards.map((card, cardIndex) => (
+                            <div key={cardIndex} className="bg-white border border-gray-300 rounded p-1 text-sm">
+                              {formatCard(card)}
+                            </div>
+                          ))
+                        )}
+                      </div>
+                      {player.upCards.length > 0 && (
+                        <div className="flex space-x-1 mt-1">
+                          <span className="text-gray-500 text-sm">Up:</span>
+                          {player.upCards.map((card, cardIndex) => (
+                            <div key={cardIndex} className="bg-white border border-gray-300 rounded p-1 text-sm">
+                              {formatCard(card)}
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </ProtectedRoute>
+  );
+}
@@ -376,6 +376,15 @@ export default function GameTablePage() {
                 🎉 Hand #{gameState.handNumber} - {gameState.players[gameState.winner].name} wins! 
                 {gameState.winnerReason && ` (${gameState.winnerReason})`}
               </h3>
+              {gameState.winners && gameState.winners.length > 1 && (
+                <ul className="text-sm mt-1">
+                  {gameState.winners.map(winner => (
+                    <li key={winner.playerId}>
+                      {gameState.players.at(winner.playerIndex)?.name} collects {winner.amount} chips
+                    </li>
+                  ))}
+                </ul>
+              )}
               <p className="text-sm mt-2">
                 Click &quot;Start New Hand&quot; to continue playing or &quot;New Game&quot; to start fresh.
               </p>
@@ -1,7 +1,7 @@
 'use client';
 
 import { useState, useEffect, useRef, useCallback } from 'react';
-import { GameState, Player } from '@bluepoker/shared';
+import { GameState, LegalAction, Player, PlayerAction, isStud, pokerVariantName } from '@bluepoker/shared';
 import { useParams, useRouter } from 'next/navigation';
 import { ProtectedRoute } from '../../../components/auth/ProtectedRoute';
 import { useAuth } from '../../../contexts/AuthContext';
@@ -18,6 +18,9 @@ export default function GameTablePage() {
   const [gameState, setGameState] = useState<GameState | null>(null);
   const [connectionStatus, setConnectionStatus] = useState<'disconnected' | 'connecting' | 'connected'>('disconnected');
   const [lastUpdate, setLastUpdate] = useState<Date | null>(null);
+  const [legalActions, setLegalActions] = useState<LegalAction[]>([]);
+  const [betAmount, setBetAmount] = useState<number>(0);
+  const [now, setNow] = useState<number>(Date.now());
   
   const eventSourceRef = useRef<EventSource | null>(null);
 
@@ -128,6 +131,49 @@ export default function GameTablePage() {
     };
   }, [gameId, loadGame, connectToRealTime]);
 
+  // Ask the server which actions are legal whenever it becomes our turn
+  useEffect(() => {
+    if (!user || !gameState) return;
+
+    const activePlayer = gameState.players[gameState.activePlayerIndex];
+    if (!activePlayer || activePlayer.name !== user.username || gameState.phase === 'complete') {
+      setLegalActions([]);
+      return;
+    }
+
+    fetch(`/api/game/${gameId}/actions`, {
+      headers: { 'Authorization': `Bearer ${user.id}` }
+    })
+      .then(response => response.ok ? response.json() : { legalActions: [] })
+      .then((data: { legalActions: LegalAction[] }) => {
+        setLegalActions(data.legalActions);
+        const sizing = data.legalActions.find(a => a.action === 'bet' || a.action === 'raise');
+        setBetAmount(sizing?.minAmount ?? 0);
+      })
+      .catch(err => {
+        console.error('Failed to load legal actions:', err);
+        setLegalActions([]);
+      });
+  }, [gameId, gameState, user]);
+
+  // Tick once a second while someone's action clock is running
+  const turnDeadline = gameState?.turnDeadline;
+  useEffect(() => {
+    if (turnDeadline === undefined) return;
+
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [turnDeadline]);
+
+  // Seconds of decision time left, then seconds of time bank once that runs out
+  const formatActionClock = (player: Player) => {
+    if (turnDeadline === undefined) return null;
+    const secondsLeft = Math.ceil((turnDeadline - now) / 1000);
+    if (secondsLeft > 0) return `⏱ ${secondsLeft}s`;
+    return `⏳ Time bank: ${Math.max(0, player.timeBankRemaining + secondsLeft)}s`;
+  };
+
   // Simple action handlers using REST API with authentication
   const dealCards = async () => {
     if (!user) return;
@@ -158,7 +204,7 @@ export default function GameTablePage() {
     }
   };
 
-  const executeAction = async (playerId: string, action: 'fold' | 'call' | 'raise', amount?: number) => {
+  const executeAction = async (playerId: string, action: PlayerAction, amount?: number) => {
     if (!user) return;
     
     setLoading(true);
@@ -171,13 +217,25 @@ export default function GameTablePage() {
           'Content-Type': 'application/json',
           'Authorization': `Bearer ${user.id}`
         },
-        body: JSON.stringify({ playerId, action, amount, userId: user.id })
+        // The action only applies to the state the player saw; a key lets a retry be recognised
+        body: JSON.stringify({
+          playerId,
+          action,
+          amount,
+          userId: user.id,
+          expectedVersion: gameState?.version,
+          idempotencyKey: crypto.randomUUID()
+        })
       });
       
       const result = await response.json();
       
       if (result.success) {
         setGameState(result.gameState);
+      } else if (response.status === 409) {
+        // The game moved on before the action arrived; show where it is now
+        setGameState(result.gameState);
+        setError('The game changed before your action arrived. Please try again.');
       } else {
         setError(result.error || 'Action failed');
       }
@@ -188,6 +246,52 @@ export default function GameTablePage() {
     }
   };
 
+  // Sit out of (or back into) the hands that follow
+  const toggleSittingOut = async (sittingOut: boolean) => {
+    if (!user) return;
+
+    try {
+      const response = await fetch(`/api/game/${gameId}/${sittingOut ? 'sit-in' : 'sit-out'}`, {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${user.id}` }
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        setGameState(data);
+      } else {
+        setError(data.error || 'Failed to change seat status');
+      }
+    } catch (err) {
+      setError('Failed to change seat status');
+    }
+  };
+
+  // Rebuy or top up to the table maximum; the chips arrive with the next hand
+  const addChips = async (amount: number) => {
+    if (!user) return;
+
+    try {
+      const response = await fetch(`/api/game/${gameId}/rebuy`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${user.id}`
+        },
+        body: JSON.stringify({ amount })
+      });
+
+      const data = await response.json();
+      if (response.ok) {
+        setGameState(data);
+      } else {
+        setError(data.error || 'Failed to add chips');
+      }
+    } catch (err) {
+      setError('Failed to add chips');
+    }
+  };
+
   const startNewHand = async () => {
     if (!user) return;
     
@@ -244,6 +348,9 @@ export default function GameTablePage() {
     return gameState.players[gameState.activePlayerIndex] || null;
   };
 
+  const myPlayer = gameState?.players.find(p => p.name === user?.username);
+  const topUpAmount = myPlayer && gameState ? gameState.config.maxBuyIn - myPlayer.chips - myPlayer.pendingChips : 0;
+
   const canPlayerAct = (player: Player): boolean => {
     if (!gameState || !user) return false;
     const activePlayer = getActivePlayer();
@@ -326,7 +433,27 @@ export default function GameTablePage() {
               <div className="text-right">
                 <div className="text-lg font-bold">Hand #{gameState.handNumber}</div>
                 <div className="text-lg font-bold">Phase: {gameState.phase}</div>
+                {gameState.config && (
+                  <div className="text-sm text-gray-600">
+                    {pokerVariantName(gameState.config.variant)} {gameState.config.bettingStructure} ${gameState.config.smallBlind}/${gameState.config.bigBlind}
+                    {gameState.config.ante > 0 && ` ante $${gameState.config.ante}`}
+                  </div>
+                )}
+                {gameState.shuffle && (
+                  <div className="text-xs text-gray-500" title={gameState.shuffle.commitment}>
+                    Shuffle commitment: {gameState.shuffle.commitment.slice(0, 16)}…
+                  </div>
+                )}
                 <div className="text-xl font-bold text-green-600">Pot: ${gameState.pot}</div>
+                {gameState.pots && gameState.pots.length > 1 && (
+                  <div className="text-sm text-gray-600">
+                    {gameState.pots.map((pot, potIndex) => (
+                      <div key={potIndex}>
+                        {potIndex === 0 ? 'Main pot' : `Side pot ${potIndex}`}: ${pot.amount}
+                      </div>
+                    ))}
+                  </div>
+                )}
                 <div className="text-md">Current Bet: ${gameState.currentBet}</div>
                 <div className="text-sm flex items-center justify-end mt-1">
                   <span className="mr-2">Connection:</span>
@@ -358,24 +485,26 @@ export default function GameTablePage() {
             </div>
           </div>
 
-          {/* Community Cards */}
-          <div className="bg-white rounded-lg p-4 shadow-lg">
-            <h3 className="text-lg font-bold mb-2">Community Cards</h3>
-            <div className="flex space-x-2">
-              {gameState.communityCards.length === 0 ? (
-                <span className="text-gray-500">No community cards yet</span>
-              ) : (
-                gameState.communityCards.map((card, cardIndex) => (
-                  <div key={cardIndex} className="bg-white border-2 border-gray-300 rounded-lg p-2 text-lg">
-                    {formatCard(card)}
-                  </div>
-                ))
-              )}
+          {/* Community Cards (Stud has none) */}
+          {!isStud(gameState.config.variant) && (
+            <div className="bg-white rounded-lg p-4 shadow-lg">
+              <h3 className="text-lg font-bold mb-2">Community Cards</h3>
+              <div className="flex space-x-2">
+                {gameState.communityCards.length === 0 ? (
+                  <span className="text-gray-500">No community cards yet</span>
+                ) : (
+                  gameState.communityCards.map((card, cardIndex) => (
+                    <div key={cardIndex} className="bg-white border-2 border-gray-300 rounded-lg p-2 text-lg">
+                      {formatCard(card)}
+                    </div>
+                  ))
+                )}
+              </div>
             </div>
-          </div>
+          )}
 
           {/* Players */}
-          <div className="grid grid-cols-2 gap-6">
+          <div className={`grid gap-6 ${gameState.players.length > 2 ? 'grid-cols-2 lg:grid-cols-3' : 'grid-cols-2'}`}>
             {gameState.players.map((player) => (
               <div 
                 key={player.id} 
@@ -389,21 +518,43 @@ export default function GameTablePage() {
                     <span className="bg-red-600 text-white px-2 py-1 rounded-full text-xs ml-2">D</span>
                   )}
                   {canPlayerAct(player) && <span className="text-yellow-600 ml-2">(Your Turn)</span>}
-                  {player.folded && <span className="text-red-600 ml-2">(Folded)</span>}
+                  {player.sittingOut && <span className="text-gray-500 ml-2">(Sitting Out)</span>}
+                  {player.folded && !player.sittingOut && <span className="text-red-600 ml-2">(Folded)</span>}
                   {player.allIn && <span className="text-orange-600 ml-2">(All-In)</span>}
                 </h3>
                 
                 <div className="mb-2">
-                  <div className="font-medium">Chips: ${player.chips}</div>
+                  {gameState.players.indexOf(player) === gameState.activePlayerIndex && formatActionClock(player) && (
+                    <div className="font-bold text-yellow-700">{formatActionClock(player)}</div>
+                  )}
+                  <div className="font-medium">
+                    Chips: ${player.chips}
+                    {player.pendingChips > 0 && <span className="text-sm text-green-700 ml-1">(+${player.pendingChips} next hand)</span>}
+                  </div>
                   <div className="text-sm text-gray-600">Current Bet: ${player.currentBet}</div>
                 </div>
 
+                {/* Stud up cards are public */}
+                {player.upCards.length > 0 && (
+                  <div className="mb-2">
+                    <div className="text-sm font-medium mb-1">Up Cards:</div>
+                    <div className="flex space-x-1">
+                      {player.upCards.map((card, cardIndex) => (
+                        <div key={cardIndex} className="bg-white border border-gray-300 rounded p-1 text-sm">
+                          {formatCard(card)}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
                 {/* Hole Cards */}
                 <div className="mb-4">
-                  <div className="text-sm font-medium mb-1">Hole Cards:</div>
+                  <div className="text-sm font-medium mb-1">{isStud(gameState.config.variant) ? 'Down Cards:' : 'Hole Cards:'}</div>
                   <div className="flex space-x-1">
                     {player.holeCards.length === 0 ? (
-                      <span className="text-gray-500 text-sm">No cards</span>
+                      // Opponents' cards are redacted by the server until showdown
+                      <span className="text-gray-500 text-sm">{player.folded || gameState.phase === 'waiting' ? 'No cards' : 'Hidden'}</span>
                     ) : (
                       player.holeCards.map((card, cardIndex) => (
                         <div key={cardIndex} className="bg-white border border-gray-300 rounded p-1 text-sm">
@@ -415,44 +566,71 @@ export default function GameTablePage() {
                 </div>
 
                 {/* Action Buttons */}
-                {canPlayerAct(player) && (
+                {canPlayerAct(player) && legalActions.length > 0 && (
                   <div className="space-y-2">
-                    <div className="flex space-x-2">
-                      <button
-                        onClick={() => executeAction(player.id, 'fold')}
-                        disabled={loading}
-                        className="bg-red-500 hover:bg-red-700 text-white font-bold py-1 px-3 rounded text-sm disabled:opacity-50"
-                      >
-                        Fold
-                      </button>
-                      <button
-                        onClick={() => executeAction(player.id, 'call')}
-                        disabled={loading}
-                        className="bg-blue-500 hover:bg-blue-700 text-white font-bold py-1 px-3 rounded text-sm disabled:opacity-50"
-                      >
-                        {Math.max(0, gameState.currentBet - player.currentBet) === 0 
-                          ? 'Check' 
-                          : `Call $${Math.max(0, gameState.currentBet - player.currentBet)}`}
-                      </button>
-                    </div>
-                    <div className="flex space-x-2">
-                      <button
-                        onClick={() => {
-                          const minRaise = gameState.currentBet > 0 ? gameState.currentBet * 2 : 20;
-                          executeAction(player.id, 'raise', minRaise);
-                        }}
-                        disabled={loading}
-                        className="bg-green-500 hover:bg-green-700 text-white font-bold py-1 px-3 rounded text-sm disabled:opacity-50"
-                      >
-                        Raise to ${gameState.currentBet > 0 ? gameState.currentBet * 2 : 20}
-                      </button>
-                      <button
-                        onClick={() => executeAction(player.id, 'raise', player.chips + player.currentBet)}
-                        disabled={loading || player.chips === 0}
-                        className="bg-orange-500 hover:bg-orange-700 text-white font-bold py-1 px-3 rounded text-sm disabled:opacity-50"
-                      >
-                        All-In (${player.chips + player.currentBet})
-                      </button>
+                    <div className="flex flex-wrap gap-2">
+                      {legalActions.map(({ action, minAmount, maxAmount }) => {
+                        // Fixed-limit (or a stack-capped raise) has exactly one legal size
+                        if ((action === 'bet' || action === 'raise') && minAmount === maxAmount) {
+                          return (
+                            <button
+                              key={action}
+                              onClick={() => executeAction(player.id, action, minAmount)}
+                              disabled={loading}
+                              className="bg-green-500 hover:bg-green-700 text-white font-bold py-1 px-3 rounded text-sm disabled:opacity-50"
+                            >
+                              {action === 'bet' ? 'Bet' : 'Raise to'} ${minAmount}
+                            </button>
+                          );
+                        }
+
+                        if (action === 'bet' || action === 'raise') {
+                          return (
+                            <div key={action} className="flex items-center space-x-1">
+                              <input
+                                type="number"
+                                min={minAmount}
+                                max={maxAmount}
+                                value={betAmount}
+                                onChange={(e) => setBetAmount(Number(e.target.value))}
+                                className="w-20 border border-gray-300 rounded px-1 py-1 text-sm"
+                              />
+                              <button
+                                onClick={() => setBetAmount(maxAmount ?? 0)}
+                                className="bg-gray-200 hover:bg-gray-300 text-gray-800 py-1 px-2 rounded text-sm"
+                              >
+                                {gameState.config?.bettingStructure === 'pot-limit' ? 'Pot' : 'Max'}
+                              </button>
+                              <button
+                                onClick={() => executeAction(player.id, action, betAmount)}
+                                disabled={loading || betAmount < (minAmount ?? 0) || betAmount > (maxAmount ?? 0)}
+                                className="bg-green-500 hover:bg-green-700 text-white font-bold py-1 px-3 rounded text-sm disabled:opacity-50"
+                              >
+                                {action === 'bet' ? 'Bet' : 'Raise to'} ${betAmount}
+                              </button>
+                            </div>
+                          );
+                        }
+
+                        const label = action === 'fold' ? 'Fold'
+                          : action === 'check' ? 'Check'
+                          : action === 'call' ? `Call $${minAmount}`
+                          : action === 'straddle' ? `Straddle $${minAmount}`
+                          : `All-In ($${maxAmount})`;
+                        const color = action === 'fold' ? 'bg-red-500 hover:bg-red-700'
+                          : action === 'all-in' ? 'bg-orange-500 hover:bg-orange-700'
+                          : 'bg-blue-500 hover:bg-blue-700';
+                        return (
+                          <button
+                            key={action}
+                            onClick={() => executeAction(player.id, action)}
+                            disabled={loading}
+                            className={`${color} text-white font-bold py-1 px-3 rounded text-sm disabled:opacity-50`}
+                          >
+                            {label}
+                          </button>
+                        );
+                      })}
                     </div>
                   </div>
                 )}
@@ -482,6 +660,30 @@ export default function GameTablePage() {
                   {loading ? 'Starting...' : 'Start New Hand'}
                 </button>
               )}
+              {gameState.phase === 'complete' && (
+                <button
+                  onClick={() => router.push(`/replay/${gameId}/${gameState.handNumber}`)}
+                  className="bg-yellow-500 hover:bg-yellow-700 text-white font-bold py-2 px-4 rounded"
+                >
+                  Replay Hand
+                </button>
+              )}
+              {myPlayer && topUpAmount > 0 && (
+                <button
+                  onClick={() => addChips(topUpAmount)}
+                  className="bg-teal-500 hover:bg-teal-700 text-white font-bold py-2 px-4 rounded"
+                >
+                  {myPlayer.chips === 0 ? 'Rebuy' : 'Top Up'} ${topUpAmount}
+                </button>
+              )}
+              {myPlayer && (
+                <button
+                  onClick={() => toggleSittingOut(myPlayer.sittingOut)}
+                  className="bg-orange-500 hover:bg-orange-700 text-white font-bold py-2 px-4 rounded"
+                >
+                  {myPlayer.sittingOut ? 'Sit In' : 'Sit Out'}
+                </button>
+              )}
               <button
                 onClick={() => router.push('/table')}
                 className="bg-gray-500 hover:bg-gray-700 text-white font-bold py-2 px-4 rounded"
@@ -504,6 +706,15 @@ export default function GameTablePage() {
                 🎉 Hand #{gameState.handNumber} - {gameState.players[gameState.winner].name} wins! 
                 {gameState.winnerReason && ` (${gameState.winnerReason})`}
               </h3>
+              {gameState.winners && gameState.winners.length > 1 && (
+                <ul className="text-sm mt-1">
+                  {gameState.winners.map(winner => (
+                    <li key={winner.playerId}>
+                      {gameState.players.at(winner.playerIndex)?.name} collects {winner.amount} chips
+                    </li>
+                  ))}
+                </ul>
+              )}
               <p className="text-sm mt-2">
                 Click &quot;Start New Hand&quot; to continue playing or &quot;New Game&quot; to start fresh.
               </p>
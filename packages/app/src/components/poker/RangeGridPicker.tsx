@@ -0,0 +1,64 @@
+/**
+ * Range Grid Picker Component
+ * 13x13 grid of starting hands for building a range in notation
+ */
+
+'use client';
+
+import { RANGE_RANKS, parseRange, rangeGridHand, rangeHandClass, rangeHandClassSize } from '@bluepoker/shared';
+
+interface RangeGridPickerProps {
+  value: string; // Range notation, e.g. "QQ+, AKs"
+  onChange: (notation: string) => void;
+}
+
+// Hands of each grid cell the notation holds; notation that does not parse shows an empty grid
+function countCellCombos(notation: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  try {
+    parseRange(notation).forEach(combo => {
+      const handClass = rangeHandClass(combo.cards);
+      counts.set(handClass, (counts.get(handClass) ?? 0) + 1);
+    });
+  } catch {
+    // Leave the grid empty until the notation is fixed
+  }
+  return counts;
+}
+
+/**
+ * Clicking a cell adds or removes the whole cell. The range is rewritten as the cells it
+ * touches, so weights and single combos typed by hand become whole cells.
+ */
+export function RangeGridPicker({ value, onChange }: RangeGridPickerProps) {
+  const counts = countCellCombos(value);
+  const cells = RANGE_RANKS.flatMap((_, row) => RANGE_RANKS.map((__, column) => rangeGridHand(row, column)));
+
+  function toggleCell(handClass: string) {
+    const full = (counts.get(handClass) ?? 0) === rangeHandClassSize(handClass);
+    const selected = cells.filter(cell => cell === handClass ? !full : counts.has(cell));
+    onChange(selected.join(', '));
+  }
+
+  return (
+    <div className="inline-grid gap-px bg-gray-300 border border-gray-300 text-xs" style={{ gridTemplateColumns: 'repeat(13, minmax(0, 1fr))' }}>
+      {cells.map(cell => {
+        const combos = counts.get(cell) ?? 0;
+        const colour = combos === 0
+          ? 'bg-white text-gray-600'
+          : combos === rangeHandClassSize(cell) ? 'bg-indigo-500 text-white' : 'bg-indigo-200 text-gray-800';
+        return (
+          <button
+            key={cell}
+            type="button"
+            onClick={() => toggleCell(cell)}
+            title={`${cell}: ${combos}/${rangeHandClassSize(cell)} combos`}
+            className={`w-9 h-7 font-mono hover:opacity-80 ${colour}`}
+          >
+            {cell}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
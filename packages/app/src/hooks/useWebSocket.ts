@@ -7,6 +7,8 @@ import {
   ClientMessage, 
   WebSocketMessage,
   GameState,
+  LegalAction,
+  PlayerAction,
   createWebSocketMessage 
 } from '@bluepoker/shared';
 
@@ -24,6 +26,7 @@ export interface UseWebSocketReturn {
   // Connection state
   connectionStatus: ConnectionStatus;
   gameState: GameState | null;
+  legalActions: LegalAction[];
   error: string | null;
   
   // Connection control
@@ -32,7 +35,7 @@ export interface UseWebSocketReturn {
   
   // Game actions via WebSocket
   authenticate: (playerId: string) => void;
-  sendPlayerAction: (action: 'fold' | 'call' | 'raise', amount?: number) => void;
+  sendPlayerAction: (action: PlayerAction, amount?: number) => void;
   dealCards: () => void;
   startNewHand: () => void;
   
@@ -56,6 +59,7 @@ export function useWebSocket(options: UseWebSocketOptions): UseWebSocketReturn {
   // State
   const [connectionStatus, setConnectionStatus] = useState<ConnectionStatus>('disconnected');
   const [gameState, setGameState] = useState<GameState | null>(null);
+  const [legalActions, setLegalActions] = useState<LegalAction[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [isAuthenticated, setIsAuthenticated] = useState(false);
   
@@ -130,6 +134,11 @@ export function useWebSocket(options: UseWebSocketOptions): UseWebSocketReturn {
           setGameState(wsMessage.data as GameState);
           break;
           
+        case 'legalActions':
+          const legalActionsData = wsMessage.data as { playerId: string; actions: LegalAction[] };
+          setLegalActions(legalActionsData.playerId === playerId ? legalActionsData.actions : []);
+          break;
+          
         case 'actionResult':
           const result = wsMessage.data as { success: boolean; error?: string; gameState?: GameState };
           if (!result.success && result.error) {
@@ -266,7 +275,7 @@ export function useWebSocket(options: UseWebSocketOptions): UseWebSocketReturn {
   }, [gameId, sendMessage]);
   
   // Game actions
-  const sendPlayerAction = useCallback((action: 'fold' | 'call' | 'raise', amount?: number) => {
+  const sendPlayerAction = useCallback((action: PlayerAction, amount?: number) => {
     if (!playerId) {
       setError('Player ID not set');
       return;
@@ -327,6 +336,7 @@ export function useWebSocket(options: UseWebSocketOptions): UseWebSocketReturn {
     // Connection state
     connectionStatus,
     gameState,
+    legalActions,
     error,
     
     // Connection control
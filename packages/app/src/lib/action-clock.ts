@@ -0,0 +1,78 @@
+/**
+ * Server-driven action clocks: one timer per game that acts for the active player
+ * (check if possible, otherwise fold) once their decision time and time bank run out
+ */
+
+import { GameEvent, GameState, createGameStateUpdateMessage, executeGameCommand, getActionClockExpiry } from '@bluepoker/shared';
+import { broadcaster } from './event-broadcaster';
+import { wsManager } from './websocket-manager';
+
+// Use global to persist across Next.js hot reloads
+declare global {
+  // eslint-disable-next-line no-var
+  var __actionClocks: Map<string, ReturnType<typeof setTimeout>> | undefined;
+}
+
+function getActionClocks(): Map<string, ReturnType<typeof setTimeout>> {
+  if (!global.__actionClocks) {
+    global.__actionClocks = new Map<string, ReturnType<typeof setTimeout>>();
+  }
+  return global.__actionClocks;
+}
+
+export const actionClock = {
+  /**
+   * Restart the game's clock from its latest state. When it runs out, the state after the
+   * timed-out action and the events recording it are handed to `save`, and the state is
+   * broadcast to every connected client.
+   */
+  schedule: (
+    gameId: string,
+    gameState: GameState,
+    save: (gameId: string, gameState: GameState, events: GameEvent[]) => void
+  ): void => {
+    actionClock.cancel(gameId);
+
+    const expiry = getActionClockExpiry(gameState);
+    if (expiry === undefined) {
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      getActionClocks().delete(gameId);
+
+      const result = executeGameCommand(gameState, { type: 'timeout', now: Date.now() });
+      if (!result.success) {
+        // Timers can fire a moment early; wait out the rest
+        actionClock.schedule(gameId, gameState, save);
+        return;
+      }
+
+      save(gameId, result.gameState, result.events);
+      wsManager.broadcast(gameId, createGameStateUpdateMessage(result.gameState));
+      broadcaster.broadcast(gameId, {
+        type: 'gameStateUpdate',
+        data: result.gameState
+      });
+    }, Math.max(0, expiry - Date.now()));
+
+    // A pending clock should never keep the process alive on its own
+    timer.unref?.();
+    getActionClocks().set(gameId, timer);
+  },
+
+  cancel: (gameId: string): void => {
+    const clocks = getActionClocks();
+    const timer = clocks.get(gameId);
+    if (timer) {
+      clearTimeout(timer);
+      clocks.delete(gameId);
+    }
+  },
+
+  clear: (): void => {
+    const clocks = getActionClocks();
+    clocks.forEach(timer => clearTimeout(timer));
+    clocks.clear();
+  }
+};
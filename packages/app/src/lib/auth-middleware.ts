@@ -129,7 +129,7 @@ export async function verifyGameAction(
     }
 
     // For actions that require turn order, verify it's the user's turn
-    const turnBasedActions = ['fold', 'call', 'raise', 'check'];
+    const turnBasedActions = ['fold', 'check', 'call', 'bet', 'raise', 'all-in', 'straddle'];
     if (turnBasedActions.includes(action)) {
       // Check if it's the user's turn
       const currentPlayerIndex = game.activePlayerIndex;
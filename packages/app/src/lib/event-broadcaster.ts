@@ -1,6 +1,13 @@
+import { GameState, GameStateViewer, SPECTATOR, redactGameStateFor } from '@bluepoker/shared';
+
+interface SSEConnection {
+  controller: ReadableStreamDefaultController<Uint8Array>;
+  viewer: GameStateViewer; // Whose view of the game state this connection receives
+}
+
 // Global event broadcaster for SSE connections
 export class EventBroadcaster {
-  private connections = new Map<string, Map<string, ReadableStreamDefaultController<Uint8Array>>>();
+  private connections = new Map<string, Map<string, SSEConnection>>();
   private static instance: EventBroadcaster;
 
   static getInstance(): EventBroadcaster {
@@ -10,20 +17,25 @@ export class EventBroadcaster {
     return EventBroadcaster.instance;
   }
 
-  addConnection(gameId: string, connectionId: string, controller: ReadableStreamDefaultController<Uint8Array>): void {
+  addConnection(
+    gameId: string,
+    connectionId: string,
+    controller: ReadableStreamDefaultController<Uint8Array>,
+    viewer: GameStateViewer = SPECTATOR
+  ): void {
     if (!this.connections.has(gameId)) {
       this.connections.set(gameId, new Map());
     }
-    this.connections.get(gameId)!.set(connectionId, controller);
+    this.connections.get(gameId)!.set(connectionId, { controller, viewer });
   }
 
   removeConnection(gameId: string, connectionId: string): void {
     const gameConnections = this.connections.get(gameId);
     if (gameConnections) {
-      const controller = gameConnections.get(connectionId);
-      if (controller) {
+      const connection = gameConnections.get(connectionId);
+      if (connection) {
         try {
-          controller.close();
+          connection.controller.close();
         } catch (error) {
           // Controller already closed
         }
@@ -40,15 +52,20 @@ export class EventBroadcaster {
     if (!gameConnections) return;
 
     const eventId = Date.now().toString();
-    const eventData = `id: ${eventId}\nevent: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`;
-    const chunk = new TextEncoder().encode(eventData);
+    const encoder = new TextEncoder();
+    const encode = (data: unknown) =>
+      encoder.encode(`id: ${eventId}\nevent: ${event.type}\ndata: ${JSON.stringify(data)}\n\n`);
+
+    // Game state is projected per connection so nobody receives cards they may not see
+    const isGameState = event.type === 'gameStateUpdate';
+    const sharedChunk = isGameState ? null : encode(event.data);
 
     // Send to all connections, removing failed ones
     const connectionsToRemove: string[] = [];
     
-    for (const [connectionId, controller] of gameConnections.entries()) {
+    for (const [connectionId, { controller, viewer }] of gameConnections.entries()) {
       try {
-        controller.enqueue(chunk);
+        controller.enqueue(sharedChunk ?? encode(redactGameStateFor(event.data as GameState, viewer)));
       } catch (error) {
         console.error(`Failed to send event to connection ${connectionId}:`, error);
         connectionsToRemove.push(connectionId);
@@ -0,0 +1,110 @@
+/**
+ * In-memory game event logs, appended to the persisted event store with a snapshot every
+ * SNAPSHOT_INTERVAL events so a game can be restored without folding its whole history
+ */
+
+import { GameEvent, GameState, StoredGameEvent, SNAPSHOT_INTERVAL, rebuildGameState } from '@bluepoker/shared';
+import { gamePersistenceService } from './persistence-service';
+
+interface GameEventLog {
+  sequence: number; // Last sequence number handed out
+  events: StoredGameEvent[]; // Events appended or restored since the server started
+  writes: Promise<unknown>; // Pending writes, chained so a game's rows are stored in order
+  rebase: boolean; // The log cannot rebuild the game's state, so the next append snapshots it first
+}
+
+// Use global to persist across Next.js hot reloads
+declare global {
+  // eslint-disable-next-line no-var
+  var __gameEventStore: Map<string, GameEventLog> | undefined;
+}
+
+function getGameEventStore(): Map<string, GameEventLog> {
+  if (!global.__gameEventStore) {
+    global.__gameEventStore = new Map<string, GameEventLog>();
+  }
+  return global.__gameEventStore;
+}
+
+// Queue a write behind the game's earlier ones; failures are logged by the persistence service
+function enqueue(log: GameEventLog, write: () => Promise<unknown>): void {
+  log.writes = log.writes.then(write, write);
+}
+
+export const gameEventStore = {
+  /**
+   * Number and record the events of a transition that led to `gameState`. A game restored from
+   * a state blob has no log that rebuilds it, so its log carries on from a snapshot of the state
+   * it was in. Games put back into memory must be restored first, or their sequence restarts.
+   */
+  append: (gameId: string, events: GameEvent[], gameState: GameState, previous?: GameState): StoredGameEvent[] => {
+    const store = getGameEventStore();
+    let log = store.get(gameId);
+    if (!log) {
+      log = { sequence: 0, events: [], writes: Promise.resolve(), rebase: true };
+      store.set(gameId, log);
+    }
+    if (log.rebase) {
+      log.rebase = false;
+      if (previous && events[0]?.type !== 'GameCreated') {
+        const snapshot = { gameId, sequence: log.sequence, gameState: previous };
+        enqueue(log, () => gamePersistenceService.persistGameSnapshot(snapshot));
+      }
+    }
+
+    const recordedAt = new Date().toISOString();
+    const firstSequence = log.sequence + 1;
+    const stored = events.map((event, index) => ({ gameId, sequence: firstSequence + index, event, recordedAt }));
+    if (stored.length === 0) {
+      return stored;
+    }
+    log.sequence += stored.length;
+    log.events.push(...stored);
+    enqueue(log, () => gamePersistenceService.appendGameEvents(stored));
+
+    // Snapshot once the log passes a multiple of the interval
+    if (Math.floor(log.sequence / SNAPSHOT_INTERVAL) > Math.floor((firstSequence - 1) / SNAPSHOT_INTERVAL)) {
+      const snapshot = { gameId, sequence: log.sequence, gameState };
+      enqueue(log, () => gamePersistenceService.persistGameSnapshot(snapshot));
+    }
+    return stored;
+  },
+
+  /**
+   * The game's events known to this server, in order
+   */
+  list: (gameId: string): StoredGameEvent[] => {
+    return getGameEventStore().get(gameId)?.events ?? [];
+  },
+
+  has: (gameId: string): boolean => {
+    return getGameEventStore().has(gameId);
+  },
+
+  /**
+   * Rebuild a game from its persisted snapshot and events, continuing its log from the last
+   * event. Returns null if the game has no log or it cannot be folded; a log that cannot be
+   * folded still carries on from its last event, rebased on the state the game is put back in.
+   */
+  restore: async (gameId: string): Promise<GameState | null> => {
+    const persisted = await gamePersistenceService.restoreGameEvents(gameId);
+    if (!persisted) {
+      return null;
+    }
+
+    const sequence = persisted.events.at(-1)?.sequence ?? persisted.snapshot?.sequence ?? 0;
+    try {
+      const gameState = rebuildGameState(persisted.events, persisted.snapshot);
+      getGameEventStore().set(gameId, { sequence, events: persisted.events, writes: Promise.resolve(), rebase: false });
+      return gameState;
+    } catch (error) {
+      console.error('Failed to rebuild game from its events:', gameId, error);
+      getGameEventStore().set(gameId, { sequence, events: persisted.events, writes: Promise.resolve(), rebase: true });
+      return null;
+    }
+  },
+
+  clear: (): void => {
+    getGameEventStore().clear();
+  }
+};
@@ -0,0 +1,215 @@
+/**
+ * Game Repository
+ * Durable storage behind the persistence services: games, hand histories, event logs and
+ * reconnection tokens. Backends are chosen by configuration (see getGameRepository).
+ */
+
+import { GameSnapshot, GameState, HandHistory, StoredGameEvent } from '@bluepoker/shared'
+import { SqliteGameRepository } from './sqlite-game-repository'
+import { SupabaseGameRepository } from './supabase-game-repository'
+
+export type GameRepositoryKind = 'memory' | 'sqlite' | 'supabase'
+
+export const GAME_REPOSITORY_KINDS: GameRepositoryKind[] = ['memory', 'sqlite', 'supabase']
+
+export interface PersistedGame {
+  gameId: string
+  gameState: GameState
+  persistedAt: string
+  version: number // Counts the times the game has been saved
+}
+
+export interface ReconnectionTokenRecord {
+  token: string
+  gameId: string
+  playerId: string
+  expiresAt: string
+}
+
+// A game's latest snapshot and every event after it
+export interface GameEventLogRecord {
+  snapshot?: GameSnapshot
+  events: StoredGameEvent[]
+}
+
+/**
+ * Every method throws when the backend fails; callers decide whether that is fatal
+ */
+export interface GameRepository {
+  readonly kind: GameRepositoryKind
+
+  saveGame(gameId: string, gameState: GameState): Promise<PersistedGame>
+  loadGame(gameId: string): Promise<GameState | null>
+  // Deleting a game also deletes its event log, snapshots and hand histories, so it cannot be
+  // rebuilt afterwards; deleteGame also deletes its reconnection tokens
+  deleteGame(gameId: string): Promise<void>
+  deleteGamesUpdatedBefore(cutoff: Date): Promise<number>
+
+  saveHandHistory(history: HandHistory): Promise<void>
+  loadHandHistories(gameId: string): Promise<HandHistory[]> // In hand order
+  deleteHandHistories(gameId: string): Promise<void>
+
+  appendGameEvents(events: StoredGameEvent[]): Promise<void> // Refuses a sequence number already taken
+  saveGameSnapshot(snapshot: GameSnapshot): Promise<void>
+  loadGameEventLog(gameId: string): Promise<GameEventLogRecord | null> // Null if the game has no log
+
+  saveReconnectionToken(record: ReconnectionTokenRecord): Promise<void>
+  findReconnectionToken(token: string): Promise<ReconnectionTokenRecord | null>
+  deleteReconnectionToken(token: string): Promise<void>
+  deleteReconnectionTokensExpiredBefore(cutoff: Date): Promise<number>
+}
+
+/**
+ * Keeps everything in process memory: nothing survives a restart. Stored values are copied in
+ * and out, as a database would, so later changes to a live game state never leak into storage.
+ */
+export class InMemoryGameRepository implements GameRepository {
+  readonly kind = 'memory' as const
+
+  private games = new Map<string, PersistedGame & { updatedAt: Date }>()
+  private handHistories = new Map<string, Map<number, HandHistory>>()
+  private events = new Map<string, Map<number, StoredGameEvent>>()
+  private snapshots = new Map<string, GameSnapshot>() // Latest per game
+  private tokens = new Map<string, ReconnectionTokenRecord>()
+
+  async saveGame(gameId: string, gameState: GameState): Promise<PersistedGame> {
+    const persistedAt = new Date()
+    const version = (this.games.get(gameId)?.version ?? 0) + 1
+    this.games.set(gameId, { gameId, gameState: structuredClone(gameState), persistedAt: persistedAt.toISOString(), version, updatedAt: persistedAt })
+    return { gameId, gameState, persistedAt: persistedAt.toISOString(), version }
+  }
+
+  async loadGame(gameId: string): Promise<GameState | null> {
+    const game = this.games.get(gameId)
+    return game ? structuredClone(game.gameState) : null
+  }
+
+  async deleteGame(gameId: string): Promise<void> {
+    this.deleteGameRecords(gameId)
+    this.tokens.forEach((record, token) => {
+      if (record.gameId === gameId) {
+        this.tokens.delete(token)
+      }
+    })
+  }
+
+  async deleteGamesUpdatedBefore(cutoff: Date): Promise<number> {
+    const stale = Array.from(this.games.values()).filter(game => game.updatedAt < cutoff)
+    stale.forEach(game => this.deleteGameRecords(game.gameId))
+    return stale.length
+  }
+
+  async saveHandHistory(history: HandHistory): Promise<void> {
+    const hands = this.handHistories.get(history.gameId) ?? new Map<number, HandHistory>()
+    hands.set(history.handNumber, structuredClone(history))
+    this.handHistories.set(history.gameId, hands)
+  }
+
+  async loadHandHistories(gameId: string): Promise<HandHistory[]> {
+    const hands = Array.from(this.handHistories.get(gameId)?.values() ?? [])
+    return structuredClone(hands.sort((a, b) => a.handNumber - b.handNumber))
+  }
+
+  async deleteHandHistories(gameId: string): Promise<void> {
+    this.handHistories.delete(gameId)
+  }
+
+  async appendGameEvents(events: StoredGameEvent[]): Promise<void> {
+    const taken = events.find(stored => this.events.get(stored.gameId)?.has(stored.sequence))
+    if (taken) {
+      throw new Error(`Event ${taken.sequence} of game ${taken.gameId} is already stored`)
+    }
+    events.forEach(stored => {
+      const log = this.events.get(stored.gameId) ?? new Map<number, StoredGameEvent>()
+      log.set(stored.sequence, structuredClone(stored))
+      this.events.set(stored.gameId, log)
+    })
+  }
+
+  async saveGameSnapshot(snapshot: GameSnapshot): Promise<void> {
+    const latest = this.snapshots.get(snapshot.gameId)
+    if (!latest || latest.sequence <= snapshot.sequence) {
+      this.snapshots.set(snapshot.gameId, structuredClone(snapshot))
+    }
+  }
+
+  async loadGameEventLog(gameId: string): Promise<GameEventLogRecord | null> {
+    const snapshot = this.snapshots.get(gameId)
+    const after = snapshot?.sequence ?? 0
+    const events = Array.from(this.events.get(gameId)?.values() ?? [])
+      .filter(stored => stored.sequence > after)
+      .sort((a, b) => a.sequence - b.sequence)
+    if (!snapshot && events.length === 0) {
+      return null
+    }
+    return structuredClone({ snapshot, events })
+  }
+
+  async saveReconnectionToken(record: ReconnectionTokenRecord): Promise<void> {
+    this.tokens.set(record.token, { ...record })
+  }
+
+  async findReconnectionToken(token: string): Promise<ReconnectionTokenRecord | null> {
+    const record = this.tokens.get(token)
+    return record ? { ...record } : null
+  }
+
+  async deleteReconnectionToken(token: string): Promise<void> {
+    this.tokens.delete(token)
+  }
+
+  async deleteReconnectionTokensExpiredBefore(cutoff: Date): Promise<number> {
+    const expired = Array.from(this.tokens.values()).filter(record => new Date(record.expiresAt) < cutoff)
+    expired.forEach(record => this.tokens.delete(record.token))
+    return expired.length
+  }
+
+  private deleteGameRecords(gameId: string): void {
+    this.games.delete(gameId)
+    this.handHistories.delete(gameId)
+    this.events.delete(gameId)
+    this.snapshots.delete(gameId)
+  }
+}
+
+/**
+ * Build the repository the environment asks for:
+ * - GAME_REPOSITORY=memory|sqlite|supabase picks a backend explicitly
+ * - otherwise Supabase is used when its credentials are set, and memory when they are not
+ * SQLite keeps its database at GAME_DATABASE_PATH (default `.data/bluepoker.sqlite`).
+ */
+export function createGameRepository(env: Record<string, string | undefined> = process.env): GameRepository {
+  const supabaseUrl = env.NEXT_PUBLIC_SUPABASE_URL
+  const supabaseKey = env.NEXT_PUBLIC_SUPABASE_ANON_KEY
+  const requested = env.GAME_REPOSITORY
+
+  if (requested !== undefined && !GAME_REPOSITORY_KINDS.includes(requested as GameRepositoryKind)) {
+    throw new Error(`Unknown GAME_REPOSITORY "${requested}": expected one of ${GAME_REPOSITORY_KINDS.join(', ')}`)
+  }
+  const kind = (requested as GameRepositoryKind | undefined) ?? (supabaseUrl && supabaseKey ? 'supabase' : 'memory')
+
+  switch (kind) {
+    case 'supabase':
+      if (!supabaseUrl || !supabaseKey) {
+        throw new Error('GAME_REPOSITORY=supabase needs NEXT_PUBLIC_SUPABASE_URL and NEXT_PUBLIC_SUPABASE_ANON_KEY')
+      }
+      return new SupabaseGameRepository(supabaseUrl, supabaseKey)
+    case 'sqlite':
+      return new SqliteGameRepository(env.GAME_DATABASE_PATH ?? '.data/bluepoker.sqlite')
+    case 'memory':
+      if (requested === undefined) {
+        console.warn('Supabase credentials not found. Games are kept in memory only; set GAME_REPOSITORY=sqlite to keep them across restarts.')
+      }
+      return new InMemoryGameRepository()
+  }
+}
+
+let gameRepository: GameRepository | undefined
+
+// The repository shared by the persistence services, created on first use
+export function getGameRepository(): GameRepository {
+  if (!gameRepository) {
+    gameRepository = createGameRepository()
+  }
+  return gameRepository
+}
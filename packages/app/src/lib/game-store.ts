@@ -3,13 +3,36 @@
  * Maintains in-memory state for performance while providing persistence for durability
  */
 
-import { GameState } from '@bluepoker/shared';
+import { GameCommand, GameCommandResult, GameEvent, GameState, executeGameCommand } from '@bluepoker/shared';
 import { gamePersistenceService } from './persistence-service';
+import { gameEventStore } from './game-event-store';
+import { handHistoryStore } from './hand-history-store';
+import { actionClock } from './action-clock';
+
+// Idempotency keys remembered per game; the oldest are forgotten first
+const IDEMPOTENCY_KEYS_PER_GAME = 100;
+
+export interface DispatchOptions {
+  expectedVersion?: number; // Refuse the command unless the game is still at this version
+  idempotencyKey?: string; // The same player repeating the same command with this key gets the first result back
+}
+
+export interface DispatchResult extends GameCommandResult {
+  conflict?: boolean; // The game had moved past expectedVersion, so nothing was run
+  duplicate?: boolean; // The result of an earlier request with the same idempotency key
+}
 
 // Use global to persist across Next.js hot reloads
 declare global {
   // eslint-disable-next-line no-var
   var __gameStore: Map<string, GameState> | undefined;
+  // eslint-disable-next-line no-var
+  var __commandResults: Map<string, Map<string, RememberedCommand>> | undefined;
+}
+
+interface RememberedCommand {
+  command: GameCommand;
+  result: GameCommandResult;
 }
 
 function getGameStore(): Map<string, GameState> {
@@ -19,6 +42,45 @@ function getGameStore(): Map<string, GameState> {
   return global.__gameStore;
 }
 
+/**
+ * Read expectedVersion and idempotencyKey from a request body or message, returning an error
+ * message if either is malformed
+ */
+export function parseDispatchOptions(body: { expectedVersion?: unknown; idempotencyKey?: unknown }): DispatchOptions | string {
+  const { expectedVersion, idempotencyKey } = body;
+  if (expectedVersion !== undefined && (!Number.isInteger(expectedVersion) || (expectedVersion as number) < 0)) {
+    return 'expectedVersion must be a non-negative integer';
+  }
+  if (idempotencyKey !== undefined && (typeof idempotencyKey !== 'string' || idempotencyKey.length === 0 || idempotencyKey.length > 200)) {
+    return 'idempotencyKey must be a string of 1 to 200 characters';
+  }
+  return { expectedVersion: expectedVersion as number | undefined, idempotencyKey: idempotencyKey as string | undefined };
+}
+
+function getCommandResults(): Map<string, Map<string, RememberedCommand>> {
+  if (!global.__commandResults) {
+    global.__commandResults = new Map<string, Map<string, RememberedCommand>>();
+  }
+  return global.__commandResults;
+}
+
+// Keys are scoped to the acting player, so two players can never collide on the same key
+function commandKey(command: GameCommand, idempotencyKey: string): string {
+  const actor = 'playerId' in command ? command.playerId : 'table';
+  return `${actor}/${idempotencyKey}`;
+}
+
+// Kept as a copy, so the game state moving on later never changes the result a retry gets back
+function rememberResult(gameId: string, key: string, command: GameCommand, result: GameCommandResult): void {
+  const results = getCommandResults();
+  const forGame = results.get(gameId) ?? new Map<string, RememberedCommand>();
+  forGame.set(key, structuredClone({ command, result }));
+  if (forGame.size > IDEMPOTENCY_KEYS_PER_GAME) {
+    forGame.delete(forGame.keys().next().value!);
+  }
+  results.set(gameId, forGame);
+}
+
 export const gameStore = {
   get: (gameId: string): GameState | undefined => {
     const store = getGameStore();
@@ -32,6 +94,68 @@ export const gameStore = {
     
     // Auto-persist game state changes
     gamePersistenceService.autoPerist(gameId, gameState);
+
+    // Keep a record of every hand once it has been played out
+    if (gameState.phase === 'complete' && gameState.handHistory?.endedAt) {
+      handHistoryStore.record(gameState.handHistory);
+    }
+
+    // Every new state restarts (or stops) the clock for whoever is to act
+    actionClock.schedule(gameId, gameState, gameStore.commit);
+  },
+
+  /**
+   * Run a command against the stored game (if any) and, when it succeeds, record its events
+   * and store the new state. The same player repeating the same command under an idempotency
+   * key gets the first successful result back without running it again, while reusing the key
+   * for a different command is refused; a stale expectedVersion is refused as a conflict.
+   */
+  dispatch: (gameId: string, command: GameCommand, options: DispatchOptions = {}): DispatchResult => {
+    const { expectedVersion, idempotencyKey } = options;
+    const key = idempotencyKey === undefined ? undefined : commandKey(command, idempotencyKey);
+    const previous = key === undefined ? undefined : getCommandResults().get(gameId)?.get(key);
+    const current = gameStore.get(gameId);
+    if (previous) {
+      if (JSON.stringify(previous.command) !== JSON.stringify(command)) {
+        return {
+          success: false,
+          gameState: current ?? previous.result.gameState,
+          events: [],
+          error: 'idempotencyKey was already used for a different command'
+        };
+      }
+      return { ...structuredClone(previous.result), duplicate: true };
+    }
+
+    if (expectedVersion !== undefined && current && current.version !== expectedVersion) {
+      return {
+        success: false,
+        gameState: current,
+        events: [],
+        error: `Game is at version ${current.version}, not ${expectedVersion}`,
+        conflict: true
+      };
+    }
+
+    const result = executeGameCommand(current, command);
+    if (result.success) {
+      gameStore.commit(gameId, result.gameState, result.events);
+      // A refusal is not remembered: the same request may succeed once the game has moved on
+      if (key !== undefined) {
+        rememberResult(gameId, key, command, result);
+      }
+    }
+    return result;
+  },
+
+  // Store the state a transition led to, with the events that describe it
+  commit: (gameId: string, gameState: GameState, events: GameEvent[]): void => {
+    // A game created again under its old id starts without the old game's hands
+    if (events[0]?.type === 'GameCreated') {
+      handHistoryStore.forget(gameId);
+    }
+    gameEventStore.append(gameId, events, gameState, gameStore.get(gameId));
+    gameStore.set(gameId, gameState);
   },
 
   has: (gameId: string): boolean => {
@@ -41,12 +165,17 @@ export const gameStore = {
 
   delete: (gameId: string): boolean => {
     const store = getGameStore();
+    actionClock.cancel(gameId);
+    getCommandResults().delete(gameId);
     const result = store.delete(gameId);
     return result;
   },
 
   clear: (): void => {
     const store = getGameStore();
+    actionClock.clear();
+    gameEventStore.clear();
+    getCommandResults().clear();
     store.clear();
   },
 
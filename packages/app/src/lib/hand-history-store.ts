@@ -0,0 +1,85 @@
+/**
+ * In-memory store of completed hand histories, backed by the persistence service
+ */
+
+import { HandHistory } from '@bluepoker/shared';
+import { gamePersistenceService } from './persistence-service';
+
+// Use global to persist across Next.js hot reloads
+declare global {
+  // eslint-disable-next-line no-var
+  var __handHistoryStore: Map<string, HandHistory[]> | undefined;
+  // eslint-disable-next-line no-var
+  var __handHistoriesLoaded: Set<string> | undefined;
+}
+
+function getHandHistoryStore(): Map<string, HandHistory[]> {
+  if (!global.__handHistoryStore) {
+    global.__handHistoryStore = new Map<string, HandHistory[]>();
+  }
+  return global.__handHistoryStore;
+}
+
+// Games whose persisted hands have been merged into the store since the server started
+function getLoadedGames(): Set<string> {
+  if (!global.__handHistoriesLoaded) {
+    global.__handHistoriesLoaded = new Set<string>();
+  }
+  return global.__handHistoriesLoaded;
+}
+
+export const handHistoryStore = {
+  /**
+   * Record a finished hand; recording the same hand again is a no-op
+   */
+  record: (history: HandHistory): void => {
+    const store = getHandHistoryStore();
+    const hands = store.get(history.gameId) ?? [];
+    if (hands.some(hand => hand.handNumber === history.handNumber)) {
+      return;
+    }
+
+    store.set(history.gameId, [...hands, history]);
+    gamePersistenceService.persistHandHistory(history);
+  },
+
+  /**
+   * All recorded hands for a game in hand order. Persisted hands are loaded once per game and
+   * merged with the hands recorded since, so hands from before a restart are not hidden.
+   */
+  list: async (gameId: string): Promise<HandHistory[]> => {
+    const store = getHandHistoryStore();
+    const loaded = getLoadedGames();
+    if (!loaded.has(gameId)) {
+      const restored = await gamePersistenceService.restoreHandHistories(gameId);
+      loaded.add(gameId);
+
+      const merged = new Map(restored.map(hand => [hand.handNumber, hand]));
+      (store.get(gameId) ?? []).forEach(hand => merged.set(hand.handNumber, hand));
+      if (merged.size > 0) {
+        store.set(gameId, Array.from(merged.values()).sort((a, b) => a.handNumber - b.handNumber));
+      }
+    }
+    return store.get(gameId) ?? [];
+  },
+
+  /**
+   * Forget a game's hands, here and in storage. A game created again under the same id numbers
+   * its hands from 1, so the old game's hands would otherwise hide the new ones.
+   */
+  forget: (gameId: string): void => {
+    getHandHistoryStore().delete(gameId);
+    getLoadedGames().add(gameId);
+    gamePersistenceService.deleteHandHistories(gameId);
+  },
+
+  get: async (gameId: string, handNumber: number): Promise<HandHistory | undefined> => {
+    const hands = await handHistoryStore.list(gameId);
+    return hands.find(hand => hand.handNumber === handNumber);
+  },
+
+  clear: (): void => {
+    getHandHistoryStore().clear();
+    getLoadedGames().clear();
+  }
+};
@@ -1,47 +1,13 @@
 /**
  * Game Persistence Service
- * Handles durable storage of game states using PostgreSQL via Supabase
+ * Handles durable storage of game states through the configured game repository
  */
 
-import { GameState } from '@bluepoker/shared'
-import { createClient } from '@supabase/supabase-js'
-
-// Database types for persistence (future use)
-// interface PersistedGameData {
-//   id: string
-//   game_id: string
-//   game_state: GameState
-//   persisted_at: string
-//   version: number
-//   created_at: string
-//   updated_at: string
-// }
-
-// interface ReconnectionToken {
-//   id: string
-//   token: string
-//   game_id: string
-//   player_id: string
-//   expires_at: string
-//   created_at: string
-// }
-
-// Initialize Supabase client
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
-const supabaseKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
-
-if (!supabaseUrl || !supabaseKey) {
-  console.warn('Supabase credentials not found. Persistence will be disabled.')
-}
-
-const supabase = supabaseUrl && supabaseKey 
-  ? createClient(supabaseUrl, supabaseKey)
-  : null
+import { GameState, HandHistory, DEFAULT_TABLE_CONFIG, validateGameState, StoredGameEvent, GameSnapshot } from '@bluepoker/shared'
+import { GameRepository, getGameRepository } from './game-repository'
 
 export class GamePersistenceService {
-  private isAvailable(): boolean {
-    return supabase !== null
-  }
+  constructor(private repository: GameRepository = getGameRepository()) {}
 
   async persistGame(gameId: string, gameState: GameState): Promise<{
     gameId: string
@@ -49,48 +15,8 @@ export class GamePersistenceService {
     persistedAt: string
     version: number
   }> {
-    if (!this.isAvailable()) {
-      throw new Error('Persistence service unavailable')
-    }
-
     try {
-      // Check if game already exists to determine version
-      const { data: existing, error: fetchError } = await supabase!
-        .from('persisted_games')
-        .select('version')
-        .eq('game_id', gameId)
-        .single()
-
-      if (fetchError && fetchError.code !== 'PGRST116') { // PGRST116 = no rows returned
-        throw new Error(`Failed to check existing game: ${fetchError.message}`)
-      }
-
-      const version = existing ? existing.version + 1 : 1
-      const persistedAt = new Date().toISOString()
-
-      // Upsert game state
-      const { error } = await supabase!
-        .from('persisted_games')
-        .upsert({
-          game_id: gameId,
-          game_state: gameState,
-          persisted_at: persistedAt,
-          version: version,
-          updated_at: persistedAt
-        })
-        .select()
-        .single()
-
-      if (error) {
-        throw new Error(`Failed to persist game: ${error.message}`)
-      }
-
-      return {
-        gameId,
-        gameState,
-        persistedAt,
-        version
-      }
+      return await this.repository.saveGame(gameId, gameState)
     } catch (error) {
       console.error('Persistence error:', error)
       throw new Error(`Game persistence failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
@@ -98,32 +24,38 @@ export class GamePersistenceService {
   }
 
   async restoreGame(gameId: string): Promise<GameState | null> {
-    if (!this.isAvailable()) {
-      return null
-    }
-
     try {
-      const { data, error } = await supabase!
-        .from('persisted_games')
-        .select('game_state')
-        .eq('game_id', gameId)
-        .single()
-
-      if (error) {
-        if (error.code === 'PGRST116') { // No rows returned
-          return null
-        }
-        throw new Error(`Failed to restore game: ${error.message}`)
+      const gameState = await this.repository.loadGame(gameId)
+      if (!gameState) {
+        return null
       }
 
       // Validate restored state
-      const gameState = data.game_state as GameState
-      if (!this.validateGameState(gameState)) {
+      if (!this.hasGameStateShape(gameState)) {
         console.error('Restored game state failed validation:', gameState)
         return null
       }
 
-      return gameState
+      // Games saved before table configs (or newer config options) existed get the defaults
+      const config = { ...DEFAULT_TABLE_CONFIG, ...gameState.config }
+      const players = gameState.players.map(player => ({
+        ...player,
+        timeBankRemaining: player.timeBankRemaining ?? config.timeBankSeconds,
+        sittingOut: player.sittingOut ?? false,
+        handsSatOut: player.handsSatOut ?? 0,
+        missedBlinds: player.missedBlinds ?? { small: false, big: false },
+        pendingChips: player.pendingChips ?? 0,
+        upCards: player.upCards ?? []
+      }))
+      const restored = { ...gameState, config, players, version: gameState.version ?? 0 }
+
+      // A stored state that breaks the engine's invariants would fail on the next action
+      const violations = validateGameState(restored)
+      if (violations.length > 0) {
+        console.error('Restored game state violates game invariants:', violations)
+        return null
+      }
+      return restored
     } catch (error) {
       console.error('Restoration error:', error)
       return null
@@ -131,51 +63,94 @@ export class GamePersistenceService {
   }
 
   async cleanupGame(gameId: string): Promise<boolean> {
-    if (!this.isAvailable()) {
+    try {
+      // Delete persisted game data and its reconnection tokens
+      await this.repository.deleteGame(gameId)
+      return true
+    } catch (error) {
+      console.error('Cleanup error:', error)
+      return false
+    }
+  }
+
+  private hasGameStateShape(gameState: unknown): gameState is GameState {
+    if (typeof gameState !== 'object' || gameState === null) {
       return false
     }
+    const candidate = gameState as Record<string, unknown>
+    return (
+      typeof candidate.gameId === 'string' &&
+      Array.isArray(candidate.players) &&
+      candidate.players.length >= 1 &&
+      typeof candidate.phase === 'string' &&
+      typeof candidate.pot === 'number' &&
+      Array.isArray(candidate.communityCards)
+    )
+  }
 
+  // Completed hands are stored one row per hand next to the persisted game
+  async persistHandHistory(history: HandHistory): Promise<boolean> {
     try {
-      // Delete persisted game data
-      const { error: gameError } = await supabase!
-        .from('persisted_games')
-        .delete()
-        .eq('game_id', gameId)
-
-      // Delete associated reconnection tokens
-      const { error: tokenError } = await supabase!
-        .from('reconnection_tokens')
-        .delete()
-        .eq('game_id', gameId)
-
-      if (gameError) {
-        console.error('Failed to cleanup game:', gameError)
-        return false
-      }
+      await this.repository.saveHandHistory(history)
+      return true
+    } catch (error) {
+      console.error('Hand history persistence error:', error)
+      return false
+    }
+  }
 
-      if (tokenError) {
-        console.error('Failed to cleanup tokens:', tokenError)
-        // Don't fail completely if token cleanup fails
-      }
+  async restoreHandHistories(gameId: string): Promise<HandHistory[]> {
+    try {
+      return await this.repository.loadHandHistories(gameId)
+    } catch (error) {
+      console.error('Hand history restoration error:', error)
+      return []
+    }
+  }
 
+  async deleteHandHistories(gameId: string): Promise<boolean> {
+    try {
+      await this.repository.deleteHandHistories(gameId)
       return true
     } catch (error) {
-      console.error('Cleanup error:', error)
+      console.error('Hand history cleanup error:', error)
       return false
     }
   }
 
-  private validateGameState(gameState: any): gameState is GameState {
-    return (
-      typeof gameState === 'object' &&
-      gameState !== null &&
-      typeof gameState.gameId === 'string' &&
-      Array.isArray(gameState.players) &&
-      gameState.players.length >= 1 &&
-      typeof gameState.phase === 'string' &&
-      typeof gameState.pot === 'number' &&
-      Array.isArray(gameState.communityCards)
-    )
+  // Game events are append-only: a sequence number already taken is never overwritten
+  async appendGameEvents(events: StoredGameEvent[]): Promise<boolean> {
+    if (events.length === 0) {
+      return false
+    }
+
+    try {
+      await this.repository.appendGameEvents(events)
+      return true
+    } catch (error) {
+      console.error('Game event persistence error:', error)
+      return false
+    }
+  }
+
+  async persistGameSnapshot(snapshot: GameSnapshot): Promise<boolean> {
+    try {
+      await this.repository.saveGameSnapshot(snapshot)
+      return true
+    } catch (error) {
+      console.error('Game snapshot persistence error:', error)
+      return false
+    }
+  }
+
+  // The latest snapshot of a game and every event after it, or null if the game has no log
+  async restoreGameEvents(gameId: string): Promise<{ snapshot?: GameSnapshot; events: StoredGameEvent[] } | null> {
+    try {
+      return await this.repository.loadGameEventLog(gameId)
+    } catch (error) {
+      console.error('Game event restoration error:', error)
+      return null
+    }
   }
 
   // Auto-persistence trigger for game state changes
@@ -190,26 +165,11 @@ export class GamePersistenceService {
 
   // Cleanup old games (called periodically)
   async cleanupOldGames(olderThanDays: number = 7): Promise<number> {
-    if (!this.isAvailable()) {
-      return 0
-    }
-
     try {
       const cutoffDate = new Date()
       cutoffDate.setDate(cutoffDate.getDate() - olderThanDays)
 
-      const { data, error } = await supabase!
-        .from('persisted_games')
-        .delete()
-        .lt('updated_at', cutoffDate.toISOString())
-        .select('game_id')
-
-      if (error) {
-        console.error('Failed to cleanup old games:', error)
-        return 0
-      }
-
-      const cleanedCount = data?.length || 0
+      const cleanedCount = await this.repository.deleteGamesUpdatedBefore(cutoffDate)
       console.log(`Cleaned up ${cleanedCount} old games`)
       return cleanedCount
     } catch (error) {
@@ -220,9 +180,7 @@ export class GamePersistenceService {
 }
 
 export class ReconnectionService {
-  private isAvailable(): boolean {
-    return supabase !== null
-  }
+  constructor(private repository: GameRepository = getGameRepository()) {}
 
   generateToken(gameId: string, playerId: string): {
     token: string
@@ -251,25 +209,8 @@ export class ReconnectionService {
     playerId: string
     expiresAt: string
   }): Promise<boolean> {
-    if (!this.isAvailable()) {
-      return false
-    }
-
     try {
-      const { error } = await supabase!
-        .from('reconnection_tokens')
-        .insert({
-          token: tokenData.token,
-          game_id: tokenData.gameId,
-          player_id: tokenData.playerId,
-          expires_at: tokenData.expiresAt
-        })
-
-      if (error) {
-        console.error('Failed to store token:', error)
-        return false
-      }
-
+      await this.repository.saveReconnectionToken(tokenData)
       return true
     } catch (error) {
       console.error('Token storage error:', error)
@@ -283,23 +224,14 @@ export class ReconnectionService {
     playerId?: string
     expired?: boolean
   }> {
-    if (!this.isAvailable()) {
-      return { valid: false }
-    }
-
     try {
-      const { data, error } = await supabase!
-        .from('reconnection_tokens')
-        .select('game_id, player_id, expires_at')
-        .eq('token', token)
-        .single()
-
-      if (error || !data) {
+      const data = await this.repository.findReconnectionToken(token)
+      if (!data) {
         return { valid: false }
       }
 
       const now = new Date()
-      const expiresAt = new Date(data.expires_at)
+      const expiresAt = new Date(data.expiresAt)
 
       if (now > expiresAt) {
         return { valid: false, expired: true }
@@ -307,8 +239,8 @@ export class ReconnectionService {
 
       return {
         valid: true,
-        gameId: data.game_id,
-        playerId: data.player_id
+        gameId: data.gameId,
+        playerId: data.playerId
       }
     } catch (error) {
       console.error('Token validation error:', error)
@@ -328,7 +260,7 @@ export class ReconnectionService {
     }
 
     // Restore game state
-    const persistenceService = new GamePersistenceService()
+    const persistenceService = new GamePersistenceService(this.repository)
     const gameState = await persistenceService.restoreGame(gameId)
     
     if (!gameState) {
@@ -348,15 +280,8 @@ export class ReconnectionService {
   }
 
   async invalidateToken(token: string): Promise<void> {
-    if (!this.isAvailable()) {
-      return
-    }
-
     try {
-      await supabase!
-        .from('reconnection_tokens')
-        .delete()
-        .eq('token', token)
+      await this.repository.deleteReconnectionToken(token)
     } catch (error) {
       console.error('Token invalidation error:', error)
     }
@@ -364,24 +289,8 @@ export class ReconnectionService {
 
   // Cleanup expired tokens
   async cleanupExpiredTokens(): Promise<number> {
-    if (!this.isAvailable()) {
-      return 0
-    }
-
     try {
-      const now = new Date().toISOString()
-      const { data, error } = await supabase!
-        .from('reconnection_tokens')
-        .delete()
-        .lt('expires_at', now)
-        .select('token')
-
-      if (error) {
-        console.error('Failed to cleanup expired tokens:', error)
-        return 0
-      }
-
-      return data?.length || 0
+      return await this.repository.deleteReconnectionTokensExpiredBefore(new Date())
     } catch (error) {
       console.error('Token cleanup error:', error)
       return 0
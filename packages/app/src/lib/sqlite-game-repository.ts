@@ -0,0 +1,190 @@
+/**
+ * SQLite Game Repository
+ * File-based storage for local development and tests, so games survive a restart without a
+ * database server. The tables mirror the Supabase schema, with JSON stored as text.
+ */
+
+import Database from 'better-sqlite3'
+import { mkdirSync } from 'fs'
+import { dirname } from 'path'
+import { GameEvent, GameSnapshot, GameState, HandHistory, StoredGameEvent } from '@bluepoker/shared'
+import type { GameEventLogRecord, GameRepository, PersistedGame, ReconnectionTokenRecord } from './game-repository'
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS persisted_games (
+    game_id TEXT PRIMARY KEY,
+    game_state TEXT NOT NULL,
+    persisted_at TEXT NOT NULL,
+    version INTEGER NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS hand_histories (
+    game_id TEXT NOT NULL,
+    hand_number INTEGER NOT NULL,
+    history TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    PRIMARY KEY (game_id, hand_number)
+  );
+  CREATE TABLE IF NOT EXISTS game_events (
+    game_id TEXT NOT NULL,
+    sequence INTEGER NOT NULL CHECK (sequence > 0),
+    type TEXT NOT NULL,
+    payload TEXT NOT NULL,
+    recorded_at TEXT NOT NULL,
+    PRIMARY KEY (game_id, sequence)
+  );
+  CREATE TABLE IF NOT EXISTS game_snapshots (
+    game_id TEXT NOT NULL,
+    sequence INTEGER NOT NULL CHECK (sequence >= 0),
+    game_state TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    PRIMARY KEY (game_id, sequence)
+  );
+  CREATE TABLE IF NOT EXISTS reconnection_tokens (
+    token TEXT PRIMARY KEY,
+    game_id TEXT NOT NULL,
+    player_id TEXT NOT NULL,
+    expires_at TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+`
+
+export class SqliteGameRepository implements GameRepository {
+  readonly kind = 'sqlite' as const
+
+  private db: Database.Database
+
+  // ':memory:' opens a private database that lasts as long as the repository
+  constructor(path: string) {
+    if (path !== ':memory:') {
+      // The path comes from server configuration, never from a request
+      // eslint-disable-next-line security/detect-non-literal-fs-filename
+      mkdirSync(dirname(path), { recursive: true })
+    }
+    this.db = new Database(path)
+    this.db.pragma('journal_mode = WAL')
+    this.db.exec(SCHEMA)
+  }
+
+  async saveGame(gameId: string, gameState: GameState): Promise<PersistedGame> {
+    const persistedAt = new Date().toISOString()
+    const row = this.db.prepare(`
+      INSERT INTO persisted_games (game_id, game_state, persisted_at, version, created_at, updated_at)
+      VALUES (?, ?, ?, 1, ?, ?)
+      ON CONFLICT (game_id) DO UPDATE SET
+        game_state = excluded.game_state,
+        persisted_at = excluded.persisted_at,
+        version = persisted_games.version + 1,
+        updated_at = excluded.updated_at
+      RETURNING version
+    `).get(gameId, JSON.stringify(gameState), persistedAt, persistedAt, persistedAt) as { version: number }
+    return { gameId, gameState, persistedAt, version: row.version }
+  }
+
+  async loadGame(gameId: string): Promise<GameState | null> {
+    const row = this.db.prepare('SELECT game_state FROM persisted_games WHERE game_id = ?').get(gameId) as { game_state: string } | undefined
+    return row ? JSON.parse(row.game_state) as GameState : null
+  }
+
+  async deleteGame(gameId: string): Promise<void> {
+    this.db.transaction(() => {
+      this.deleteGameRecords(gameId)
+      this.db.prepare('DELETE FROM reconnection_tokens WHERE game_id = ?').run(gameId)
+    })()
+  }
+
+  async deleteGamesUpdatedBefore(cutoff: Date): Promise<number> {
+    return this.db.transaction(() => {
+      const rows = this.db.prepare('SELECT game_id FROM persisted_games WHERE updated_at < ?').all(cutoff.toISOString()) as Array<{ game_id: string }>
+      rows.forEach(row => this.deleteGameRecords(row.game_id))
+      return rows.length
+    })()
+  }
+
+  async saveHandHistory(history: HandHistory): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO hand_histories (game_id, hand_number, history, created_at) VALUES (?, ?, ?, ?)
+      ON CONFLICT (game_id, hand_number) DO UPDATE SET history = excluded.history, created_at = excluded.created_at
+    `).run(history.gameId, history.handNumber, JSON.stringify(history), history.endedAt ?? new Date().toISOString())
+  }
+
+  async loadHandHistories(gameId: string): Promise<HandHistory[]> {
+    const rows = this.db.prepare('SELECT history FROM hand_histories WHERE game_id = ? ORDER BY hand_number').all(gameId) as Array<{ history: string }>
+    return rows.map(row => JSON.parse(row.history) as HandHistory)
+  }
+
+  async deleteHandHistories(gameId: string): Promise<void> {
+    this.db.prepare('DELETE FROM hand_histories WHERE game_id = ?').run(gameId)
+  }
+
+  async appendGameEvents(events: StoredGameEvent[]): Promise<void> {
+    const insert = this.db.prepare('INSERT INTO game_events (game_id, sequence, type, payload, recorded_at) VALUES (?, ?, ?, ?, ?)')
+    // All or nothing, like a single insert of many rows
+    this.db.transaction(() => {
+      events.forEach(stored => insert.run(stored.gameId, stored.sequence, stored.event.type, JSON.stringify(stored.event), stored.recordedAt))
+    })()
+  }
+
+  async saveGameSnapshot(snapshot: GameSnapshot): Promise<void> {
+    this.db.prepare(`
+      INSERT INTO game_snapshots (game_id, sequence, game_state, created_at) VALUES (?, ?, ?, ?)
+      ON CONFLICT (game_id, sequence) DO UPDATE SET game_state = excluded.game_state, created_at = excluded.created_at
+    `).run(snapshot.gameId, snapshot.sequence, JSON.stringify(snapshot.gameState), new Date().toISOString())
+  }
+
+  async loadGameEventLog(gameId: string): Promise<GameEventLogRecord | null> {
+    const snapshotRow = this.db.prepare(
+      'SELECT sequence, game_state FROM game_snapshots WHERE game_id = ? ORDER BY sequence DESC LIMIT 1'
+    ).get(gameId) as { sequence: number; game_state: string } | undefined
+    const snapshot: GameSnapshot | undefined = snapshotRow
+      ? { gameId, sequence: snapshotRow.sequence, gameState: JSON.parse(snapshotRow.game_state) as GameState }
+      : undefined
+
+    const rows = this.db.prepare(
+      'SELECT sequence, payload, recorded_at FROM game_events WHERE game_id = ? AND sequence > ? ORDER BY sequence'
+    ).all(gameId, snapshot?.sequence ?? 0) as Array<{ sequence: number; payload: string; recorded_at: string }>
+    const events = rows.map(row => ({
+      gameId,
+      sequence: row.sequence,
+      event: JSON.parse(row.payload) as GameEvent,
+      recordedAt: row.recorded_at
+    }))
+
+    if (!snapshot && events.length === 0) {
+      return null
+    }
+    return { snapshot, events }
+  }
+
+  async saveReconnectionToken(record: ReconnectionTokenRecord): Promise<void> {
+    this.db.prepare('INSERT INTO reconnection_tokens (token, game_id, player_id, expires_at, created_at) VALUES (?, ?, ?, ?, ?)')
+      .run(record.token, record.gameId, record.playerId, record.expiresAt, new Date().toISOString())
+  }
+
+  async findReconnectionToken(token: string): Promise<ReconnectionTokenRecord | null> {
+    const row = this.db.prepare('SELECT token, game_id, player_id, expires_at FROM reconnection_tokens WHERE token = ?').get(token) as
+      { token: string; game_id: string; player_id: string; expires_at: string } | undefined
+    return row ? { token: row.token, gameId: row.game_id, playerId: row.player_id, expiresAt: row.expires_at } : null
+  }
+
+  async deleteReconnectionToken(token: string): Promise<void> {
+    this.db.prepare('DELETE FROM reconnection_tokens WHERE token = ?').run(token)
+  }
+
+  async deleteReconnectionTokensExpiredBefore(cutoff: Date): Promise<number> {
+    return this.db.prepare('DELETE FROM reconnection_tokens WHERE expires_at < ?').run(cutoff.toISOString()).changes
+  }
+
+  // Everything a game can be rebuilt from; run inside a transaction
+  private deleteGameRecords(gameId: string): void {
+    this.db.prepare('DELETE FROM persisted_games WHERE game_id = ?').run(gameId)
+    this.db.prepare('DELETE FROM game_events WHERE game_id = ?').run(gameId)
+    this.db.prepare('DELETE FROM game_snapshots WHERE game_id = ?').run(gameId)
+    this.db.prepare('DELETE FROM hand_histories WHERE game_id = ?').run(gameId)
+  }
+
+  close(): void {
+    this.db.close()
+  }
+}
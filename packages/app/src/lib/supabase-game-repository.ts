@@ -0,0 +1,278 @@
+/**
+ * Supabase Game Repository
+ * Durable storage in PostgreSQL via Supabase
+ */
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js'
+import { GameEvent, GameSnapshot, GameState, HandHistory, StoredGameEvent } from '@bluepoker/shared'
+import type { GameEventLogRecord, GameRepository, PersistedGame, ReconnectionTokenRecord } from './game-repository'
+
+const NO_ROWS = 'PGRST116'
+
+export class SupabaseGameRepository implements GameRepository {
+  readonly kind = 'supabase' as const
+
+  private supabase: SupabaseClient
+
+  constructor(url: string, key: string) {
+    this.supabase = createClient(url, key)
+  }
+
+  async saveGame(gameId: string, gameState: GameState): Promise<PersistedGame> {
+    // Check if game already exists to determine version
+    const { data: existing, error: fetchError } = await this.supabase
+      .from('persisted_games')
+      .select('version')
+      .eq('game_id', gameId)
+      .single()
+
+    if (fetchError && fetchError.code !== NO_ROWS) {
+      throw new Error(`Failed to check existing game: ${fetchError.message}`)
+    }
+
+    const version = existing ? existing.version + 1 : 1
+    const persistedAt = new Date().toISOString()
+
+    const { error } = await this.supabase
+      .from('persisted_games')
+      .upsert({
+        game_id: gameId,
+        game_state: gameState,
+        persisted_at: persistedAt,
+        version: version,
+        updated_at: persistedAt
+      })
+      .select()
+      .single()
+
+    if (error) {
+      throw new Error(`Failed to persist game: ${error.message}`)
+    }
+
+    return { gameId, gameState, persistedAt, version }
+  }
+
+  async loadGame(gameId: string): Promise<GameState | null> {
+    const { data, error } = await this.supabase
+      .from('persisted_games')
+      .select('game_state')
+      .eq('game_id', gameId)
+      .single()
+
+    if (error) {
+      if (error.code === NO_ROWS) {
+        return null
+      }
+      throw new Error(`Failed to restore game: ${error.message}`)
+    }
+
+    return data.game_state as GameState
+  }
+
+  async deleteGame(gameId: string): Promise<void> {
+    await this.deleteGameRecords([gameId])
+
+    const { error: tokenError } = await this.supabase
+      .from('reconnection_tokens')
+      .delete()
+      .eq('game_id', gameId)
+
+    // Don't fail completely if token cleanup fails
+    if (tokenError) {
+      console.error('Failed to cleanup tokens:', tokenError)
+    }
+  }
+
+  async deleteGamesUpdatedBefore(cutoff: Date): Promise<number> {
+    const { data, error } = await this.supabase
+      .from('persisted_games')
+      .select('game_id')
+      .lt('updated_at', cutoff.toISOString())
+
+    if (error) {
+      throw new Error(`Failed to cleanup old games: ${error.message}`)
+    }
+
+    const gameIds = (data || []).map(row => row.game_id as string)
+    if (gameIds.length > 0) {
+      await this.deleteGameRecords(gameIds)
+    }
+    return gameIds.length
+  }
+
+  async saveHandHistory(history: HandHistory): Promise<void> {
+    const { error } = await this.supabase
+      .from('hand_histories')
+      .upsert({
+        game_id: history.gameId,
+        hand_number: history.handNumber,
+        history,
+        created_at: history.endedAt ?? new Date().toISOString()
+      })
+
+    if (error) {
+      throw new Error(`Failed to persist hand history: ${error.message}`)
+    }
+  }
+
+  async loadHandHistories(gameId: string): Promise<HandHistory[]> {
+    const { data, error } = await this.supabase
+      .from('hand_histories')
+      .select('history')
+      .eq('game_id', gameId)
+      .order('hand_number', { ascending: true })
+
+    if (error) {
+      throw new Error(`Failed to restore hand histories: ${error.message}`)
+    }
+
+    return (data || []).map(row => row.history as HandHistory)
+  }
+
+  async deleteHandHistories(gameId: string): Promise<void> {
+    const { error } = await this.supabase
+      .from('hand_histories')
+      .delete()
+      .eq('game_id', gameId)
+
+    if (error) {
+      throw new Error(`Failed to cleanup hand histories: ${error.message}`)
+    }
+  }
+
+  async appendGameEvents(events: StoredGameEvent[]): Promise<void> {
+    const { error } = await this.supabase
+      .from('game_events')
+      .insert(events.map(stored => ({
+        game_id: stored.gameId,
+        sequence: stored.sequence,
+        type: stored.event.type,
+        payload: stored.event,
+        recorded_at: stored.recordedAt
+      })))
+
+    if (error) {
+      throw new Error(`Failed to append game events: ${error.message}`)
+    }
+  }
+
+  async saveGameSnapshot(snapshot: GameSnapshot): Promise<void> {
+    const { error } = await this.supabase
+      .from('game_snapshots')
+      .upsert({
+        game_id: snapshot.gameId,
+        sequence: snapshot.sequence,
+        game_state: snapshot.gameState,
+        created_at: new Date().toISOString()
+      })
+
+    if (error) {
+      throw new Error(`Failed to persist game snapshot: ${error.message}`)
+    }
+  }
+
+  async loadGameEventLog(gameId: string): Promise<GameEventLogRecord | null> {
+    const { data: snapshotRow, error: snapshotError } = await this.supabase
+      .from('game_snapshots')
+      .select('sequence, game_state')
+      .eq('game_id', gameId)
+      .order('sequence', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+
+    if (snapshotError) {
+      throw new Error(`Failed to restore game snapshot: ${snapshotError.message}`)
+    }
+
+    const snapshot: GameSnapshot | undefined = snapshotRow
+      ? { gameId, sequence: snapshotRow.sequence, gameState: snapshotRow.game_state as GameState }
+      : undefined
+
+    const { data, error } = await this.supabase
+      .from('game_events')
+      .select('sequence, payload, recorded_at')
+      .eq('game_id', gameId)
+      .gt('sequence', snapshot?.sequence ?? 0)
+      .order('sequence', { ascending: true })
+
+    if (error) {
+      throw new Error(`Failed to restore game events: ${error.message}`)
+    }
+
+    const events = (data || []).map(row => ({
+      gameId,
+      sequence: row.sequence as number,
+      event: row.payload as GameEvent,
+      recordedAt: row.recorded_at as string
+    }))
+    if (!snapshot && events.length === 0) {
+      return null
+    }
+    return { snapshot, events }
+  }
+
+  async saveReconnectionToken(record: ReconnectionTokenRecord): Promise<void> {
+    const { error } = await this.supabase
+      .from('reconnection_tokens')
+      .insert({
+        token: record.token,
+        game_id: record.gameId,
+        player_id: record.playerId,
+        expires_at: record.expiresAt
+      })
+
+    if (error) {
+      throw new Error(`Failed to store token: ${error.message}`)
+    }
+  }
+
+  async findReconnectionToken(token: string): Promise<ReconnectionTokenRecord | null> {
+    const { data, error } = await this.supabase
+      .from('reconnection_tokens')
+      .select('game_id, player_id, expires_at')
+      .eq('token', token)
+      .single()
+
+    if (error || !data) {
+      return null
+    }
+
+    return { token, gameId: data.game_id, playerId: data.player_id, expiresAt: data.expires_at }
+  }
+
+  async deleteReconnectionToken(token: string): Promise<void> {
+    await this.supabase
+      .from('reconnection_tokens')
+      .delete()
+      .eq('token', token)
+  }
+
+  async deleteReconnectionTokensExpiredBefore(cutoff: Date): Promise<number> {
+    const { data, error } = await this.supabase
+      .from('reconnection_tokens')
+      .delete()
+      .lt('expires_at', cutoff.toISOString())
+      .select('token')
+
+    if (error) {
+      throw new Error(`Failed to cleanup expired tokens: ${error.message}`)
+    }
+
+    return data?.length || 0
+  }
+
+  // Everything the games can be rebuilt from, the event log first so a failure part way
+  // through never leaves a log without its game
+  private async deleteGameRecords(gameIds: string[]): Promise<void> {
+    for (const table of ['game_events', 'game_snapshots', 'hand_histories', 'persisted_games']) {
+      const { error } = await this.supabase
+        .from(table)
+        .delete()
+        .in('game_id', gameIds)
+
+      if (error) {
+        throw new Error(`Failed to cleanup ${table}: ${error.message}`)
+      }
+    }
+  }
+}
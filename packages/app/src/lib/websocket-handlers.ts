@@ -8,11 +8,15 @@ import {
   createGameStateUpdateMessage,
   createActionResultMessage,
   createPongMessage,
+  createLegalActionsMessage,
+  createPlayerLeftMessage,
+  GameState,
+  PlayerAction,
   WebSocketErrorCode 
 } from '@bluepoker/shared';
 import { wsManager } from './websocket-manager';
-import { gameStore } from './game-store';
-import { executePlayerAction, dealNewHand, startNewHand } from '@bluepoker/shared';
+import { gameStore, parseDispatchOptions } from './game-store';
+import { getLegalActions } from '@bluepoker/shared';
 import { broadcaster } from './event-broadcaster';
 
 // Message handler for WebSocket connections
@@ -68,6 +72,11 @@ export function handleWebSocketMessage(
       case 'startNewHand':
         handleStartNewHand(connection);
         break;
+
+      case 'sitOut':
+      case 'sitIn':
+        handleSitOutOrIn(connection, clientMessage.type);
+        break;
         
       default:
         const errorMsg = createErrorMessage(`Unknown message type: ${(clientMessage as {type: string}).type}`);
@@ -117,6 +126,12 @@ function handleAuthenticate(
     const gameStateMsg = createGameStateUpdateMessage(gameState);
     wsManager.sendToConnection(connection.id, gameStateMsg);
     
+    // Let the player know what they can do if it is already their turn
+    const actions = getLegalActions(gameState, playerId);
+    if (actions.length > 0) {
+      wsManager.sendToConnection(connection.id, createLegalActionsMessage(playerId, actions));
+    }
+    
     console.log(`Player ${playerId} authenticated on connection ${connection.id}`);
   } else {
     const errorMsg = createErrorMessage('Authentication failed');
@@ -136,7 +151,7 @@ function handlePing(
 // Player action handler
 function handlePlayerAction(
   connection: WebSocketConnection,
-  data: { playerId: string; action: 'fold' | 'call' | 'raise'; amount?: number }
+  data: { playerId: string; action: PlayerAction; amount?: number; expectedVersion?: number; idempotencyKey?: string }
 ): void {
   if (!connection.authenticated) {
     const errorMsg = createErrorMessage('Not authenticated');
@@ -161,21 +176,26 @@ function handlePlayerAction(
     return;
   }
   
-  // Execute player action
-  const result = executePlayerAction(gameState, playerId, action, amount);
+  const options = parseDispatchOptions(data);
+  if (typeof options === 'string') {
+    const errorMsg = createErrorMessage(options);
+    wsManager.sendToConnection(connection.id, errorMsg);
+    return;
+  }
+
+  // Execute player action, storing the new state when it succeeds
+  const result = gameStore.dispatch(connection.gameId, { type: 'act', playerId, action, amount }, options);
   
-  // Send action result to the acting player
+  // Send action result to the acting player, with the current state if theirs was stale
   const actionResultMsg = createActionResultMessage(
     result.success,
     result.error,
-    result.success ? result.gameState : undefined
+    result.success || result.conflict ? result.gameState : undefined
   );
   wsManager.sendToConnection(connection.id, actionResultMsg);
   
-  if (result.success) {
-    // Update stored game state
-    gameStore.set(connection.gameId, result.gameState);
-    
+  // A repeated message gets its first result back; the state went out to everyone the first time
+  if (result.success && !result.duplicate) {
     // Broadcast updated game state to all connections
     const gameStateMsg = createGameStateUpdateMessage(result.gameState);
     wsManager.broadcast(connection.gameId, gameStateMsg);
@@ -186,8 +206,10 @@ function handlePlayerAction(
       data: result.gameState
     });
     
+    sendLegalActionsToActivePlayer(connection.gameId, result.gameState);
+    
     console.log(`Player ${playerId} executed ${action} successfully`);
-  } else {
+  } else if (!result.success) {
     console.log(`Player ${playerId} action ${action} failed: ${result.error}`);
   }
 }
@@ -209,11 +231,15 @@ function handleDealCards(connection: WebSocketConnection): void {
   }
   
   try {
-    // Deal new hand
-    const newGameState = dealNewHand(gameState);
-    
-    // Update stored game state
-    gameStore.set(connection.gameId, newGameState);
+    // Deal new hand and store it
+    const result = gameStore.dispatch(connection.gameId, { type: 'deal' });
+    if (!result.success) {
+      const actionResultMsg = createActionResultMessage(false, result.error);
+      wsManager.sendToConnection(connection.id, actionResultMsg);
+      console.log(`Dealing for game ${connection.gameId} failed: ${result.error}`);
+      return;
+    }
+    const newGameState = result.gameState;
     
     // Send success result
     const actionResultMsg = createActionResultMessage(true, undefined, newGameState);
@@ -229,6 +255,8 @@ function handleDealCards(connection: WebSocketConnection): void {
       data: newGameState
     });
     
+    sendLegalActionsToActivePlayer(connection.gameId, newGameState);
+    
     console.log(`Cards dealt for game ${connection.gameId}`);
     
   } catch (error) {
@@ -255,11 +283,20 @@ function handleStartNewHand(connection: WebSocketConnection): void {
   }
   
   try {
-    // Start new hand (includes dealing)
-    const newGameState = startNewHand(gameState);
-    
-    // Update stored game state
-    gameStore.set(connection.gameId, newGameState);
+    // Start new hand (includes dealing) and store it
+    const result = gameStore.dispatch(connection.gameId, { type: 'new-hand' });
+    if (!result.success) {
+      const actionResultMsg = createActionResultMessage(false, result.error);
+      wsManager.sendToConnection(connection.id, actionResultMsg);
+      console.log(`New hand for game ${connection.gameId} failed: ${result.error}`);
+      return;
+    }
+    const newGameState = result.gameState;
+
+    // Players who sat out too long are removed before the deal
+    gameState.players
+      .filter(player => !newGameState.players.some(p => p.id === player.id))
+      .forEach(player => wsManager.broadcast(connection.gameId, createPlayerLeftMessage(player.id)));
     
     // Send success result
     const actionResultMsg = createActionResultMessage(true, undefined, newGameState);
@@ -275,6 +312,8 @@ function handleStartNewHand(connection: WebSocketConnection): void {
       data: newGameState
     });
     
+    sendLegalActionsToActivePlayer(connection.gameId, newGameState);
+    
     console.log(`New hand started for game ${connection.gameId}`);
     
   } catch (error) {
@@ -284,6 +323,63 @@ function handleStartNewHand(connection: WebSocketConnection): void {
   }
 }
 
+// Sit-out / sit-in handler
+function handleSitOutOrIn(connection: WebSocketConnection, type: 'sitOut' | 'sitIn'): void {
+  if (!connection.authenticated || !connection.playerId) {
+    const errorMsg = createErrorMessage('Not authenticated');
+    wsManager.sendToConnection(connection.id, errorMsg);
+    return;
+  }
+
+  // Get current game state
+  const gameState = gameStore.get(connection.gameId);
+  if (!gameState) {
+    const errorMsg = createErrorMessage('Game not found');
+    wsManager.sendToConnection(connection.id, errorMsg);
+    return;
+  }
+
+  const result = gameStore.dispatch(connection.gameId, {
+    type: type === 'sitOut' ? 'sit-out' : 'sit-in',
+    playerId: connection.playerId
+  });
+
+  const actionResultMsg = createActionResultMessage(
+    result.success,
+    result.error,
+    result.success ? result.gameState : undefined
+  );
+  wsManager.sendToConnection(connection.id, actionResultMsg);
+
+  if (result.success) {
+    // Broadcast updated game state to all connections
+    const gameStateMsg = createGameStateUpdateMessage(result.gameState);
+    wsManager.broadcast(connection.gameId, gameStateMsg);
+
+    // Also broadcast via SSE for backwards compatibility
+    broadcaster.broadcast(connection.gameId, {
+      type: 'gameStateUpdate',
+      data: result.gameState
+    });
+
+    console.log(`Player ${connection.playerId} ${type === 'sitOut' ? 'sat out' : 'sat in'}`);
+  }
+}
+
+// Tell the player whose turn it is which actions they may take
+function sendLegalActionsToActivePlayer(gameId: string, gameState: GameState): void {
+  const activePlayer = gameState.players[gameState.activePlayerIndex];
+  if (!activePlayer) return;
+  
+  const actions = getLegalActions(gameState, activePlayer.id);
+  if (actions.length === 0) return;
+  
+  const legalActionsMsg = createLegalActionsMessage(activePlayer.id, actions);
+  wsManager.getGameConnections(gameId)
+    .filter(conn => conn.authenticated && conn.playerId === activePlayer.id)
+    .forEach(conn => wsManager.sendToConnection(conn.id, legalActionsMsg));
+}
+
 // Create a WebSocket connection object
 export function createWebSocketConnection(
   gameId: string,
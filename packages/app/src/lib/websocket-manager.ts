@@ -7,7 +7,9 @@ import {
   WebSocketConnection, 
   WebSocketManager, 
   ServerMessage, 
-  createWebSocketMessage
+  SPECTATOR,
+  createWebSocketMessage,
+  redactGameStateFor
 } from '@bluepoker/shared';
 
 // Rate limiting configuration
@@ -99,14 +101,6 @@ export class PokerWebSocketManager implements WebSocketManager {
       return;
     }
     
-    const wsMessage = createWebSocketMessage(message.type, message.data);
-    const messageStr = this.safeStringify(wsMessage);
-    
-    if (!messageStr) {
-      console.error(`Failed to serialize broadcast message for game ${gameId}`);
-      return;
-    }
-    
     console.log(`Broadcasting ${message.type} to ${gameConns.size} connections in game ${gameId}`);
     
     // Send to all active connections
@@ -114,6 +108,11 @@ export class PokerWebSocketManager implements WebSocketManager {
     
     gameConns.forEach((connection, connectionId) => {
       if (this.isConnectionAlive(connection)) {
+        const messageStr = this.safeStringify(this.createMessageFor(connection, message));
+        if (!messageStr) {
+          console.error(`Failed to serialize broadcast message for game ${gameId}`);
+          return;
+        }
         try {
           connection.ws.send(messageStr);
           connection.lastActivity = new Date();
@@ -145,8 +144,7 @@ export class PokerWebSocketManager implements WebSocketManager {
       return;
     }
     
-    const wsMessage = createWebSocketMessage(message.type, message.data);
-    const messageStr = this.safeStringify(wsMessage);
+    const messageStr = this.safeStringify(this.createMessageFor(connection, message));
     
     if (!messageStr) {
       console.error(`Failed to serialize message for connection ${connectionId}`);
@@ -233,6 +231,22 @@ export class PokerWebSocketManager implements WebSocketManager {
     return false;
   }
   
+  // Game state is projected for the connection's player (or a spectator before authentication)
+  private createMessageFor(connection: WebSocketConnection, message: ServerMessage) {
+    const viewer = connection.authenticated && connection.playerId ? connection.playerId : SPECTATOR;
+    
+    if (message.type === 'gameStateUpdate') {
+      return createWebSocketMessage(message.type, redactGameStateFor(message.data, viewer));
+    }
+    if (message.type === 'actionResult' && message.data.gameState) {
+      return createWebSocketMessage(message.type, {
+        ...message.data,
+        gameState: redactGameStateFor(message.data.gameState, viewer)
+      });
+    }
+    return createWebSocketMessage(message.type, message.data);
+  }
+  
   // Connection health check
   private isConnectionAlive(connection: WebSocketConnection): boolean {
     return connection.ws.readyState === WebSocket.OPEN;
@@ -8,6 +8,9 @@ export default defineConfig({
       'src/**/*.{test,spec}.{js,ts,tsx}',
       '../../tests/**/*.{test,spec}.{js,ts,tsx}'
     ],
+    benchmark: {
+      include: ['../../tests/**/*.bench.ts'],
+    },
   },
   resolve: {
     alias: {
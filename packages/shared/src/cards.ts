@@ -25,8 +25,12 @@ export interface DrawResponse {
   count: number;
 }
 
+// 'short' is the 36-card Short Deck (6+) deck, without the twos through fives
+export type DeckType = 'standard' | 'short';
+
 const SUITS: Card['suit'][] = ['hearts', 'diamonds', 'clubs', 'spades'];
 const RANKS: Card['rank'][] = ['2', '3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K', 'A'];
+const SHORT_DECK_RANKS: Card['rank'][] = ['6', '7', '8', '9', '10', 'J', 'Q', 'K', 'A'];
 
 /**
  * Convert rank to numeric value
@@ -42,13 +46,14 @@ function rankToValue(rank: Card['rank']): number {
 }
 
 /**
- * Create a standard 52-card deck
+ * Create a standard 52-card deck, or the 36-card short deck
  */
-export function createDeck(): Card[] {
+export function createDeck(deckType: DeckType = 'standard'): Card[] {
   const deck: Card[] = [];
+  const ranks = deckType === 'short' ? SHORT_DECK_RANKS : RANKS;
   
   for (const suit of SUITS) {
-    for (const rank of RANKS) {
+    for (const rank of ranks) {
       deck.push({
         suit,
         rank,
@@ -82,7 +87,8 @@ class SeededRandom {
 }
 
 /**
- * Fisher-Yates shuffle with seeded random number generator
+ * Fisher-Yates shuffle with seeded random number generator.
+ * Reproducible but predictable - hands are dealt with secureShuffle or shuffleDeckFromSeed.
  */
 export function shuffleDeck(deck: Card[], seed: number): Card[] {
   const shuffled = [...deck];
@@ -117,15 +123,19 @@ export function drawCards(deck: Card[], count: number): { drawnCards: Card[]; re
 }
 
 /**
- * Validate that a deck contains exactly 52 unique cards
+ * Validate that a deck contains exactly the 52 (or 36 short-deck) unique cards of its type
  */
-export function validateDeck(deck: Card[]): boolean {
-  if (deck.length !== 52) {
+export function validateDeck(deck: Card[], deckType: DeckType = 'standard'): boolean {
+  const ranks = deckType === 'short' ? SHORT_DECK_RANKS : RANKS;
+  if (deck.length !== ranks.length * SUITS.length) {
     return false;
   }
   
   const cardSet = new Set();
   for (const card of deck) {
+    if (!ranks.includes(card.rank)) {
+      return false; // Card from outside this deck
+    }
     const cardKey = `${card.suit}-${card.rank}`;
     if (cardSet.has(cardKey)) {
       return false; // Duplicate card
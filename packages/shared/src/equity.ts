@@ -0,0 +1,278 @@
+/**
+ * Hold'em equity: how often each hand wins or ties, by enumerating every deal when that is
+ * cheap enough and by Monte Carlo sampling otherwise
+ */
+/* eslint-disable security/detect-object-injection */
+
+import { createDeck, cardToString, stringToCard } from './cards';
+import { evaluate7, encodeCard } from './hand-lookup';
+import { parseRange } from './hand-ranges';
+
+// Two hole cards, a range given as the list of two-card hands it contains, or range notation
+// such as "QQ+, AKs" (see parseRange)
+export type EquityHand = string[] | string[][] | string;
+
+export interface EquityOptions {
+  board?: string[]; // Zero to five community cards already dealt
+  deadCards?: string[]; // Cards known to be out of the deck (e.g. folded or burned)
+  iterations?: number; // Monte Carlo deals when the board cannot be enumerated
+}
+
+export interface PlayerEquity {
+  win: number; // Share of deals won outright (0-1)
+  tie: number; // Share of deals split with other hands
+  equity: number; // Expected share of the pot, counting each tie as the split it earns
+}
+
+export interface EquityResult {
+  players: PlayerEquity[]; // In the order the hands were given
+  method: 'exhaustive' | 'monte-carlo';
+  trials: number; // Deals evaluated
+}
+
+export const MIN_EQUITY_HANDS = 2;
+export const MAX_EQUITY_HANDS = 10;
+export const DEFAULT_EQUITY_ITERATIONS = 10000;
+export const MAX_EQUITY_ITERATIONS = 100000;
+
+// Largest number of deals (range combinations x board runouts) enumerated exhaustively
+const MAX_EXHAUSTIVE_DEALS = 50000;
+
+// Monte Carlo gives up on ranges that keep blocking each other after this many redraws
+const MAX_RANGE_REDRAWS = 1000;
+
+// One hand a range can be dealt, and how often relative to the range's other hands
+interface WeightedCombo<C = string> {
+  cards: C[];
+  weight: number;
+}
+
+interface EquityTally {
+  wins: number[];
+  ties: number[];
+  shares: number[];
+  trials: number;
+  weight: number; // Total weight of the deals, which the shares are divided by
+}
+
+/**
+ * Calculate each hand's equity against the others. Ranges are dealt from their hands that do
+ * not clash with the board, dead cards or any other player's cards, in proportion to each
+ * hand's weight.
+ */
+export function calculateEquity(hands: EquityHand[], options: EquityOptions = {}): EquityResult {
+  const board = options.board ?? [];
+  const deadCards = options.deadCards ?? [];
+  const iterations = options.iterations ?? DEFAULT_EQUITY_ITERATIONS;
+
+  if (hands.length < MIN_EQUITY_HANDS || hands.length > MAX_EQUITY_HANDS) {
+    throw new Error(`Equity needs between ${MIN_EQUITY_HANDS} and ${MAX_EQUITY_HANDS} hands`);
+  }
+  if (board.length > 5) {
+    throw new Error('Board can have at most 5 cards');
+  }
+  if (!Number.isInteger(iterations) || iterations < 1 || iterations > MAX_EQUITY_ITERATIONS) {
+    throw new Error(`Iterations must be a whole number from 1 to ${MAX_EQUITY_ITERATIONS}`);
+  }
+
+  const ranges = hands.map((hand, index) => toRange(hand, index));
+
+  // Board, dead cards and exact hands are all known, so none may appear twice
+  const knownCards = [...board, ...deadCards, ...ranges.filter(range => range.length === 1).flatMap(([combo]) => combo.cards)];
+  const seen = new Set<string>();
+  knownCards.forEach(card => {
+    stringToCard(card);
+    if (seen.has(card)) {
+      throw new Error(`Duplicate card: ${card}`);
+    }
+    seen.add(card);
+  });
+
+  const playable = ranges.map((range, index) => {
+    if (range.length === 1) {
+      return range;
+    }
+    const open = range.filter(combo => combo.cards.every(card => !seen.has(card)));
+    if (open.length === 0) {
+      throw new Error(`Range ${index + 1} has no hands left once blocked cards are removed`);
+    }
+    return open;
+  });
+
+  const deck = createDeck().map(cardToString).filter(card => !board.includes(card) && !deadCards.includes(card));
+  const boardNeeded = 5 - board.length;
+  if (deck.length - hands.length * 2 < boardNeeded) {
+    throw new Error('Not enough cards left to deal the board');
+  }
+
+  const tally: EquityTally = {
+    wins: hands.map(() => 0),
+    ties: hands.map(() => 0),
+    shares: hands.map(() => 0),
+    trials: 0,
+    weight: 0
+  };
+
+  // Deals are scored on card codes with the lookup-table evaluator
+  const rangeCodes = playable.map(range => range.map(combo => ({ cards: combo.cards.map(encodeCard), weight: combo.weight })));
+  const boardCodes = board.map(encodeCard);
+  const deckCodes = deck.map(encodeCard);
+
+  const assignments = playable.reduce((total, range) => total * range.length, 1);
+  const runouts = binomial(deck.length - hands.length * 2, boardNeeded);
+  const method = assignments * runouts <= MAX_EXHAUSTIVE_DEALS ? 'exhaustive' : 'monte-carlo';
+  if (method === 'exhaustive') {
+    enumerateDeals(rangeCodes, boardCodes, deckCodes, boardNeeded, tally);
+  } else {
+    sampleDeals(rangeCodes, boardCodes, deckCodes, boardNeeded, iterations, tally);
+  }
+  if (tally.trials === 0) {
+    throw new Error('Ranges leave no way to deal every player a hand');
+  }
+
+  return {
+    players: hands.map((_, index) => ({
+      win: tally.wins[index] / tally.weight,
+      tie: tally.ties[index] / tally.weight,
+      equity: tally.shares[index] / tally.weight
+    })),
+    method,
+    trials: tally.trials
+  };
+}
+
+// A single hand becomes a one-hand range; notation is expanded with its weights
+function toRange(hand: EquityHand, index: number): WeightedCombo[] {
+  if (typeof hand === 'string') {
+    return parseRange(hand).map(combo => ({ cards: combo.cards.map(cardToString), weight: combo.weight }));
+  }
+
+  const isHand = Array.isArray(hand) && hand.every(card => typeof card === 'string');
+  const combos = (isHand ? [hand] : hand) as unknown[];
+  const valid = Array.isArray(hand) && combos.length > 0 && combos.every(combo =>
+    Array.isArray(combo) && combo.length === 2 && combo.every(card => typeof card === 'string') && combo[0] !== combo[1]
+  );
+  if (!valid) {
+    throw new Error(`Hand ${index + 1} must be two hole cards or a range of two-card hands`);
+  }
+  (combos as string[][]).flat().forEach(stringToCard);
+  return (combos as string[][]).map(cards => ({ cards, weight: 1 }));
+}
+
+/**
+ * Every combination of range hands that fit together, dealt every possible runout and counted
+ * by the product of the hands' weights
+ */
+function enumerateDeals(ranges: WeightedCombo<number>[][], board: number[], deck: number[], boardNeeded: number, tally: EquityTally): void {
+  const assign = (index: number, holes: number[][], weight: number, used: Set<number>) => {
+    if (index === ranges.length) {
+      const remaining = deck.filter(card => !used.has(card));
+      forEachCombination(remaining, boardNeeded, runout => scoreDeal(holes, [...board, ...runout], weight, tally));
+      return;
+    }
+    ranges[index].forEach(combo => {
+      if (combo.cards.some(card => used.has(card))) {
+        return;
+      }
+      assign(index + 1, [...holes, combo.cards], weight * combo.weight, new Set([...used, ...combo.cards]));
+    });
+  };
+  assign(0, [], 1, new Set());
+}
+
+/**
+ * Deal random hands from each range and random runouts
+ */
+function sampleDeals(
+  ranges: WeightedCombo<number>[][],
+  board: number[],
+  deck: number[],
+  boardNeeded: number,
+  iterations: number,
+  tally: EquityTally
+): void {
+  for (let trial = 0; trial < iterations; trial++) {
+    const holes = drawHoles(ranges);
+    if (!holes) {
+      return;
+    }
+    const used = new Set(holes.flat());
+    const remaining = deck.filter(card => !used.has(card));
+
+    // Partial Fisher-Yates: only the cards the board still needs are shuffled into place
+    for (let i = 0; i < boardNeeded; i++) {
+      const j = i + Math.floor(Math.random() * (remaining.length - i));
+      [remaining[i], remaining[j]] = [remaining[j], remaining[i]];
+    }
+    scoreDeal(holes, [...board, ...remaining.slice(0, boardNeeded)], 1, tally);
+  }
+}
+
+// Redraw the whole table when two ranges pick the same card, so no range is favoured
+function drawHoles(ranges: WeightedCombo<number>[][]): number[][] | null {
+  for (let attempt = 0; attempt < MAX_RANGE_REDRAWS; attempt++) {
+    const holes = ranges.map(drawCombo);
+    const cards = holes.flat();
+    if (new Set(cards).size === cards.length) {
+      return holes;
+    }
+  }
+  return null;
+}
+
+// Pick a hand from a range with probability proportional to its weight
+function drawCombo(range: WeightedCombo<number>[]): number[] {
+  let pick = Math.random() * range.reduce((total, combo) => total + combo.weight, 0);
+  const combo = range.find(candidate => (pick -= candidate.weight) < 0);
+  return (combo ?? range[range.length - 1]).cards;
+}
+
+// Reused for every hand scored: two hole cards then the five board cards
+const sevenCards = new Uint8Array(7);
+
+function scoreDeal(holes: number[][], board: number[], weight: number, tally: EquityTally): void {
+  sevenCards.set(board, 2);
+  const strengths = holes.map(hole => {
+    sevenCards[0] = hole[0];
+    sevenCards[1] = hole[1];
+    return evaluate7(sevenCards);
+  });
+  const best = Math.min(...strengths);
+  const winners = strengths.flatMap((strength, index) => strength === best ? [index] : []);
+
+  winners.forEach(index => {
+    if (winners.length === 1) {
+      tally.wins[index] += weight;
+    } else {
+      tally.ties[index] += weight;
+    }
+    tally.shares[index] += weight / winners.length;
+  });
+  tally.trials++;
+  tally.weight += weight;
+}
+
+// Visit every way of choosing `size` items without building the whole list
+function forEachCombination(items: number[], size: number, visit: (combination: number[]) => void): void {
+  const chosen: number[] = [];
+  const walk = (start: number) => {
+    if (chosen.length === size) {
+      visit([...chosen]);
+      return;
+    }
+    for (let i = start; i <= items.length - (size - chosen.length); i++) {
+      chosen.push(items[i]);
+      walk(i + 1);
+      chosen.pop();
+    }
+  };
+  walk(0);
+}
+
+function binomial(n: number, k: number): number {
+  let result = 1;
+  for (let i = 0; i < k; i++) {
+    result = (result * (n - i)) / (i + 1);
+  }
+  return result;
+}
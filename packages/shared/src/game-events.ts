@@ -0,0 +1,349 @@
+/**
+ * Event-sourced game engine: every transition is recorded as typed domain events, and a game's
+ * state is rebuilt by folding its events (from the latest snapshot, when there is one)
+ */
+
+import { Card, createDeck, cardToString, stringToCard } from './cards';
+import {
+  GameState,
+  HandWinner,
+  PlayerAction,
+  PlayerActionResult,
+  TableConfig,
+  addChips,
+  createGame,
+  dealNewHand,
+  executePlayerAction,
+  getActionClockExpiry,
+  sitIn,
+  sitOut,
+  startNewHand
+} from './game-state';
+import type { HandHistoryBlind, HandHistoryEvent, HandHistoryStreet } from './hand-history';
+import { deckTypeFor } from './poker-variants';
+import { ShuffleCommitment, createShuffleCommitment, secureShuffle, shuffleDeckFromSeed } from './shuffle';
+import { STUD_STREETS, StudStreet } from './stud';
+
+export type DealStreet = 'preflop' | HandHistoryStreet | StudStreet;
+
+const DEAL_STREETS: DealStreet[] = ['preflop', 'flop', 'turn', 'river', ...STUD_STREETS];
+
+// Events that run the engine when folded; each one moves the game on a version
+const DECISIONS: GameEventType[] = ['HandStarted', 'PlayerActed', 'PlayerSatOut', 'PlayerSatIn', 'ChipsAdded'];
+
+/**
+ * Decisions (game creation, deals, actions, sitting out or in, adding chips) carry everything
+ * needed to repeat them, including the shuffled deck and the time of each action, so folding
+ * them through the engine rebuilds the exact same state. The other events record what a
+ * decision led to for readers of the log; folding leaves the state as it is.
+ */
+export type GameEvent =
+  | {
+      type: 'GameCreated';
+      gameId: string;
+      config: TableConfig;
+      players: Array<{ id: string; name: string; userId?: string }>;
+      nextShuffle?: ShuffleCommitment;
+    }
+  | {
+      type: 'HandStarted';
+      handNumber: number;
+      newHand: boolean; // Dealt by startNewHand after a complete hand, rather than dealNewHand
+      deck: string[]; // Whole deck in dealing order, top card first
+      shuffle?: ShuffleCommitment; // Provably-fair seed the deck came from
+      nextShuffle?: ShuffleCommitment; // Committed for the hand after this one
+      at: number; // Epoch ms the hand was dealt
+    }
+  | { type: 'PlayerActed'; playerId: string; action: PlayerAction; amount?: number; at: number; timedOut?: boolean }
+  | { type: 'PlayerSatOut'; playerId: string }
+  | { type: 'PlayerSatIn'; playerId: string }
+  | { type: 'ChipsAdded'; playerId: string; amount: number }
+  | { type: 'BlindsPosted'; posts: Array<{ playerId: string; blind: HandHistoryBlind; amount: number }> }
+  | { type: 'CardsDealt'; street: DealStreet; playerId?: string; cards: string[]; faceUp: boolean } // No player for the board
+  | { type: 'UncalledBetReturned'; playerId: string; amount: number }
+  | { type: 'HandShown'; playerId: string; cards: string[]; description: string }
+  | { type: 'PotAwarded'; playerId: string; amount: number; potIndex: number }
+  | { type: 'HandCompleted'; handNumber: number; winners: HandWinner[]; endedAt: string };
+
+export type GameEventType = GameEvent['type'];
+
+// An event as the event store holds it: numbered from 1 within its game, in the order it happened
+export interface StoredGameEvent {
+  gameId: string;
+  sequence: number;
+  event: GameEvent;
+  recordedAt: string;
+}
+
+// The state once every event up to and including `sequence` has been folded
+export interface GameSnapshot {
+  gameId: string;
+  sequence: number;
+  gameState: GameState;
+}
+
+export type GameCommand =
+  | { type: 'create'; gameId: string; playerNames: string[]; config?: Partial<TableConfig>; userIds?: Record<string, string> } // User ids by player name
+  | { type: 'deal'; now?: number } // dealNewHand
+  | { type: 'new-hand'; now?: number } // startNewHand
+  | { type: 'act'; playerId: string; action: PlayerAction; amount?: number; now?: number }
+  | { type: 'timeout'; now?: number }
+  | { type: 'sit-out'; playerId: string }
+  | { type: 'sit-in'; playerId: string }
+  | { type: 'add-chips'; playerId: string; amount: number };
+
+export interface GameCommandResult {
+  success: boolean;
+  gameState: GameState;
+  events: GameEvent[]; // Empty when the command was refused
+  error?: string;
+}
+
+// A snapshot is taken whenever a game's log reaches a multiple of this many events
+export const SNAPSHOT_INTERVAL = 100;
+
+/**
+ * Run a command against a game (no state for 'create') and return the new state with the events
+ * that describe the transition. Refused commands return the unchanged state and an error, as
+ * the engine does; invalid deals throw as dealNewHand and startNewHand do.
+ */
+export function executeGameCommand(gameState: GameState | undefined, command: GameCommand): GameCommandResult {
+  if (command.type === 'create') {
+    const created = createGame(command.gameId, command.playerNames, command.config);
+    const event: GameEvent = {
+      type: 'GameCreated',
+      gameId: created.gameId,
+      config: created.config,
+      // eslint-disable-next-line security/detect-object-injection
+      players: created.players.map(({ id, name }) => ({ id, name, userId: command.userIds?.[name] })),
+      nextShuffle: created.nextShuffle
+    };
+    return { success: true, gameState: applyGameEvent(gameState, event), events: [event] };
+  }
+
+  if (!gameState) {
+    throw new Error(`Game must be created before running a ${command.type} command`);
+  }
+
+  const decision = decideEvent(gameState, command);
+  if ('error' in decision) {
+    return { success: false, gameState, events: [], error: decision.error };
+  }
+
+  // Counted before folding, since the engine may add to the history the old state shares
+  const recorded = gameState.handHistory?.events.length ?? 0;
+  const result = foldDecision(gameState, decision);
+  if (!result.success) {
+    return { success: false, gameState, events: [], error: result.error };
+  }
+  const next = result.gameState;
+  const sameHand = next.handHistory?.handNumber === gameState.handHistory?.handNumber;
+  const newHistoryEvents = next.handHistory?.events.slice(sameHand ? recorded : 0) ?? [];
+
+  const events = [decision, ...describeHistoryEvents(newHistoryEvents, gameState.phase)];
+  if (next.phase === 'complete' && gameState.phase !== 'complete' && next.handHistory?.endedAt) {
+    events.push({ type: 'HandCompleted', handNumber: next.handNumber, winners: next.winners ?? [], endedAt: next.handHistory.endedAt });
+  }
+  return { success: true, gameState: next, events };
+}
+
+/**
+ * Fold one event into the state it follows. Only GameCreated may start from no state; creating
+ * a game again (as the lobby does when players join) replaces it, keeping its version count.
+ */
+export function applyGameEvent(gameState: GameState | undefined, event: GameEvent): GameState {
+  if (event.type === 'GameCreated') {
+    const created = createGame(event.gameId, event.players.map(player => player.name), event.config);
+    return {
+      ...created,
+      version: gameState ? gameState.version + 1 : 0,
+      players: created.players.map((player, index) => {
+        // eslint-disable-next-line security/detect-object-injection
+        const { id, userId } = event.players[index];
+        return userId ? { ...player, id, userId } : { ...player, id };
+      }),
+      nextShuffle: event.nextShuffle
+    };
+  }
+  if (!gameState) {
+    throw new Error(`${event.type} event has no game to apply to`);
+  }
+
+  // Commands are checked when they run, so a refusal while folding means a corrupt log
+  const result = foldDecision(gameState, event);
+  if (!result.success) {
+    throw new Error(`Cannot apply ${event.type} event: ${result.error}`);
+  }
+  return result.gameState;
+}
+
+/**
+ * Rebuild a game's state from its events, starting from a snapshot when one is given. Events
+ * must follow on from the snapshot (or from 1) without gaps; events the snapshot already
+ * covers are skipped.
+ */
+export function rebuildGameState(events: StoredGameEvent[], snapshot?: GameSnapshot): GameState {
+  let gameState = snapshot?.gameState;
+  let sequence = snapshot?.sequence ?? 0;
+
+  [...events].sort((a, b) => a.sequence - b.sequence).forEach(stored => {
+    if (stored.sequence <= sequence) {
+      return;
+    }
+    if (stored.sequence !== sequence + 1) {
+      throw new Error(`Game event log is missing event ${sequence + 1}`);
+    }
+    gameState = applyGameEvent(gameState, stored.event);
+    sequence = stored.sequence;
+  });
+
+  if (!gameState) {
+    throw new Error('Game event log is empty');
+  }
+  return gameState;
+}
+
+// The decision a command makes, ready to fold, or why it was refused
+function decideEvent(gameState: GameState, command: Exclude<GameCommand, { type: 'create' }>): GameEvent | { error: string } {
+  switch (command.type) {
+    case 'new-hand':
+      // Refused rather than left to startNewHand to throw, like any other command refusal
+      if (gameState.phase !== 'complete') {
+        return { error: 'Current hand is not complete' };
+      }
+      return shuffleForHand(gameState, true, command.now ?? Date.now());
+    case 'deal':
+      return shuffleForHand(gameState, false, command.now ?? Date.now());
+    case 'act':
+      return { type: 'PlayerActed', playerId: command.playerId, action: command.action, amount: command.amount, at: command.now ?? Date.now() };
+    case 'timeout': {
+      // Decided as handleActionTimeout does, without running the engine twice on the same state
+      const now = command.now ?? Date.now();
+      const expiry = getActionClockExpiry(gameState);
+      if (expiry === undefined || now < expiry) {
+        return { error: 'Action clock has not run out' };
+      }
+      const player = gameState.players[gameState.activePlayerIndex];
+      const action = gameState.currentBet > player.currentBet ? 'fold' : 'check';
+      return { type: 'PlayerActed', playerId: player.id, action, at: now, timedOut: true };
+    }
+    case 'sit-out':
+      return { type: 'PlayerSatOut', playerId: command.playerId };
+    case 'sit-in':
+      return { type: 'PlayerSatIn', playerId: command.playerId };
+    case 'add-chips':
+      return { type: 'ChipsAdded', playerId: command.playerId, amount: command.amount };
+  }
+}
+
+/**
+ * Shuffle the next hand's deck the way dealNewHand would, so the deck can be recorded: from the
+ * committed seed at provably-fair tables, otherwise with the CSPRNG
+ */
+function shuffleForHand(gameState: GameState, newHand: boolean, now: number): GameEvent {
+  const { provablyFair, variant } = gameState.config;
+  const shuffle = provablyFair ? gameState.nextShuffle ?? createShuffleCommitment() : undefined;
+  const freshDeck = createDeck(deckTypeFor(variant));
+  const deck: Card[] = shuffle ? shuffleDeckFromSeed(freshDeck, shuffle.seed) : secureShuffle(freshDeck);
+  return {
+    type: 'HandStarted',
+    handNumber: gameState.handNumber + 1,
+    newHand,
+    deck: deck.map(cardToString),
+    shuffle,
+    nextShuffle: provablyFair ? createShuffleCommitment() : undefined,
+    at: now
+  };
+}
+
+// Run a decision through the engine; every other event leaves the state as it is
+function foldDecision(gameState: GameState, event: GameEvent): PlayerActionResult {
+  const result = runDecision(gameState, event);
+  if (!result.success || !DECISIONS.includes(event.type)) {
+    return result;
+  }
+  return { ...result, gameState: { ...result.gameState, version: gameState.version + 1 } };
+}
+
+function runDecision(gameState: GameState, event: GameEvent): PlayerActionResult {
+  switch (event.type) {
+    case 'HandStarted': {
+      const deck = event.deck.map(stringToCard);
+      const dealt = event.newHand ? startNewHand(gameState, deck, event.at) : dealNewHand(gameState, deck, event.at);
+      // A prepared deck is dealt without a shuffle commitment, so the recorded ones are put back
+      const recorded: GameState = {
+        ...dealt,
+        shuffle: event.shuffle,
+        nextShuffle: event.nextShuffle,
+        handHistory: dealt.handHistory && { ...dealt.handHistory, shuffle: event.shuffle && { commitment: event.shuffle.commitment } }
+      };
+      return { success: true, gameState: recorded };
+    }
+    case 'PlayerActed': {
+      const result = executePlayerAction(gameState, event.playerId, event.action, event.amount, event.at);
+      return result.success ? { ...result, gameState: stampHandEnd(result.gameState, gameState, event.at) } : result;
+    }
+    case 'PlayerSatOut':
+      return sitOut(gameState, event.playerId);
+    case 'PlayerSatIn':
+      return sitIn(gameState, event.playerId);
+    case 'ChipsAdded':
+      return addChips(gameState, event.playerId, event.amount);
+    default:
+      return { success: true, gameState };
+  }
+}
+
+// A hand finished by an action ends when the action was taken, however long after it is folded
+function stampHandEnd(next: GameState, previous: GameState, at: number): GameState {
+  if (!next.handHistory?.endedAt || previous.handHistory?.endedAt) {
+    return next;
+  }
+  return { ...next, handHistory: { ...next.handHistory, endedAt: new Date(at).toISOString() } };
+}
+
+// What the engine recorded in the hand history during a transition, as domain events
+function describeHistoryEvents(history: HandHistoryEvent[], phaseBefore: GameState['phase']): GameEvent[] {
+  const events: GameEvent[] = [];
+  // Cards are dealt on the street the hand was on, until a street or board event moves it on
+  let street: DealStreet = DEAL_STREETS.includes(phaseBefore as DealStreet) ? phaseBefore as DealStreet : 'preflop';
+
+  history.forEach(entry => {
+    const last = events[events.length - 1];
+    switch (entry.type) {
+      case 'post':
+        if (last?.type === 'BlindsPosted') {
+          last.posts.push({ playerId: entry.playerId, blind: entry.blind, amount: entry.amount });
+        } else {
+          events.push({ type: 'BlindsPosted', posts: [{ playerId: entry.playerId, blind: entry.blind, amount: entry.amount }] });
+        }
+        break;
+      case 'street':
+        street = entry.street;
+        break;
+      case 'deal':
+        events.push({ type: 'CardsDealt', street, playerId: entry.playerId, cards: entry.cards, faceUp: false });
+        break;
+      case 'upcard':
+        events.push({ type: 'CardsDealt', street, playerId: entry.playerId, cards: [entry.card], faceUp: true });
+        break;
+      case 'board':
+        street = entry.street;
+        events.push({ type: 'CardsDealt', street, cards: entry.cards, faceUp: true });
+        break;
+      case 'uncalled':
+        events.push({ type: 'UncalledBetReturned', playerId: entry.playerId, amount: entry.amount });
+        break;
+      case 'show':
+        events.push({ type: 'HandShown', playerId: entry.playerId, cards: entry.cards, description: entry.description });
+        break;
+      case 'collect':
+        events.push({ type: 'PotAwarded', playerId: entry.playerId, amount: entry.amount, potIndex: entry.potIndex });
+        break;
+      default:
+        // Actions are recorded by their PlayerActed decision and rebuys by ChipsAdded
+        break;
+    }
+  });
+  return events;
+}
@@ -1,37 +1,134 @@
 /**
- * Texas Hold'em Game State Management
+ * Hold'em, Omaha and Seven-Card Stud (high and hi-lo) Game State Management
  */
 /* eslint-disable security/detect-object-injection */
 
-import { Card, createDeck, shuffleDeck, drawCards, cardToString } from './cards';
-import { evaluateHand } from './hand-evaluation';
+import { Card, createDeck, drawCards, cardToString } from './cards';
+import {
+  evaluateHand,
+  evaluateOmahaHand,
+  compareHands,
+  HandEvalResult,
+  HandRanking,
+  evaluateEightOrBetterLow,
+  evaluateOmahaLow,
+  compareLowHands,
+  LowHandResult
+} from './hand-evaluation';
+import { evaluate7, encodeCards, describeHandStrength } from './hand-lookup';
+import type { HandHistory, HandHistoryEvent } from './hand-history';
+import { PokerVariant, POKER_VARIANTS, holeCardCount, isOmaha, isHiLo, isStud, deckTypeFor, handRankingFor } from './poker-variants';
+import { StudStreet, STUD_STREETS, MAX_STUD_PLAYERS, studStreetCards, compareBringInCards, compareShowingHands } from './stud';
+import { ShuffleCommitment, createShuffleCommitment, secureShuffle, shuffleDeckFromSeed } from './shuffle';
+import { validateGameState } from './state-validation';
 import { randomUUID } from 'crypto';
 
 export interface Player {
   id: string;
   name: string;
   chips: number;
-  holeCards: Card[];
+  holeCards: Card[]; // Down cards in Seven-Card Stud
+  upCards: Card[]; // Seven-Card Stud cards dealt face up for the whole table to see
   currentBet: number;
+  totalBet: number; // Chips committed to the pot over the whole hand
   folded: boolean;
   allIn: boolean;
+  timeBankRemaining: number; // Seconds of extra decision time left once the action clock runs out
+  sittingOut: boolean; // Dealt out of new hands until they sit back in
+  handsSatOut: number; // Consecutive hands dealt without this player
+  missedBlinds: MissedBlinds; // Owed on returning from sitting out
+  pendingChips: number; // Rebuys and top-ups that join the stack at the next hand
   userId?: string; // Optional user ID for authentication
 }
 
+export interface MissedBlinds {
+  small: boolean; // Posted dead (into the pot, not towards the player's bet)
+  big: boolean; // Posted live
+}
+
+export interface Pot {
+  amount: number;
+  eligiblePlayerIds: string[]; // Players still in the hand who can win this pot
+}
+
+export interface HandWinner {
+  playerIndex: number;
+  playerId: string;
+  amount: number; // Chips collected from every pot won, including the player's own bets
+}
+
+export type BettingStructure = 'no-limit' | 'pot-limit' | 'fixed-limit';
+
+export const BETTING_STRUCTURES: BettingStructure[] = ['no-limit', 'pot-limit', 'fixed-limit'];
+
+export interface TableConfig {
+  variant: PokerVariant;
+  smallBlind: number; // The bring-in in Seven-Card Stud
+  bigBlind: number; // The small bet in Seven-Card Stud, which has no blinds
+  ante: number; // Posted by every player dealt in, before the blinds
+  straddleAllowed: boolean; // First player to act preflop may post a live straddle of two big blinds
+  startingStack: number;
+  minBuyIn: number;
+  maxBuyIn: number;
+  bettingStructure: BettingStructure;
+  provablyFair: boolean; // Deal from a committed seed that is revealed once the hand is over
+  actionTimeSeconds: number; // Time allowed for each decision (0 turns the action clock off)
+  timeBankSeconds: number; // Most time bank a player can hold
+  timeBankReplenishSeconds: number; // Added to every player's time bank at the start of each hand
+  maxHandsSatOut: number; // Players sitting out this many hands in a row are removed (0 never removes them)
+}
+
+export const DEFAULT_TABLE_CONFIG: TableConfig = {
+  variant: 'holdem',
+  smallBlind: 10,
+  bigBlind: 20,
+  ante: 0,
+  straddleAllowed: false,
+  startingStack: 1000,
+  minBuyIn: 400,
+  maxBuyIn: 2000,
+  bettingStructure: 'no-limit',
+  provablyFair: true,
+  actionTimeSeconds: 30,
+  timeBankSeconds: 60,
+  timeBankReplenishSeconds: 10,
+  maxHandsSatOut: 10
+};
+
 export interface GameState {
   gameId: string;
+  config: TableConfig;
   players: Player[];
   communityCards: Card[];
-  pot: number;
+  pot: number; // Total chips in the middle across all pots
+  pots: Pot[]; // Main pot first, followed by side pots
   currentBet: number;
+  lastRaiseSize: number; // Size of the last full bet or raise this street
+  lastAggressorIndex: number; // Last player to bet or raise this street (-1 if none)
   activePlayerIndex: number;
-  phase: 'waiting' | 'preflop' | 'flop' | 'turn' | 'river' | 'showdown' | 'complete';
-  winner?: number;
+  phase: 'waiting' | 'preflop' | 'flop' | 'turn' | 'river' | StudStreet | 'showdown' | 'complete';
+  winner?: number; // Main pot winner; on a split, the shareholder who collected the most chips
   winnerReason?: string;
+  winners?: HandWinner[]; // Everyone who collected chips this hand, most chips first
   deck: Card[];
   playersActed: boolean[]; // Track which players have acted this betting round
   handNumber: number; // Track which hand this is in the session
   dealerIndex: number; // Track who the dealer is (rotates each hand)
+  handHistory?: HandHistory; // Record of the current (or just finished) hand
+  shuffle?: ShuffleCommitment; // Seed the current hand was dealt from (secret until the hand is complete)
+  nextShuffle?: ShuffleCommitment; // Committed before the next hand is dealt
+  turnDeadline?: number; // Epoch ms when the active player's decision time ends and their time bank starts
+  version: number; // Bumped by every command run against the game, so stale writes can be detected
+}
+
+export type PlayerAction = 'fold' | 'check' | 'call' | 'bet' | 'raise' | 'all-in' | 'straddle';
+
+export const PLAYER_ACTIONS: PlayerAction[] = ['fold', 'check', 'call', 'bet', 'raise', 'all-in', 'straddle'];
+
+export interface LegalAction {
+  action: PlayerAction;
+  minAmount?: number; // Chips to call, or the total bet/raise-to amount
+  maxAmount?: number;
 }
 
 export interface PlayerActionResult {
@@ -40,98 +137,573 @@ export interface PlayerActionResult {
   error?: string;
 }
 
-const SMALL_BLIND = 10;
-const BIG_BLIND = 20;
-const STARTING_CHIPS = 1000;
+export const MIN_PLAYERS = 2;
+export const MAX_PLAYERS = 10;
+
+// Fixed-limit streets are capped at a bet and three raises
+const FIXED_LIMIT_BET_CAP = 4;
 
 /**
- * Create a new game with two players
+ * Fill in a table config from the defaults and check that the stakes make sense
  */
-export function createGame(gameId: string, playerNames: [string, string]): GameState {
+export function createTableConfig(overrides: Partial<TableConfig> = {}): TableConfig {
+  const config: TableConfig = { ...DEFAULT_TABLE_CONFIG, ...overrides };
+
+  // Buy-in range follows the starting stack unless it was given explicitly
+  if (overrides.minBuyIn === undefined) {
+    config.minBuyIn = Math.min(DEFAULT_TABLE_CONFIG.minBuyIn, config.startingStack);
+  }
+  if (overrides.maxBuyIn === undefined) {
+    config.maxBuyIn = Math.max(DEFAULT_TABLE_CONFIG.maxBuyIn, config.startingStack);
+  }
+
+  // Omaha is played pot-limit and Stud fixed-limit unless another structure is asked for
+  if (overrides.bettingStructure === undefined && isOmaha(config.variant)) {
+    config.bettingStructure = 'pot-limit';
+  }
+  if (overrides.bettingStructure === undefined && isStud(config.variant)) {
+    config.bettingStructure = 'fixed-limit';
+  }
+
+  // Short Deck is an ante game: everyone antes the small blind unless told otherwise
+  if (overrides.ante === undefined && config.variant === 'short-deck') {
+    config.ante = config.smallBlind;
+  }
+
+  // Stud antes default to a tenth of the small bet
+  if (overrides.ante === undefined && isStud(config.variant)) {
+    config.ante = Math.max(1, Math.floor(config.bigBlind / 10));
+  }
+
+  const amounts = [config.smallBlind, config.bigBlind, config.ante, config.startingStack, config.minBuyIn, config.maxBuyIn];
+  if (amounts.some(amount => typeof amount !== 'number' || !Number.isInteger(amount))) {
+    throw new Error('Table stakes must be whole numbers of chips');
+  }
+  if (config.smallBlind <= 0 || config.bigBlind < config.smallBlind) {
+    throw new Error('Big blind must be at least the small blind, and both must be positive');
+  }
+  if (config.ante < 0) {
+    throw new Error('Ante cannot be negative');
+  }
+  if (config.variant === 'short-deck' && config.ante === 0) {
+    throw new Error('Short Deck tables must have an ante');
+  }
+  if (isStud(config.variant) && config.ante === 0) {
+    throw new Error('Seven-Card Stud tables must have an ante');
+  }
+  if (config.minBuyIn < config.bigBlind || config.maxBuyIn < config.minBuyIn) {
+    throw new Error('Buy-in range must be at least one big blind and the minimum cannot exceed the maximum');
+  }
+  if (config.startingStack < config.minBuyIn || config.startingStack > config.maxBuyIn) {
+    throw new Error('Starting stack must be within the buy-in range');
+  }
+  if (typeof config.straddleAllowed !== 'boolean') {
+    throw new Error('straddleAllowed must be true or false');
+  }
+  if (typeof config.provablyFair !== 'boolean') {
+    throw new Error('provablyFair must be true or false');
+  }
+  const clock = [config.actionTimeSeconds, config.timeBankSeconds, config.timeBankReplenishSeconds];
+  if (clock.some(seconds => typeof seconds !== 'number' || !Number.isInteger(seconds) || seconds < 0)) {
+    throw new Error('Action clock settings must be whole, non-negative numbers of seconds');
+  }
+  if (!Number.isInteger(config.maxHandsSatOut) || config.maxHandsSatOut < 0) {
+    throw new Error('maxHandsSatOut must be a whole, non-negative number of hands');
+  }
+  if (!POKER_VARIANTS.includes(config.variant)) {
+    throw new Error(`Variant must be one of: ${POKER_VARIANTS.join(', ')}`);
+  }
+  if (!BETTING_STRUCTURES.includes(config.bettingStructure)) {
+    throw new Error(`Betting structure must be one of: ${BETTING_STRUCTURES.join(', ')}`);
+  }
+
+  return config;
+}
+
+/**
+ * Create a new game with 2-10 seated players (at most 7 in Seven-Card Stud)
+ */
+export function createGame(gameId: string, playerNames: string[], tableConfig: Partial<TableConfig> = {}): GameState {
+  if (playerNames.length < MIN_PLAYERS || playerNames.length > MAX_PLAYERS) {
+    throw new Error(`Games require between ${MIN_PLAYERS} and ${MAX_PLAYERS} players`);
+  }
+
+  const config = createTableConfig(tableConfig);
+  if (isStud(config.variant) && playerNames.length > MAX_STUD_PLAYERS) {
+    throw new Error(`Seven-Card Stud games seat at most ${MAX_STUD_PLAYERS} players`);
+  }
+
   const players: Player[] = playerNames.map((name) => ({
     id: randomUUID(),
     name,
-    chips: STARTING_CHIPS,
+    chips: config.startingStack,
     holeCards: [] as Card[],
+    upCards: [] as Card[],
     currentBet: 0,
+    totalBet: 0,
     folded: false,
-    allIn: false
+    allIn: false,
+    timeBankRemaining: config.timeBankSeconds,
+    sittingOut: false,
+    handsSatOut: 0,
+    missedBlinds: { small: false, big: false },
+    pendingChips: 0
   }));
 
   return {
     gameId,
+    config,
     players,
     communityCards: [] as Card[],
     pot: 0,
+    pots: [],
     currentBet: 0,
+    lastRaiseSize: 0,
+    lastAggressorIndex: -1,
     activePlayerIndex: -1, // No active player until hand is dealt
     phase: 'waiting',
-    deck: createDeck(),
-    playersActed: [false, false],
+    deck: createDeck(deckTypeFor(config.variant)),
+    playersActed: players.map(() => false),
     handNumber: 0, // Will be incremented when first hand is dealt
-    dealerIndex: 0 // Player 0 starts as dealer
+    dealerIndex: 0, // Player 0 starts as dealer
+    nextShuffle: config.provablyFair ? createShuffleCommitment() : undefined,
+    version: 0
   };
 }
 
 /**
- * Deal a new hand - reset game state and deal hole cards
+ * Deal a new hand - reset game state, post blinds and deal hole cards (in Stud, deal third
+ * street and post the bring-in). A prepared deck (top card first) may be passed in to
+ * reproduce a recorded hand.
  */
-export function dealNewHand(gameState: GameState): GameState {
-  const seed = Date.now();
-  const shuffledDeck = shuffleDeck(createDeck(), seed);
-  
-  // For first hand, player 0 is dealer/small blind to match test expectations
-  // For subsequent hands, rotate dealer position
-  const newDealerIndex = gameState.handNumber === 0 ? 0 : (gameState.dealerIndex + 1) % 2;
-  
-  // Reset players
+export function dealNewHand(gameState: GameState, preparedDeck?: Card[], now: number = Date.now()): GameState {
+  const { provablyFair, timeBankSeconds, timeBankReplenishSeconds } = gameState.config;
+  const tableChips = countTableChips(gameState);
+  const stud = isStud(gameState.config.variant);
+
+  // Provably-fair hands are dealt from the seed committed to before the deal
+  const shuffle = !preparedDeck && provablyFair ? gameState.nextShuffle ?? createShuffleCommitment() : undefined;
+  const freshDeck = createDeck(deckTypeFor(gameState.config.variant));
+  const shuffledDeck = preparedDeck ?? (shuffle ? shuffleDeckFromSeed(freshDeck, shuffle.seed) : secureShuffle(freshDeck));
+
+  // Rebuys and top-ups are added first; players with no chips left, or sitting out, are dealt out of the hand
   const players = gameState.players.map(player => ({
     ...player,
+    chips: player.chips + player.pendingChips,
+    pendingChips: 0,
     holeCards: [] as Card[],
+    upCards: [] as Card[],
     currentBet: 0,
-    folded: false,
-    allIn: false
+    totalBet: 0,
+    folded: player.chips + player.pendingChips <= 0 || player.sittingOut,
+    allIn: false,
+    timeBankRemaining: Math.min(timeBankSeconds, player.timeBankRemaining + timeBankReplenishSeconds),
+    handsSatOut: player.sittingOut ? player.handsSatOut + 1 : 0,
+    missedBlinds: { ...player.missedBlinds }
   }));
 
-  // Deal hole cards (2 per player)
-  const { drawnCards, remainingDeck } = drawCards(shuffledDeck, 4);
-  players[0]!.holeCards = [drawnCards[0]!, drawnCards[1]!];
-  players[1]!.holeCards = [drawnCards[2]!, drawnCards[3]!];
+  if (players.filter(p => p.chips > 0).length < MIN_PLAYERS) {
+    throw new Error('Not enough players have chips to continue');
+  }
+  const seatedCount = players.filter(p => !p.folded).length;
+  if (seatedCount < MIN_PLAYERS) {
+    throw new Error('Not enough players are sitting in to deal a hand');
+  }
 
-  // In heads-up poker, dealer is small blind, non-dealer is big blind
-  const smallBlindIndex = newDealerIndex;
-  const bigBlindIndex = (newDealerIndex + 1) % 2;
-  
-  // Post blinds
-  players[smallBlindIndex].currentBet = SMALL_BLIND;
-  players[smallBlindIndex].chips -= SMALL_BLIND;
-  players[bigBlindIndex].currentBet = BIG_BLIND;
-  players[bigBlindIndex].chips -= BIG_BLIND;
+  // For first hand, seat 0 is dealer to match test expectations
+  // For subsequent hands, the button moves to the next seat still holding chips
+  const newDealerIndex = gameState.handNumber === 0 && !players[0].folded
+    ? 0
+    : nextSeatInHand(players, gameState.handNumber === 0 ? -1 : gameState.dealerIndex);
 
-  return {
+  // Heads-up the dealer posts the small blind; otherwise the blinds sit to the dealer's left
+  const smallBlindIndex = seatedCount === 2 ? newDealerIndex : nextSeatInHand(players, newDealerIndex);
+  const bigBlindIndex = nextSeatInHand(players, smallBlindIndex);
+
+  // Sitting-out seats the blinds pass over owe those blinds when they return (Stud has no blinds).
+  // Heads-up the small blind never leaves the button, so it passes nobody.
+  if (!stud) {
+    if (seatedCount > 2) {
+      seatsBetween(players, newDealerIndex, smallBlindIndex)
+        .filter(player => player.sittingOut && player.chips > 0)
+        .forEach(player => { player.missedBlinds.small = true; });
+    }
+    seatsBetween(players, smallBlindIndex, bigBlindIndex)
+      .filter(player => player.sittingOut && player.chips > 0)
+      .forEach(player => { player.missedBlinds.big = true; });
+  }
+
+  // Deal hole cards (2 per player in Hold'em, 4 in Omaha, in seat order). Stud cards are
+  // dealt street by street once the antes are in.
+  let deck = shuffledDeck;
+  players.forEach(player => {
+    if (player.folded || stud) return;
+    const { drawnCards, remainingDeck } = drawCards(deck, holeCardCount(gameState.config.variant));
+    player.holeCards = drawnCards;
+    deck = remainingDeck;
+  });
+
+  const { bigBlind, ante } = gameState.config;
+  const handNumber = gameState.handNumber + 1;
+  const handHistory: HandHistory = {
+    gameId: gameState.gameId,
+    handNumber,
+    startedAt: new Date(now).toISOString(),
+    config: gameState.config,
+    dealerIndex: newDealerIndex,
+    seats: players.map((player, seat) => ({
+      seat,
+      playerId: player.id,
+      name: player.name,
+      chips: player.folded ? 0 : player.chips
+    })),
+    events: [],
+    shuffle: shuffle && { commitment: shuffle.commitment }
+  };
+
+  const newState: GameState = {
     ...gameState,
     players,
     communityCards: [] as Card[],
-    pot: SMALL_BLIND + BIG_BLIND,
-    currentBet: BIG_BLIND,
-    activePlayerIndex: smallBlindIndex, // Small blind (dealer) acts first preflop
-    phase: 'preflop',
+    pot: 0,
+    pots: [],
+    currentBet: stud ? 0 : bigBlind,
+    lastRaiseSize: stud ? 0 : bigBlind, // The big blind counts as the opening bet; the bring-in does not
+    lastAggressorIndex: stud ? -1 : bigBlindIndex,
+    activePlayerIndex: -1,
+    phase: stud ? 'third-street' : 'preflop',
     winner: undefined,
     winnerReason: undefined,
-    deck: remainingDeck,
-    playersActed: [false, false], // Reset for new hand
-    handNumber: gameState.handNumber + 1, // Increment hand number
-    dealerIndex: newDealerIndex // Update dealer position
+    winners: undefined,
+    deck,
+    playersActed: players.map(() => false), // Reset for new hand
+    handNumber, // Increment hand number
+    dealerIndex: newDealerIndex, // Update dealer position
+    handHistory,
+    shuffle,
+    nextShuffle: provablyFair ? createShuffleCommitment() : undefined
   };
+
+  gameState.players
+    .filter(player => player.pendingChips > 0)
+    .forEach(player => recordEvent(newState, { type: 'rebuy', playerId: player.id, amount: player.pendingChips }));
+
+  // Antes are dead money: they go in the pot but do not count towards the bet to call
+  if (ante > 0) {
+    players.forEach(player => {
+      if (player.folded) return;
+      const posted = commitChips(newState, player, ante);
+      player.currentBet = 0;
+      recordEvent(newState, { type: 'post', playerId: player.id, blind: 'ante', amount: posted });
+    });
+  }
+
+  if (stud) {
+    dealStudStreet(newState, 'third-street');
+    postBringIn(newState);
+  } else {
+    postBlinds(newState, smallBlindIndex, bigBlindIndex);
+  }
+  newState.pots = calculatePots(newState.players);
+
+  // Blinds may have put everyone all-in already
+  if (checkBettingRoundComplete(newState).bettingComplete) {
+    advancePhase(newState);
+    autoAdvanceIfAllIn(newState);
+  }
+
+  startActionClock(newState, now);
+  assertChipsConserved(newState, tableChips, 'dealing a new hand');
+  return newState;
+}
+
+/**
+ * Post the blinds and any blinds owed by returning players, then record the hole cards.
+ * Preflop action starts left of the big blind (the dealer when heads-up).
+ */
+function postBlinds(gameState: GameState, smallBlindIndex: number, bigBlindIndex: number): void {
+  const { players } = gameState;
+  const { smallBlind, bigBlind } = gameState.config;
+
+  const smallBlindPosted = commitChips(gameState, players[smallBlindIndex], smallBlind);
+  recordEvent(gameState, { type: 'post', playerId: players[smallBlindIndex].id, blind: 'small blind', amount: smallBlindPosted });
+  const bigBlindPosted = commitChips(gameState, players[bigBlindIndex], bigBlind);
+  recordEvent(gameState, { type: 'post', playerId: players[bigBlindIndex].id, blind: 'big blind', amount: bigBlindPosted });
+
+  // Returning players make up the blinds they missed, unless they are in the blinds anyway
+  players.forEach((player, index) => {
+    if (player.folded) return;
+    if (index !== smallBlindIndex && index !== bigBlindIndex) {
+      if (player.missedBlinds.big) {
+        const posted = commitChips(gameState, player, bigBlind);
+        recordEvent(gameState, { type: 'post', playerId: player.id, blind: 'missed big blind', amount: posted });
+      }
+      if (player.missedBlinds.small) {
+        const posted = commitChips(gameState, player, smallBlind);
+        player.currentBet -= posted;
+        recordEvent(gameState, { type: 'post', playerId: player.id, blind: 'missed small blind', amount: posted });
+      }
+    }
+    player.missedBlinds = { small: false, big: false };
+  });
+
+  players.forEach(player => {
+    if (player.folded) return;
+    recordEvent(gameState, { type: 'deal', playerId: player.id, cards: player.holeCards.map(cardToString) });
+  });
+
+  gameState.activePlayerIndex = getNextActivePlayer(gameState, bigBlindIndex);
+}
+
+/**
+ * The lowest upcard opens third street with the bring-in. Posting it counts as acting, so if
+ * everyone just calls the street is over; completing to a full small bet reopens the action.
+ */
+function postBringIn(gameState: GameState): void {
+  const candidates = gameState.players
+    .map((player, index) => ({ player, index }))
+    .filter(({ player }) => !player.folded && !player.allIn);
+  if (candidates.length === 0) {
+    return;
+  }
+
+  const { player, index } = candidates.reduce((lowest, candidate) =>
+    compareBringInCards(candidate.player.upCards[0], lowest.player.upCards[0]) < 0 ? candidate : lowest);
+  const posted = commitChips(gameState, player, gameState.config.smallBlind);
+  recordEvent(gameState, { type: 'post', playerId: player.id, blind: 'bring-in', amount: posted });
+  gameState.currentBet = player.currentBet;
+  gameState.lastAggressorIndex = index;
+  gameState.playersActed[index] = true;
+  gameState.activePlayerIndex = getNextActivePlayer(gameState, index);
+}
+
+/**
+ * Move chips from a player's stack into the pot, capped at the player's remaining stack.
+ * Returns the amount actually committed.
+ */
+function commitChips(gameState: GameState, player: Player, amount: number): number {
+  const committed = Math.min(amount, player.chips);
+  player.chips -= committed;
+  player.currentBet += committed;
+  player.totalBet += committed;
+  gameState.pot += committed;
+  if (player.chips === 0) {
+    player.allIn = true;
+  }
+  return committed;
+}
+
+/**
+ * Every chip at the table: stacks, the pot (which holds the bets) and rebuys waiting for the next hand
+ */
+export function countTableChips(gameState: GameState): number {
+  return gameState.pot + gameState.players.reduce((total, p) => total + p.chips + p.pendingChips, 0);
 }
 
 /**
- * Execute a player action
+ * Outside production, check that a transition neither created nor destroyed chips: the table
+ * holds the chips it should, no stack is negative, and the pot is exactly the chips bet this hand
+ */
+function assertChipsConserved(gameState: GameState, expectedChips: number, transition: string): void {
+  if (process.env.NODE_ENV === 'production') {
+    return;
+  }
+
+  const violation = (detail: string) => new Error(`Chip conservation violated after ${transition}: ${detail}`);
+  const tableChips = countTableChips(gameState);
+  if (tableChips !== expectedChips) {
+    throw violation(`expected ${expectedChips} chips at the table, found ${tableChips}`);
+  }
+  const negative = gameState.players.find(p => p.chips < 0);
+  if (negative) {
+    throw violation(`${negative.name} has ${negative.chips} chips`);
+  }
+  const committed = gameState.players.reduce((total, p) => total + p.totalBet, 0);
+  if (gameState.pot > 0 && gameState.pot !== committed) {
+    throw violation(`pot of ${gameState.pot} does not match ${committed} chips bet`);
+  }
+}
+
+/**
+ * Outside production, check the state against every invariant in validateGameState
+ */
+function assertValidGameState(gameState: GameState, transition: string): void {
+  if (process.env.NODE_ENV === 'production') {
+    return;
+  }
+
+  const violations = validateGameState(gameState);
+  if (violations.length > 0) {
+    throw new Error(`Invalid game state after ${transition}: ${violations.map(v => v.message).join('; ')}`);
+  }
+}
+
+/**
+ * Append an event to the hand history of the hand in progress
+ */
+function recordEvent(gameState: GameState, event: HandHistoryEvent): void {
+  gameState.handHistory?.events.push(event);
+}
+
+/**
+ * Stamp the hand history once the pot has been awarded
+ */
+function finishHandHistory(gameState: GameState): void {
+  const history = gameState.handHistory;
+  if (!history) {
+    return;
+  }
+  history.endedAt = new Date().toISOString();
+  history.totalPot = history.events.reduce((total, event) => event.type === 'collect' ? total + event.amount : total, 0);
+  history.finalChips = Object.fromEntries(gameState.players.map(p => [p.id, p.chips]));
+  if (history.shuffle && gameState.shuffle) {
+    history.shuffle = { ...history.shuffle, seed: gameState.shuffle.seed };
+  }
+}
+
+/**
+ * Build the main pot and side pots from each player's contribution to the hand.
+ * Folded players' chips stay in the pots they reached, but they are not eligible to win them.
+ */
+export function calculatePots(players: Player[]): Pot[] {
+  const levels = Array.from(new Set(
+    players.filter(p => !p.folded && p.totalBet > 0).map(p => p.totalBet)
+  )).sort((a, b) => a - b);
+
+  const pots: Pot[] = [];
+  let previousLevel = 0;
+
+  levels.forEach(level => {
+    const amount = players.reduce(
+      (total, p) => total + Math.min(p.totalBet, level) - Math.min(p.totalBet, previousLevel),
+      0
+    );
+    const eligiblePlayerIds = players.filter(p => !p.folded && p.totalBet >= level).map(p => p.id);
+    pots.push({ amount, eligiblePlayerIds });
+    previousLevel = level;
+  });
+
+  // Chips folded above the highest live contribution are dead money in the last pot
+  const deadMoney = players.reduce((total, p) => total + Math.max(0, p.totalBet - previousLevel), 0);
+  if (deadMoney > 0 && pots.length > 0) {
+    pots[pots.length - 1].amount += deadMoney;
+  }
+
+  return pots;
+}
+
+/**
+ * Return the part of the largest bet that no other player matched
+ */
+function returnUncalledBet(gameState: GameState): void {
+  const contributions = gameState.players.map(p => p.totalBet);
+  const topIndex = contributions.indexOf(Math.max(...contributions));
+  const secondHighest = Math.max(0, ...contributions.filter((_, index) => index !== topIndex));
+  const uncalled = contributions[topIndex] - secondHighest;
+
+  if (uncalled > 0) {
+    const player = gameState.players[topIndex];
+    recordEvent(gameState, { type: 'uncalled', playerId: player.id, amount: uncalled });
+    player.chips += uncalled;
+    player.totalBet -= uncalled;
+    player.currentBet = Math.max(0, player.currentBet - uncalled);
+    gameState.pot -= uncalled;
+    if (player.chips > 0) {
+      player.allIn = false;
+    }
+  }
+}
+
+/**
+ * Get the next seat after `fromIndex` that is dealt into the current hand
+ */
+function nextSeatInHand(players: Player[], fromIndex: number): number {
+  for (let offset = 1; offset <= players.length; offset++) {
+    const index = (fromIndex + offset + players.length) % players.length;
+    if (!players[index].folded) {
+      return index;
+    }
+  }
+  return fromIndex;
+}
+
+/**
+ * Seats strictly after fromIndex and before toIndex, going round the table
+ */
+function seatsBetween(players: Player[], fromIndex: number, toIndex: number): Player[] {
+  const seats: Player[] = [];
+  for (let index = (fromIndex + 1) % players.length; index !== toIndex; index = (index + 1) % players.length) {
+    seats.push(players[index]);
+  }
+  return seats;
+}
+
+/**
+ * Execute a player action. Time taken past the turn deadline comes out of the player's time bank,
+ * and the action clock restarts for whoever is next to act.
  */
 export function executePlayerAction(
   gameState: GameState,
   playerId: string,
-  action: 'fold' | 'call' | 'raise',
+  action: PlayerAction,
+  amount?: number,
+  now: number = Date.now()
+): PlayerActionResult {
+  const tableChips = countTableChips(gameState);
+  const result = applyPlayerAction(gameState, playerId, action, amount);
+  if (result.success) {
+    const name = gameState.players.find(p => p.id === playerId)?.name ?? playerId;
+    assertChipsConserved(result.gameState, tableChips, `${name}'s ${action}`);
+    assertValidGameState(result.gameState, `${name}'s ${action}`);
+    const player = result.gameState.players.find(p => p.id === playerId);
+    if (player && gameState.turnDeadline !== undefined && now > gameState.turnDeadline) {
+      const usedSeconds = Math.ceil((now - gameState.turnDeadline) / 1000);
+      player.timeBankRemaining = Math.max(0, player.timeBankRemaining - usedSeconds);
+    }
+    startActionClock(result.gameState, now);
+  }
+  return result;
+}
+
+/**
+ * When the active player's decision time and time bank have both run out (undefined if no clock is running)
+ */
+export function getActionClockExpiry(gameState: GameState): number | undefined {
+  const player = gameState.players[gameState.activePlayerIndex];
+  if (gameState.turnDeadline === undefined || !player) {
+    return undefined;
+  }
+  return gameState.turnDeadline + player.timeBankRemaining * 1000;
+}
+
+/**
+ * Act for a player whose action clock and time bank have run out: check if possible, otherwise fold
+ */
+export function handleActionTimeout(gameState: GameState, now: number = Date.now()): PlayerActionResult {
+  const expiry = getActionClockExpiry(gameState);
+  if (expiry === undefined || now < expiry) {
+    return { success: false, gameState, error: 'Action clock has not run out' };
+  }
+
+  const player = gameState.players[gameState.activePlayerIndex];
+  const action = gameState.currentBet > player.currentBet ? 'fold' : 'check';
+  return executePlayerAction(gameState, player.id, action, undefined, now);
+}
+
+/**
+ * Start the decision clock for the active player, or stop it when nobody is left to act
+ */
+function startActionClock(gameState: GameState, now: number): void {
+  const { actionTimeSeconds } = gameState.config;
+  const bettingOpen = ['preflop', 'flop', 'turn', 'river', ...STUD_STREETS].includes(gameState.phase) &&
+    gameState.players[gameState.activePlayerIndex] !== undefined;
+  gameState.turnDeadline = actionTimeSeconds > 0 && bettingOpen ? now + actionTimeSeconds * 1000 : undefined;
+}
+
+function applyPlayerAction(
+  gameState: GameState,
+  playerId: string,
+  action: PlayerAction,
   amount?: number
 ): PlayerActionResult {
   // Find player
@@ -163,22 +735,103 @@ export function executePlayerAction(
 
   // Create new state
   const newState = { ...gameState };
-  newState.players = [...gameState.players];
-  newState.players[playerIndex] = { ...player };
+  newState.players = gameState.players.map(p => ({ ...p }));
+  newState.playersActed = [...gameState.playersActed];
+  newState.communityCards = [...gameState.communityCards];
+  if (gameState.handHistory) {
+    newState.handHistory = { ...gameState.handHistory, events: [...gameState.handHistory.events] };
+  }
 
   // Execute action
   switch (action) {
     case 'fold':
       return executeFold(newState, playerIndex);
+    case 'check':
+      if (gameState.currentBet > player.currentBet) {
+        return { success: false, gameState, error: 'Cannot check facing a bet' };
+      }
+      return executeCall(newState, playerIndex);
     case 'call':
       return executeCall(newState, playerIndex);
+    case 'bet':
+      if (gameState.currentBet > 0) {
+        return { success: false, gameState, error: 'Cannot bet facing a bet, raise instead' };
+      }
+      return executeRaise(newState, playerIndex, amount);
     case 'raise':
       return executeRaise(newState, playerIndex, amount);
+    case 'all-in':
+      if (player.chips === 0) {
+        return { success: false, gameState, error: 'No chips left to go all-in' };
+      }
+      return player.currentBet + player.chips > gameState.currentBet
+        ? executeRaise(newState, playerIndex, player.currentBet + player.chips)
+        : executeCall(newState, playerIndex);
+    case 'straddle':
+      if (!canStraddle(gameState, playerIndex)) {
+        return { success: false, gameState, error: 'Straddle is not allowed now' };
+      }
+      return executeStraddle(newState, playerIndex);
     default:
       return { success: false, gameState, error: 'Invalid action' };
   }
 }
 
+/**
+ * List the actions a player may take right now, with the amounts each allows
+ */
+export function getLegalActions(gameState: GameState, playerId: string): LegalAction[] {
+  const playerIndex = gameState.players.findIndex(p => p.id === playerId);
+  if (playerIndex === -1 || playerIndex !== gameState.activePlayerIndex) {
+    return [];
+  }
+  if (gameState.phase === 'waiting' || gameState.phase === 'showdown' || gameState.phase === 'complete') {
+    return [];
+  }
+
+  const player = gameState.players[playerIndex];
+  if (player.folded || player.allIn) {
+    return [];
+  }
+
+  const toCall = gameState.currentBet - player.currentBet;
+  const allInAmount = player.currentBet + player.chips;
+  const legalActions: LegalAction[] = [{ action: 'fold' }];
+
+  if (canStraddle(gameState, playerIndex)) {
+    const straddleAmount = gameState.config.bigBlind * 2;
+    legalActions.push({ action: 'straddle', minAmount: straddleAmount, maxAmount: straddleAmount });
+  }
+
+  if (toCall === 0) {
+    legalActions.push({ action: 'check' });
+  } else {
+    const callAmount = Math.min(toCall, player.chips);
+    legalActions.push({ action: 'call', minAmount: callAmount, maxAmount: callAmount });
+  }
+
+  // Betting further only makes sense if someone else can still respond
+  const opponentCanAct = gameState.players.some((p, index) => index !== playerIndex && !p.folded && !p.allIn);
+  const canRaise = player.chips > toCall && opponentCanAct &&
+    canReopenBetting(gameState, playerIndex) && !isBettingCapped(gameState);
+  const maxRaiseTo = getMaxRaiseTo(gameState, playerIndex);
+  if (canRaise) {
+    legalActions.push({
+      action: gameState.currentBet > 0 ? 'raise' : 'bet',
+      minAmount: Math.min(getMinRaiseTo(gameState), allInAmount),
+      maxAmount: Math.min(maxRaiseTo, allInAmount)
+    });
+  }
+
+  // Shoving is always possible when it only calls; otherwise it counts as a raise and
+  // must fit within the structure's maximum
+  if (player.chips > 0 && ((canRaise && allInAmount <= maxRaiseTo) || allInAmount <= gameState.currentBet)) {
+    legalActions.push({ action: 'all-in', minAmount: allInAmount, maxAmount: allInAmount });
+  }
+
+  return legalActions;
+}
+
 /**
  * Execute fold action
  */
@@ -188,25 +841,32 @@ function executeFold(gameState: GameState, playerIndex: number): PlayerActionRes
   
   // Mark player as having acted
   gameState.playersActed[playerIndex] = true;
+  recordEvent(gameState, { type: 'action', playerId: player.id, action: 'fold', amount: 0, allIn: false });
 
-  // Check if opponent folded - if so, they win
-  const opponent = gameState.players[1 - playerIndex];
-  if (!opponent.folded) {
-    opponent.chips += gameState.pot;
-    gameState.winner = 1 - playerIndex;
+  // Last player standing wins the pot uncontested
+  const remainingPlayers = gameState.players.filter(p => !p.folded);
+  if (remainingPlayers.length === 1) {
+    const winnerIndex = gameState.players.findIndex(p => !p.folded);
+    returnUncalledBet(gameState);
+    recordEvent(gameState, { type: 'collect', playerId: gameState.players[winnerIndex].id, amount: gameState.pot, potIndex: 0 });
+    gameState.players[winnerIndex].chips += gameState.pot;
+    gameState.winner = winnerIndex;
     gameState.winnerReason = 'opponent folded';
+    gameState.winners = [{ playerIndex: winnerIndex, playerId: gameState.players[winnerIndex].id, amount: gameState.pot }];
     
     // Reset betting state after completion
     gameState.pot = 0;
+    gameState.pots = [];
     gameState.currentBet = 0;
     gameState.players.forEach(p => p.currentBet = 0);
     
     gameState.phase = 'complete';
-  } else {
-    // Move to next player if game continues
-    gameState.activePlayerIndex = getNextActivePlayer(gameState, playerIndex);
+    finishHandHistory(gameState);
+    return { success: true, gameState };
   }
 
+  completeAction(gameState, playerIndex);
+
   return { success: true, gameState };
 }
 
@@ -220,30 +880,17 @@ function executeCall(gameState: GameState, playerIndex: number): PlayerActionRes
   // Mark player as having acted
   gameState.playersActed[playerIndex] = true;
 
-  // Check if player has enough chips
-  if (callAmount >= player.chips) {
-    // All-in (when call amount equals or exceeds remaining chips)
-    gameState.pot += player.chips;
-    player.currentBet += player.chips;
-    player.chips = 0;
-    player.allIn = true;
-  } else {
-    // Regular call
-    player.chips -= callAmount;
-    player.currentBet += callAmount;
-    gameState.pot += callAmount;
-  }
+  // Calling more than the remaining stack puts the player all-in
+  const called = commitChips(gameState, player, callAmount);
+  recordEvent(gameState, {
+    type: 'action',
+    playerId: player.id,
+    action: called > 0 ? 'call' : 'check',
+    amount: called,
+    allIn: player.allIn
+  });
 
-  // Check if betting round is complete
-  const result = checkBettingRoundComplete(gameState);
-  if (result.bettingComplete) {
-    advancePhase(gameState);
-    // Check if all players are all-in and auto-advance if needed
-    autoAdvanceIfAllIn(gameState);
-  } else {
-    // Move to next player
-    gameState.activePlayerIndex = getNextActivePlayer(gameState, playerIndex);
-  }
+  completeAction(gameState, playerIndex);
 
   return { success: true, gameState };
 }
@@ -268,6 +915,15 @@ function executeRaise(gameState: GameState, playerIndex: number, amount?: number
     return { success: false, gameState, error: 'Raise must be higher than current bet' };
   }
   
+  // Players who already acted may only re-raise if facing at least a full raise since then
+  if (!canReopenBetting(gameState, playerIndex)) {
+    return { success: false, gameState, error: 'Betting is not reopened; you may only call or fold' };
+  }
+
+  if (isBettingCapped(gameState)) {
+    return { success: false, gameState, error: 'Betting is capped for this round' };
+  }
+  
   // Mark player as having acted
   gameState.playersActed[playerIndex] = true;
   
@@ -285,34 +941,41 @@ function executeRaise(gameState: GameState, playerIndex: number, amount?: number
   // Check if this is actually a raise or just a call/all-in that doesn't raise the bet
   const isActualRaise = finalAmount > gameState.currentBet;
   
-  // If it's an actual raise, check minimum raise amount
-  if (isActualRaise) {
-    const minRaise = gameState.currentBet > 0 ? gameState.currentBet * 2 : BIG_BLIND;
-    if (finalAmount < minRaise) {
-      return { success: false, gameState, error: `Minimum raise is $${minRaise}` };
-    }
+  // If it's an actual raise, check minimum raise amount (going all-in for less is always allowed)
+  const minRaise = getMinRaiseTo(gameState);
+  if (isActualRaise && totalAmountNeeded < player.chips && finalAmount < minRaise) {
+    return { success: false, gameState, error: `Minimum raise is $${minRaise}` };
+  }
+
+  // Pot-limit and fixed-limit tables also cap the size of the raise
+  const maxRaise = getMaxRaiseTo(gameState, playerIndex);
+  if (finalAmount > maxRaise) {
+    return { success: false, gameState, error: `Maximum raise is $${maxRaise}` };
   }
   
-  // Handle all-in scenario
-  if (totalAmountNeeded === player.chips) {
-    // Player goes all-in
-    gameState.pot += player.chips;
-    player.currentBet += player.chips;
-    if (isActualRaise) {
-      gameState.currentBet = player.currentBet;
-    }
-    player.chips = 0;
-    player.allIn = true;
-  } else {
-    // Regular raise
-    player.chips -= totalAmountNeeded;
-    gameState.pot += totalAmountNeeded;
-    player.currentBet = finalAmount;
-    gameState.currentBet = finalAmount;
+  // An all-in for less than a full raise increases the bet without reopening the action
+  const raiseSize = finalAmount - gameState.currentBet;
+  const isFullRaise = isActualRaise && raiseSize >= minRaise - gameState.currentBet;
+  
+  // Commit the raise (all-in when it uses the whole stack)
+  const isOpeningBet = gameState.currentBet === 0;
+  commitChips(gameState, player, totalAmountNeeded);
+  recordEvent(gameState, {
+    type: 'action',
+    playerId: player.id,
+    action: !isActualRaise ? 'call' : isOpeningBet ? 'bet' : 'raise',
+    amount: totalAmountNeeded,
+    raiseTo: isActualRaise ? finalAmount : undefined,
+    allIn: player.allIn
+  });
+  if (isActualRaise) {
+    gameState.currentBet = player.currentBet;
+    gameState.lastAggressorIndex = playerIndex;
   }
 
-  // Only reset other players' acted status if this was an actual raise
-  if (isActualRaise) {
+  // Only reset other players' acted status if this was a full raise
+  if (isFullRaise) {
+    gameState.lastRaiseSize = raiseSize;
     for (let i = 0; i < gameState.playersActed.length; i++) {
       if (i !== playerIndex) {
         gameState.playersActed[i] = false;
@@ -320,15 +983,129 @@ function executeRaise(gameState: GameState, playerIndex: number, amount?: number
     }
   }
 
-  // Move to next player
-  gameState.activePlayerIndex = getNextActivePlayer(gameState, playerIndex);
+  completeAction(gameState, playerIndex);
+
+  return { success: true, gameState };
+}
 
-  // Check if all players are all-in and auto-advance if needed
-  autoAdvanceIfAllIn(gameState);
+/**
+ * The first player to act preflop may straddle before anyone has acted, when the table
+ * allows it and there are at least three players in the hand
+ */
+function canStraddle(gameState: GameState, playerIndex: number): boolean {
+  const player = gameState.players[playerIndex];
+  const { bigBlind, straddleAllowed } = gameState.config;
+  return straddleAllowed &&
+    gameState.phase === 'preflop' &&
+    gameState.players.filter(p => !p.folded).length >= 3 &&
+    gameState.currentBet === bigBlind &&
+    gameState.playersActed.every(acted => !acted) &&
+    player.chips > bigBlind * 2 - player.currentBet;
+}
+
+/**
+ * Post a live straddle of two big blinds. It acts as a third blind: action continues to
+ * the left and the straddler keeps the option to raise when it comes back around.
+ */
+function executeStraddle(gameState: GameState, playerIndex: number): PlayerActionResult {
+  const player = gameState.players[playerIndex];
+  const straddleAmount = gameState.config.bigBlind * 2;
+
+  const posted = commitChips(gameState, player, straddleAmount - player.currentBet);
+  recordEvent(gameState, { type: 'post', playerId: player.id, blind: 'straddle', amount: posted });
+  gameState.currentBet = straddleAmount;
+  gameState.lastRaiseSize = straddleAmount;
+  gameState.lastAggressorIndex = playerIndex;
+  gameState.pots = calculatePots(gameState.players);
+  gameState.activePlayerIndex = getNextActivePlayer(gameState, playerIndex);
 
   return { success: true, gameState };
 }
 
+/**
+ * Smallest total a bet or raise may be made to: the current bet plus the last full raise,
+ * and never less than a big blind. Fixed-limit bets and raises are always one bet unit.
+ */
+function getMinRaiseTo(gameState: GameState): number {
+  if (isCompletingBringIn(gameState)) {
+    return gameState.config.bigBlind;
+  }
+  if (gameState.config.bettingStructure === 'fixed-limit') {
+    return gameState.currentBet + getFixedBetSize(gameState);
+  }
+  return gameState.currentBet + Math.max(gameState.lastRaiseSize, gameState.config.bigBlind);
+}
+
+/**
+ * Largest total a player may bet or raise to, before accounting for their stack.
+ * Pot-limit allows calling first and then raising the size of the pot.
+ */
+function getMaxRaiseTo(gameState: GameState, playerIndex: number): number {
+  switch (gameState.config.bettingStructure) {
+    case 'pot-limit': {
+      const toCall = gameState.currentBet - gameState.players[playerIndex].currentBet;
+      return gameState.currentBet + gameState.pot + toCall;
+    }
+    case 'fixed-limit':
+      return isCompletingBringIn(gameState) ? gameState.config.bigBlind : gameState.currentBet + getFixedBetSize(gameState);
+    default:
+      return Infinity;
+  }
+}
+
+/**
+ * The first raise over a stud bring-in only completes the bet to a full small bet
+ */
+function isCompletingBringIn(gameState: GameState): boolean {
+  return gameState.phase === 'third-street' && gameState.currentBet < gameState.config.bigBlind;
+}
+
+/**
+ * Fixed-limit bet unit: the small bet (one big blind) preflop and on the flop,
+ * the big bet (two big blinds) on the turn and river, or from fifth street on in Stud
+ */
+function getFixedBetSize(gameState: GameState): number {
+  const { bigBlind } = gameState.config;
+  const bigBetStreets = ['turn', 'river', 'fifth-street', 'sixth-street', 'seventh-street'];
+  return bigBetStreets.includes(gameState.phase) ? bigBlind * 2 : bigBlind;
+}
+
+/**
+ * Fixed-limit streets stop accepting raises once the bet reaches the cap
+ */
+function isBettingCapped(gameState: GameState): boolean {
+  if (gameState.config.bettingStructure !== 'fixed-limit') {
+    return false;
+  }
+  const betSize = getFixedBetSize(gameState);
+  return gameState.currentBet + betSize > betSize * FIXED_LIMIT_BET_CAP;
+}
+
+/**
+ * A player may raise if they have not acted yet this round, or if the bet has grown by at
+ * least a full raise since they last acted (several short all-ins can add up to one)
+ */
+function canReopenBetting(gameState: GameState, playerIndex: number): boolean {
+  const player = gameState.players[playerIndex];
+  return !gameState.playersActed[playerIndex] ||
+    gameState.currentBet - player.currentBet >= gameState.lastRaiseSize;
+}
+
+/**
+ * Close the betting round if the action is complete, otherwise pass the turn
+ */
+function completeAction(gameState: GameState, playerIndex: number): void {
+  gameState.pots = calculatePots(gameState.players);
+
+  if (checkBettingRoundComplete(gameState).bettingComplete) {
+    advancePhase(gameState);
+    // Check if all players are all-in and auto-advance if needed
+    autoAdvanceIfAllIn(gameState);
+  } else {
+    gameState.activePlayerIndex = getNextActivePlayer(gameState, playerIndex);
+  }
+}
+
 /**
  * Check if betting round is complete
  */
@@ -340,57 +1117,31 @@ function checkBettingRoundComplete(gameState: GameState): { bettingComplete: boo
     return { bettingComplete: true };
   }
 
-  // Check if all active players have matched the current bet or are all-in
-  const allMatched = activePlayers.every(p => 
-    p.currentBet === gameState.currentBet || p.allIn
+  // Every player who can still act must have acted and matched the current bet.
+  // Posting a blind is not an action, so the big blind keeps its preflop option.
+  const bettingComplete = gameState.players.every((p, index) =>
+    p.folded || p.allIn || (gameState.playersActed[index] && p.currentBet === gameState.currentBet)
   );
 
-  // For preflop, both players must have acted (except if one folded)
-  if (gameState.phase === 'preflop') {
-    // Find dealer index to determine which player is which
-    const smallBlindIndex = gameState.dealerIndex;
-    const bigBlindIndex = (gameState.dealerIndex + 1) % 2;
-    
-    // Both players must have acted for round to be complete
-    const smallBlindActed = gameState.playersActed[smallBlindIndex] || gameState.players[smallBlindIndex].folded;
-    const bigBlindActed = gameState.playersActed[bigBlindIndex] || gameState.players[bigBlindIndex].folded;
-    
-    // Round is complete when both have acted and bets are matched
-    if (smallBlindActed && bigBlindActed && allMatched) {
-      return { bettingComplete: true };
-    }
-    
-    return { bettingComplete: false };
-  }
-
-  // For post-flop rounds, all players must have acted and have matching bets
-  const allActivePlayersActed = activePlayers.every((p) => {
-    const playerIndex = gameState.players.findIndex(player => player.id === p.id);
-    return gameState.playersActed[playerIndex] || p.allIn;
-  });
-
-  return { bettingComplete: allActivePlayersActed && allMatched };
+  return { bettingComplete };
 }
 
 /**
  * Get next active player index
  */
 function getNextActivePlayer(gameState: GameState, currentIndex: number): number {
-  // Check if there are any active players who can still act
-  const hasActivePlayer = gameState.players.some(p => !p.folded && !p.allIn);
-  if (!hasActivePlayer) {
-    // No active players, return current index (betting round should end)
-    return currentIndex;
-  }
-  
-  const nextIndex = (currentIndex + 1) % gameState.players.length;
-  const nextPlayer = gameState.players[nextIndex];
-  
-  if (nextPlayer.folded || nextPlayer.allIn) {
-    return getNextActivePlayer(gameState, nextIndex);
+  const playerCount = gameState.players.length;
+
+  for (let offset = 1; offset <= playerCount; offset++) {
+    const nextIndex = (currentIndex + offset) % playerCount;
+    const nextPlayer = gameState.players[nextIndex];
+    if (!nextPlayer.folded && !nextPlayer.allIn) {
+      return nextIndex;
+    }
   }
-  
-  return nextIndex;
+
+  // No active players, return current index (betting round should end)
+  return currentIndex;
 }
 
 /**
@@ -400,6 +1151,8 @@ function advancePhase(gameState: GameState): void {
   // Reset betting for next round
   gameState.players.forEach(p => p.currentBet = 0);
   gameState.currentBet = 0;
+  gameState.lastRaiseSize = 0;
+  gameState.lastAggressorIndex = -1;
   
   // Reset players acted for new betting round
   gameState.playersActed = gameState.playersActed.map(() => false);
@@ -417,7 +1170,14 @@ function advancePhase(gameState: GameState): void {
       dealRiver(gameState);
       gameState.phase = 'river';
       break;
+    case 'third-street':
+    case 'fourth-street':
+    case 'fifth-street':
+    case 'sixth-street':
+      dealStudStreet(gameState, STUD_STREETS[STUD_STREETS.indexOf(gameState.phase) + 1]);
+      break;
     case 'river':
+    case 'seventh-street':
       gameState.phase = 'showdown';
       // Automatically determine winner at showdown
       determineWinner(gameState);
@@ -427,22 +1187,29 @@ function advancePhase(gameState: GameState): void {
       break;
   }
 
-  // Set active player (big blind acts first post-flop)
+  // Set active player (first seat left of the dealer acts post-flop, the best showing hand in Stud)
   if (gameState.phase !== 'complete' && gameState.phase !== 'showdown') {
     gameState.activePlayerIndex = getFirstToActPostFlop(gameState);
   }
 }
 
 /**
- * Check if all remaining players are all-in and auto-advance to showdown
+ * Check if no more betting is possible and auto-advance to showdown
  */
 function autoAdvanceIfAllIn(gameState: GameState): void {
   const activePlayers = gameState.players.filter(p => !p.folded);
-  const allPlayersAllIn = activePlayers.every(p => p.allIn);
+  const playersAbleToBet = activePlayers.filter(p => !p.allIn);
   
-  if (allPlayersAllIn && gameState.phase !== 'complete' && gameState.phase !== 'showdown') {
-    // Auto-advance through all remaining phases since no more betting is possible
+  if (activePlayers.length > 1 && playersAbleToBet.length <= 1 &&
+      gameState.phase !== 'complete' && gameState.phase !== 'showdown') {
     // Auto-advance through all remaining phases since no more betting is possible
+    if (isStud(gameState.config.variant)) {
+      STUD_STREETS.slice(STUD_STREETS.indexOf(gameState.phase as StudStreet) + 1)
+        .forEach(street => dealStudStreet(gameState, street));
+      gameState.phase = 'showdown';
+      determineWinner(gameState);
+      return;
+    }
     if (gameState.phase === 'preflop') {
       dealFlop(gameState);
       gameState.phase = 'flop';
@@ -469,6 +1236,7 @@ function dealFlop(gameState: GameState): void {
   const { drawnCards, remainingDeck } = drawCards(gameState.deck, 3);
   gameState.communityCards = drawnCards;
   gameState.deck = remainingDeck;
+  recordEvent(gameState, { type: 'board', street: 'flop', cards: drawnCards.map(cardToString) });
 }
 
 /**
@@ -478,6 +1246,7 @@ function dealTurn(gameState: GameState): void {
   const { drawnCards, remainingDeck } = drawCards(gameState.deck, 1);
   gameState.communityCards.push(drawnCards[0]);
   gameState.deck = remainingDeck;
+  recordEvent(gameState, { type: 'board', street: 'turn', cards: drawnCards.map(cardToString) });
 }
 
 /**
@@ -487,134 +1256,381 @@ function dealRiver(gameState: GameState): void {
   const { drawnCards, remainingDeck } = drawCards(gameState.deck, 1);
   gameState.communityCards.push(drawnCards[0]);
   gameState.deck = remainingDeck;
+  recordEvent(gameState, { type: 'board', street: 'river', cards: drawnCards.map(cardToString) });
 }
 
 /**
- * Get first player to act post-flop (big blind position)
+ * Deal a Stud street to every player still in the hand, in seat order: down cards join their
+ * hole cards and up cards are shown to the table
+ */
+function dealStudStreet(gameState: GameState, street: StudStreet): void {
+  gameState.phase = street;
+  recordEvent(gameState, { type: 'street', street });
+
+  // Players are replaced rather than changed, since earlier states may share them
+  gameState.players = gameState.players.map(player => {
+    if (player.folded) return player;
+    const faceUp = studStreetCards(street);
+    const { drawnCards, remainingDeck } = drawCards(gameState.deck, faceUp.length);
+    gameState.deck = remainingDeck;
+
+    const downCards = drawnCards.filter((_, index) => !faceUp[index]);
+    const upCards = drawnCards.filter((_, index) => faceUp[index]);
+    if (downCards.length > 0) {
+      recordEvent(gameState, { type: 'deal', playerId: player.id, cards: downCards.map(cardToString) });
+    }
+    upCards.forEach(card => recordEvent(gameState, { type: 'upcard', playerId: player.id, card: cardToString(card) }));
+    return { ...player, holeCards: [...player.holeCards, ...downCards], upCards: [...player.upCards, ...upCards] };
+  });
+}
+
+/**
+ * Get first player to act post-flop (first active seat left of the dealer). In Stud the best
+ * hand showing acts first, the seat nearest the dealer's left on a tie.
  */
 function getFirstToActPostFlop(gameState: GameState): number {
-  // In heads-up, big blind (non-dealer) acts first post-flop
-  const bigBlindIndex = (gameState.dealerIndex + 1) % 2;
-  
-  // If big blind can act, they go first
-  if (!gameState.players[bigBlindIndex].folded && !gameState.players[bigBlindIndex].allIn) {
-    return bigBlindIndex;
-  }
-  
-  // Otherwise, the small blind (dealer) acts
-  const smallBlindIndex = gameState.dealerIndex;
-  if (!gameState.players[smallBlindIndex].folded && !gameState.players[smallBlindIndex].allIn) {
-    return smallBlindIndex;
+  if (isStud(gameState.config.variant)) {
+    let best = -1;
+    for (let offset = 1; offset <= gameState.players.length; offset++) {
+      const index = (gameState.dealerIndex + offset) % gameState.players.length;
+      const player = gameState.players[index];
+      if (!player.folded && !player.allIn &&
+          (best === -1 || compareShowingHands(player.upCards, gameState.players[best].upCards) < 0)) {
+        best = index;
+      }
+    }
+    if (best !== -1) {
+      return best;
+    }
   }
-  
-  return bigBlindIndex; // Fallback
+
+  // Heads-up this is the big blind, since the dealer posts the small blind
+  return getNextActivePlayer(gameState, gameState.dealerIndex);
 }
 
 /**
  * Determine winner at showdown
  */
 export function determineWinner(gameState: GameState): void {
+  const tableChips = countTableChips(gameState);
+  awardPots(gameState);
+  assertChipsConserved(gameState, tableChips, 'awarding the pot');
+}
+
+/**
+ * Award the pot to the last player standing, or each pot to its best hands (and lows)
+ */
+function awardPots(gameState: GameState): void {
   const activePlayers = gameState.players.filter(p => !p.folded);
   
   if (activePlayers.length === 1) {
     const winnerIndex = gameState.players.findIndex(p => !p.folded);
     gameState.winner = winnerIndex;
     gameState.winnerReason = 'opponent folded';
+    returnUncalledBet(gameState);
+    recordEvent(gameState, { type: 'collect', playerId: gameState.players[winnerIndex].id, amount: gameState.pot, potIndex: 0 });
     gameState.players[winnerIndex].chips += gameState.pot;
+    gameState.winners = [{ playerIndex: winnerIndex, playerId: gameState.players[winnerIndex].id, amount: gameState.pot }];
     
     // Reset betting state after completion
     gameState.pot = 0;
+    gameState.pots = [];
     gameState.currentBet = 0;
     gameState.players.forEach(p => p.currentBet = 0);
     
     gameState.phase = 'complete';
+    finishHandHistory(gameState);
     return;
   }
 
-  // Evaluate hands
-  const handEvaluations = activePlayers.map(player => {
+  // Chips nobody called go back before the pots are contested
+  returnUncalledBet(gameState);
+  const pots = calculatePots(gameState.players);
+  const chipsBeforeAward = gameState.players.map(p => p.chips);
+  let mainPotShareholders: string[] = [];
+
+  // Evaluate hands, along with qualifying lows in hi-lo games
+  const hands = new Map<string, ShowdownHand>();
+  const lows = new Map<string, LowHandResult>();
+  const hiLo = isHiLo(gameState.config.variant);
+  const ranking = handRankingFor(gameState.config.variant);
+  activePlayers.forEach(player => {
     try {
-      const allCards = [...player.holeCards, ...gameState.communityCards];
-      const cardStrings = allCards.map(card => cardToString(card));
-      return evaluateHand(cardStrings);
+      const result = evaluateShowdownHand(gameState, player);
+      hands.set(player.id, result);
+      const low = hiLo ? evaluateShowdownLow(gameState, player) : null;
+      if (low) {
+        lows.set(player.id, low);
+      }
+      recordEvent(gameState, {
+        type: 'show',
+        playerId: player.id,
+        cards: player.holeCards.map(cardToString),
+        description: hiLo ? `${result.description}; ${low?.handDescription ?? 'no low'}` : result.description
+      });
     } catch (error) {
       console.error(`Error evaluating hand for player ${player.name}:`, error);
-      return undefined;
     }
   });
 
-  // Find best hand
-  const validEvaluations = handEvaluations.filter(e => e !== undefined);
-  
-  if (validEvaluations.length === 0) {
+  if (hands.size === 0) {
     return;
   }
-  
-  // In poker hand evaluation, lower handStrength values are better (0 = royal flush)
-  const bestHandValue = Math.min(...validEvaluations.map(evaluation => evaluation.handStrength));
-  const winners = activePlayers.filter((_, index) => 
-    handEvaluations[index] && handEvaluations[index].handStrength === bestHandValue
-  );
 
-  if (winners.length === 1) {
-    // Single winner
-    const winnerIndex = gameState.players.findIndex(p => p.id === winners[0].id);
-    gameState.winner = winnerIndex;
-    gameState.winnerReason = 'best hand';
-    gameState.players[winnerIndex].chips += gameState.pot;
-  } else {
-    // Split pot
-    const potShare = Math.floor(gameState.pot / winners.length);
-    winners.forEach(winner => {
-      const winnerIndex = gameState.players.findIndex(p => p.id === winner.id);
-      gameState.players[winnerIndex].chips += potShare;
-    });
-    gameState.winnerReason = 'split pot';
-  }
+  // Award each pot independently to the best hand among its eligible players
+  pots.forEach((pot, potIndex) => {
+    const contenders = pot.eligiblePlayerIds.filter(id => hands.has(id));
+    if (contenders.length === 0) {
+      return;
+    }
+
+    const bestHand = contenders
+      .map(id => hands.get(id)!)
+      .reduce((best, hand) => compareShowdownHands(hand, best, ranking) < 0 ? hand : best);
+    const potWinners = contenders.filter(id => compareShowdownHands(hands.get(id)!, bestHand, ranking) === 0);
+
+    const lowContenders = contenders.filter(id => lows.has(id));
+    const bestLow = lowContenders
+      .map(id => lows.get(id)!)
+      .reduce<LowHandResult | null>((best, low) => !best || compareLowHands(low, best) < 0 ? low : best, null);
+    const lowWinners = bestLow ? lowContenders.filter(id => compareLowHands(lows.get(id)!, bestLow) === 0) : [];
+
+    if (lowWinners.length > 0) {
+      // Half the pot goes to the best low (split again on a tie, quartering the pot) and
+      // the odd chip, if any, to the high half
+      const lowHalf = Math.floor(pot.amount / 2);
+      awardChips(gameState, pot.amount - lowHalf, potWinners, potIndex);
+      awardChips(gameState, lowHalf, lowWinners, potIndex);
+    } else {
+      awardChips(gameState, pot.amount, potWinners, potIndex);
+    }
+
+    if (potIndex === 0) {
+      mainPotShareholders = Array.from(new Set([...potWinners, ...lowWinners]));
+    }
+  });
+
+  // Everyone who collected is listed; the main pot decides the reported result
+  gameState.winners = gameState.players
+    .map((player, playerIndex) => ({ playerIndex, playerId: player.id, amount: player.chips - chipsBeforeAward[playerIndex] }))
+    .filter(winner => winner.amount > 0)
+    .sort((a, b) => b.amount - a.amount || seatsLeftOfButton(gameState, a.playerIndex) - seatsLeftOfButton(gameState, b.playerIndex));
+  gameState.winner = gameState.winners.find(winner => mainPotShareholders.includes(winner.playerId))?.playerIndex;
+  gameState.winnerReason = mainPotShareholders.length === 1 ? 'best hand' : 'split pot';
 
   // Reset betting state after completion
   gameState.pot = 0;
+  gameState.pots = [];
   gameState.currentBet = 0;
   gameState.players.forEach(p => p.currentBet = 0);
 
   gameState.phase = 'complete';
+  finishHandHistory(gameState);
+}
+
+// A player's best high hand at showdown: what it ranks by and how the hand history describes it
+interface ShowdownHand {
+  strength: number; // Lookup-table strength, which orders standard-ranked hands on its own
+  description: string;
+  result?: HandEvalResult; // The full evaluation, kept for compareHands in Short Deck
+}
+
+/**
+ * Best hand a player makes with the board: any five of their seven cards in Hold'em and Stud
+ * (ranked the Short Deck way in 6+), exactly two hole cards and three board cards in Omaha.
+ * Hold'em and Stud hands are ranked and described straight from the lookup tables.
+ */
+function evaluateShowdownHand(gameState: GameState, player: Player): ShowdownHand {
+  const holeCards = [...player.holeCards, ...player.upCards].map(cardToString);
+  const board = gameState.communityCards.map(cardToString);
+  if (isOmaha(gameState.config.variant)) {
+    const result = evaluateOmahaHand(holeCards, board);
+    return { strength: result.handStrength, description: result.handDescription, result };
+  }
+
+  const cards = [...holeCards, ...board];
+  if (handRankingFor(gameState.config.variant) === 'short-deck') {
+    const result = evaluateHand(cards, 'short-deck');
+    return { strength: result.handStrength, description: result.handDescription, result };
+  }
+  const strength = evaluate7(encodeCards(cards));
+  return { strength, description: describeHandStrength(strength) };
+}
+
+function compareShowdownHands(a: ShowdownHand, b: ShowdownHand, ranking: HandRanking): number {
+  return ranking === 'standard' ? a.strength - b.strength : compareHands(a.result!, b.result!, ranking);
+}
+
+/**
+ * Eight-or-better low a player makes with the board, or null when they have none
+ */
+function evaluateShowdownLow(gameState: GameState, player: Player): LowHandResult | null {
+  const holeCards = [...player.holeCards, ...player.upCards].map(cardToString);
+  const board = gameState.communityCards.map(cardToString);
+  return isOmaha(gameState.config.variant)
+    ? evaluateOmahaLow(holeCards, board)
+    : evaluateEightOrBetterLow([...holeCards, ...board]);
+}
+
+/**
+ * Split chips evenly between winners. Chips that do not divide evenly go one at a time to
+ * the winners closest to the left of the button.
+ */
+function awardChips(gameState: GameState, amount: number, winnerIds: string[], potIndex: number): void {
+  const seatsFromButton = (id: string) => seatsLeftOfButton(gameState, gameState.players.findIndex(p => p.id === id));
+  const ordered = [...winnerIds].sort((a, b) => seatsFromButton(a) - seatsFromButton(b));
+
+  const share = Math.floor(amount / ordered.length);
+  const oddChips = amount - share * ordered.length;
+  ordered.forEach((winnerId, index) => {
+    const won = share + (index < oddChips ? 1 : 0);
+    gameState.players.find(p => p.id === winnerId)!.chips += won;
+    recordEvent(gameState, { type: 'collect', playerId: winnerId, amount: won, potIndex });
+  });
+}
+
+// Seats from the first seat left of the button (0) round to the button itself
+function seatsLeftOfButton(gameState: GameState, playerIndex: number): number {
+  const seatCount = gameState.players.length;
+  return (playerIndex - gameState.dealerIndex - 1 + seatCount) % seatCount;
 }
 
 /**
- * Start a new hand after the current one is complete
+ * Start a new hand after the current one is complete, optionally from a prepared deck as in dealNewHand
  */
-export function startNewHand(gameState: GameState): GameState {
+export function startNewHand(gameState: GameState, preparedDeck?: Card[], now: number = Date.now()): GameState {
   if (gameState.phase !== 'complete') {
     throw new Error('Cannot start new hand: current hand is not complete');
   }
 
-  // Check if players have enough chips to continue
-  const playersWithChips = gameState.players.filter(p => p.chips >= BIG_BLIND);
+  // Check if players have enough chips to continue, counting chips bought in for the next hand
+  const playersWithChips = gameState.players.filter(p => p.chips + p.pendingChips >= gameState.config.bigBlind);
   if (playersWithChips.length < 2) {
     throw new Error('Not enough players have chips to continue');
   }
 
   // Reset game state and automatically deal new hand
+  const remaining = removeSatOutPlayers(gameState);
   const resetState = {
-    ...gameState,
+    ...remaining,
     communityCards: [] as Card[],
     pot: 0,
+    pots: [],
     currentBet: 0,
     activePlayerIndex: -1,
     phase: 'waiting' as const,
     winner: undefined,
     winnerReason: undefined,
-    deck: createDeck(),
-    playersActed: [false, false],
-    players: gameState.players.map(player => ({
+    winners: undefined,
+    deck: createDeck(deckTypeFor(gameState.config.variant)),
+    playersActed: remaining.players.map(() => false),
+    players: remaining.players.map(player => ({
       ...player,
       holeCards: [] as Card[],
+      upCards: [] as Card[],
       currentBet: 0,
+      totalBet: 0,
       folded: false,
       allIn: false
     }))
   };
 
   // Automatically deal the new hand
-  return dealNewHand(resetState);
+  return dealNewHand(resetState, preparedDeck, now);
+}
+
+/**
+ * Remove players who have sat out maxHandsSatOut hands in a row, keeping the button in place
+ */
+export function removeSatOutPlayers(gameState: GameState): GameState {
+  const { maxHandsSatOut } = gameState.config;
+  const isRemoved = (player: Player) => maxHandsSatOut > 0 && player.sittingOut && player.handsSatOut >= maxHandsSatOut;
+  if (!gameState.players.some(isRemoved)) {
+    return gameState;
+  }
+
+  // A removed dealer leaves the button with the seat before, so it still moves on to the next seat
+  const removedUpToDealer = gameState.players.slice(0, gameState.dealerIndex + 1).filter(isRemoved).length;
+
+  return {
+    ...gameState,
+    players: gameState.players.filter(player => !isRemoved(player)),
+    dealerIndex: gameState.dealerIndex - removedUpToDealer
+  };
+}
+
+/**
+ * Deal a player out of future hands. A player still in the current hand plays it out.
+ */
+export function sitOut(gameState: GameState, playerId: string): PlayerActionResult {
+  const player = gameState.players.find(p => p.id === playerId);
+  if (!player) {
+    return { success: false, gameState, error: 'Player not found' };
+  }
+  if (player.sittingOut) {
+    return { success: false, gameState, error: 'Player is already sitting out' };
+  }
+
+  return {
+    success: true,
+    gameState: {
+      ...gameState,
+      players: gameState.players.map(p => p.id === playerId ? { ...p, sittingOut: true, handsSatOut: 0 } : p)
+    }
+  };
+}
+
+/**
+ * Deal a sitting-out player back in from the next hand, when they post any blinds they missed
+ */
+export function sitIn(gameState: GameState, playerId: string): PlayerActionResult {
+  const player = gameState.players.find(p => p.id === playerId);
+  if (!player) {
+    return { success: false, gameState, error: 'Player not found' };
+  }
+  if (!player.sittingOut) {
+    return { success: false, gameState, error: 'Player is not sitting out' };
+  }
+  if (player.chips + player.pendingChips <= 0) {
+    return { success: false, gameState, error: 'Player has no chips' };
+  }
+
+  return {
+    success: true,
+    gameState: {
+      ...gameState,
+      players: gameState.players.map(p => p.id === playerId ? { ...p, sittingOut: false, handsSatOut: 0 } : p)
+    }
+  };
+}
+
+/**
+ * Buy more chips (a rebuy after busting, or a top-up). The chips join the player's stack when the
+ * next hand is dealt, and the stack they make must be within the table's buy-in range.
+ */
+export function addChips(gameState: GameState, playerId: string, amount: number): PlayerActionResult {
+  const player = gameState.players.find(p => p.id === playerId);
+  if (!player) {
+    return { success: false, gameState, error: 'Player not found' };
+  }
+  if (!Number.isInteger(amount) || amount <= 0) {
+    return { success: false, gameState, error: 'Amount must be a positive whole number of chips' };
+  }
+
+  const { minBuyIn, maxBuyIn } = gameState.config;
+  const newStack = player.chips + player.pendingChips + amount;
+  if (newStack > maxBuyIn) {
+    return { success: false, gameState, error: `Stack cannot exceed the maximum buy-in of $${maxBuyIn}` };
+  }
+  if (newStack < minBuyIn) {
+    return { success: false, gameState, error: `Stack must reach the minimum buy-in of $${minBuyIn}` };
+  }
+
+  return {
+    success: true,
+    gameState: {
+      ...gameState,
+      players: gameState.players.map(p => p.id === playerId ? { ...p, pendingChips: p.pendingChips + amount } : p)
+    }
+  };
 }
\ No newline at end of file
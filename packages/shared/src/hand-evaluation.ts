@@ -1,9 +1,11 @@
 /**
  * High-performance poker hand evaluation
- * Based on lookup table approach for sub-microsecond evaluation
+ * Hand strengths come from the lookup tables in hand-lookup (sub-microsecond per hand); this
+ * module adds the names, kickers and card order for display
  */
 
 import { stringToCard } from './cards';
+import { evaluate7, encodeCards } from './hand-lookup';
 
 export enum HandRank {
   HighCard = 0,
@@ -18,10 +20,13 @@ export enum HandRank {
   RoyalFlush = 9
 }
 
+// Short Deck (6+) ranks a flush above a full house and plays A-6-7-8-9 as the lowest straight
+export type HandRanking = 'standard' | 'short-deck';
+
 export interface HandEvalResult {
   handRank: HandRank;
   handRankName: string;
-  handStrength: number; // 0-7462 (lower is better)
+  handStrength: number; // 0-7461 (lower is better; equal strengths tie) for the standard ranking
   kickers: string[];
   handDescription: string;
   cards: string[]; // Ordered by contribution to hand
@@ -71,8 +76,13 @@ function rankToString(rank: number): string {
   return rankMap[rank];
 }
 
+// Rank the ace plays as at the bottom of the lowest straight (A-2-3-4-5, or A-6-7-8-9 short deck)
+function lowAceRank(ranking: HandRanking): number {
+  return ranking === 'short-deck' ? 5 : 1;
+}
+
 // Check if cards form a straight
-function isStraight(ranks: number[]): { isStraight: boolean; highCard: number; isWheel: boolean } {
+function isStraight(ranks: number[], ranking: HandRanking): { isStraight: boolean; highCard: number; isWheel: boolean } {
   const sortedRanks = [...ranks].sort((a, b) => b - a);
   
   // Check for regular straight
@@ -86,11 +96,12 @@ function isStraight(ranks: number[]): { isStraight: boolean; highCard: number; i
     }
   }
   
-  // Check for wheel (A-2-3-4-5)
-  if (sortedRanks.includes(14) && sortedRanks.includes(5) && 
-      sortedRanks.includes(4) && sortedRanks.includes(3) && 
-      sortedRanks.includes(2)) {
-    return { isStraight: true, highCard: 5, isWheel: true };
+  // Check for wheel (A-2-3-4-5, or A-6-7-8-9 short deck)
+  const wheelHigh = lowAceRank(ranking) + 4;
+  if (sortedRanks.includes(14) && sortedRanks.includes(wheelHigh) && 
+      sortedRanks.includes(wheelHigh - 1) && sortedRanks.includes(wheelHigh - 2) && 
+      sortedRanks.includes(wheelHigh - 3)) {
+    return { isStraight: true, highCard: wheelHigh, isWheel: true };
   }
   
   return { isStraight: false, highCard: 0, isWheel: false };
@@ -115,33 +126,80 @@ function getRankCounts(ranks: number[]): Map<number, number> {
   return counts;
 }
 
-// Get best 5 cards from 5-7 cards
-function getBest5Cards(cardValues: number[]): number[] {
+// Get best 5 cards from 5-7 cards, trying each hand category from the top down
+function getBest5Cards(cardValues: number[], ranking: HandRanking): number[] {
   if (cardValues.length === 5) {
     return cardValues;
   }
   
-  // For 6 or 7 cards, we need to find the best 5-card poker hand
-  // This is a simplified version - in production, we'd check all combinations
+  const byRank = [...cardValues].sort((a, b) => getRank(b) - getRank(a));
+  const without = (used: number[]) => byRank.filter(card => !used.includes(card));
   
-  // Check for flush first (need exactly 5 of same suit)
+  // Flush cards (need 5 of the same suit), highest first
   const suitCounts = [0, 0, 0, 0];
   cardValues.forEach(card => suitCounts[getSuit(card)]++);
-  
   const flushSuit = suitCounts.findIndex(count => count >= 5);
-  if (flushSuit !== -1) {
-    // Return 5 highest cards of flush suit
-    const flushCards = cardValues
-      .filter(card => getSuit(card) === flushSuit)
-      .sort((a, b) => getRank(b) - getRank(a))
-      .slice(0, 5);
-    return flushCards;
+  const flushCards = byRank.filter(card => getSuit(card) === flushSuit);
+  
+  const straightFlush = flushCards.length >= 5 ? findStraight(flushCards, ranking) : null;
+  if (straightFlush) {
+    return straightFlush;
+  }
+  
+  // Cards grouped by rank, largest groups first, then highest rank
+  const groups = Array.from(getRankCounts(byRank.map(getRank)).keys())
+    .map(rank => byRank.filter(card => getRank(card) === rank))
+    .sort((a, b) => b.length - a.length || getRank(b[0]) - getRank(a[0]));
+  const [first, second] = groups;
+  
+  if (first.length === 4) {
+    return [...first, ...without(first).slice(0, 1)];
+  }
+  
+  const fullHouse = first.length === 3 && second?.length >= 2 ? [...first, ...second.slice(0, 2)] : null;
+  const flush = flushCards.length >= 5 ? flushCards.slice(0, 5) : null;
+  const [higher, lower] = ranking === 'short-deck' ? [flush, fullHouse] : [fullHouse, flush];
+  if (higher || lower) {
+    return (higher ?? lower)!;
   }
   
-  // Otherwise, return 5 highest cards (simplified)
-  return cardValues
-    .sort((a, b) => getRank(b) - getRank(a))
-    .slice(0, 5);
+  const straight = findStraight(byRank, ranking);
+  if (straight) {
+    return straight;
+  }
+  
+  if (first.length === 3) {
+    return [...first, ...without(first).slice(0, 2)];
+  }
+  if (first.length === 2 && second?.length === 2) {
+    return [...first, ...second, ...without([...first, ...second]).slice(0, 1)];
+  }
+  if (first.length === 2) {
+    return [...first, ...without(first).slice(0, 3)];
+  }
+  return byRank.slice(0, 5);
+}
+
+// Highest five-card straight among the cards, or null if there is none
+function findStraight(cardValues: number[], ranking: HandRanking): number[] | null {
+  const cardByRank = new Map<number, number>();
+  cardValues.forEach(card => {
+    if (!cardByRank.has(getRank(card))) {
+      cardByRank.set(getRank(card), card);
+    }
+  });
+  const ace = cardByRank.get(14);
+  if (ace !== undefined) {
+    cardByRank.set(lowAceRank(ranking), ace);
+  }
+  
+  for (let high = 14; high >= lowAceRank(ranking) + 4; high--) {
+    const run = [high, high - 1, high - 2, high - 3, high - 4];
+    if (run.every(rank => cardByRank.has(rank))) {
+      return run.map(rank => cardByRank.get(rank)!);
+    }
+  }
+  return null;
 }
 
 // Convert card values back to strings
@@ -155,9 +213,8 @@ function cardValuesToStrings(cardValues: number[]): string[] {
   });
 }
 
-// Main hand evaluation function
-export function evaluateHand(cardStrings: string[]): HandEvalResult {
-  // Input validation
+// Check a hand of 5-7 distinct, well-formed cards
+function validateCards(cardStrings: string[]): void {
   if (cardStrings.length < 5 || cardStrings.length > 7) {
     throw new Error(`Invalid number of cards: ${cardStrings.length}. Must be 5-7 cards.`);
   }
@@ -176,18 +233,26 @@ export function evaluateHand(cardStrings: string[]): HandEvalResult {
       throw new Error(`Invalid card format: ${cardStr}`);
     }
   });
+}
+
+// Main hand evaluation function
+export function evaluateHand(cardStrings: string[], ranking: HandRanking = 'standard'): HandEvalResult {
+  validateCards(cardStrings);
+  if (ranking === 'short-deck' && cardStrings.some(cardStr => stringToCard(cardStr).value < 6)) {
+    throw new Error('Short deck hands cannot contain twos through fives');
+  }
   
   // Convert to numeric values
   const cardValues = cardStrings.map(cardToValue);
   
   // Get best 5 cards
-  const best5Cards = getBest5Cards(cardValues);
+  const best5Cards = getBest5Cards(cardValues, ranking);
   const ranks = best5Cards.map(getRank);
   const suits = best5Cards.map(getSuit);
   
   // Check for flush and straight
   const flushResult = isFlush(suits);
-  const straightResult = isStraight(ranks);
+  const straightResult = isStraight(ranks, ranking);
   
   // Count rank occurrences
   const rankCounts = getRankCounts(ranks);
@@ -316,9 +381,216 @@ export function evaluateHand(cardStrings: string[]): HandEvalResult {
     handRank,
     // eslint-disable-next-line security/detect-object-injection
     handRankName: HAND_RANK_NAMES[handRank],
-    handStrength,
+    // Short deck keeps the category-and-kicker estimate; compareHands orders those hands
+    handStrength: ranking === 'standard' ? evaluate7(encodeCards(cardStrings)) : handStrength,
     kickers,
     handDescription,
     cards: orderedCards
   };
-}
\ No newline at end of file
+}
+
+/**
+ * Order two evaluated hands: negative when `a` is the stronger hand, positive when `b` is,
+ * and 0 when they tie. Standard hands compare their lookup-table strengths. Short deck ties on
+ * hand rank are broken by the ranks of the five cards in order of contribution, with straights
+ * compared on their top card (nine for A-6-7-8-9).
+ */
+export function compareHands(a: HandEvalResult, b: HandEvalResult, ranking: HandRanking = 'standard'): number {
+  if (ranking === 'standard') {
+    return a.handStrength - b.handStrength;
+  }
+
+  // Short deck slots the flush in between the full house and four of a kind
+  const categoryOf = (result: HandEvalResult) =>
+    result.handRank === HandRank.Flush ? HandRank.FullHouse + 0.5 : result.handRank;
+  if (categoryOf(a) !== categoryOf(b)) {
+    return categoryOf(b) - categoryOf(a);
+  }
+
+  const ranksA = tiebreakRanks(a);
+  const ranksB = tiebreakRanks(b);
+  for (let i = 0; i < ranksA.length; i++) {
+    // eslint-disable-next-line security/detect-object-injection
+    const difference = ranksB[i] - ranksA[i];
+    if (difference !== 0) {
+      return difference;
+    }
+  }
+  return 0;
+}
+
+function tiebreakRanks(result: HandEvalResult): number[] {
+  const ranks = result.cards.map(card => stringToCard(card).value);
+  const straight = result.handRank === HandRank.Straight ||
+    result.handRank === HandRank.StraightFlush ||
+    result.handRank === HandRank.RoyalFlush;
+  if (straight) {
+    // An ace-high straight's second card is a king; otherwise the ace is playing low
+    return [ranks[0] === 14 && ranks[1] !== 13 ? ranks[1] : ranks[0]];
+  }
+  return ranks;
+}
+
+/**
+ * Evaluate an Omaha hand: the best five cards made from exactly two hole cards and
+ * exactly three board cards
+ */
+export function evaluateOmahaHand(holeCards: string[], board: string[]): HandEvalResult {
+  if (holeCards.length !== 4) {
+    throw new Error(`Invalid number of hole cards: ${holeCards.length}. Omaha hands have 4 hole cards.`);
+  }
+  if (board.length < 3 || board.length > 5) {
+    throw new Error(`Invalid number of board cards: ${board.length}. Must be 3-5 cards.`);
+  }
+
+  let best: HandEvalResult | undefined;
+  combinations(holeCards, 2).forEach(hole => {
+    combinations(board, 3).forEach(boardCards => {
+      const result = evaluateHand([...hole, ...boardCards]);
+      if (!best || compareHands(result, best) < 0) {
+        best = result;
+      }
+    });
+  });
+  return best!;
+}
+
+// Every way of choosing `size` cards, keeping their original order
+function combinations(cards: string[], size: number): string[][] {
+  if (size === 0) {
+    return [[]];
+  }
+  return cards.flatMap((card, index) =>
+    combinations(cards.slice(index + 1), size - 1).map(rest => [card, ...rest])
+  );
+}
+
+export type LowHandRule = 'ace-to-five' | 'deuce-to-seven';
+
+export interface LowHandResult {
+  rule: LowHandRule;
+  value: number[]; // Hand category then card ranks, compared in order (lower is better)
+  cards: string[]; // The five cards making the low, in the order the hand is read
+  handDescription: string;
+}
+
+/**
+ * Best ace-to-five low from 5-7 cards: aces play low and straights and flushes do not
+ * count, so A-2-3-4-5 is the best possible hand. Pairs count against the hand.
+ */
+export function evaluateAceToFiveLow(cardStrings: string[]): LowHandResult {
+  return evaluateLow(cardStrings, 'ace-to-five');
+}
+
+/**
+ * Best deuce-to-seven low from 5-7 cards: aces play high and straights and flushes count
+ * against the hand, so 7-5-4-3-2 offsuit is the best possible hand
+ */
+export function evaluateDeuceToSevenLow(cardStrings: string[]): LowHandResult {
+  return evaluateLow(cardStrings, 'deuce-to-seven');
+}
+
+/**
+ * Ace-to-five low good enough for the low half of a hi-lo pot: five unpaired cards, eight
+ * or lower. Returns null when the cards make no qualifying low.
+ */
+export function evaluateEightOrBetterLow(cardStrings: string[]): LowHandResult | null {
+  const low = evaluateAceToFiveLow(cardStrings);
+  return low.value[0] === HandRank.HighCard && low.value[1] <= 8 ? low : null;
+}
+
+/**
+ * Omaha eight-or-better low, made from exactly two hole cards and three board cards
+ */
+export function evaluateOmahaLow(holeCards: string[], board: string[]): LowHandResult | null {
+  if (holeCards.length !== 4) {
+    throw new Error(`Invalid number of hole cards: ${holeCards.length}. Omaha hands have 4 hole cards.`);
+  }
+  if (board.length < 3 || board.length > 5) {
+    throw new Error(`Invalid number of board cards: ${board.length}. Must be 3-5 cards.`);
+  }
+
+  let best: LowHandResult | null = null;
+  combinations(holeCards, 2).forEach(hole => {
+    combinations(board, 3).forEach(boardCards => {
+      const low = evaluateEightOrBetterLow([...hole, ...boardCards]);
+      if (low && (!best || compareLowHands(low, best) < 0)) {
+        best = low;
+      }
+    });
+  });
+  return best;
+}
+
+/**
+ * Order two lows of the same rule: negative when `a` is the better low, positive when `b`
+ * is, and 0 when they tie
+ */
+export function compareLowHands(a: LowHandResult, b: LowHandResult): number {
+  for (let i = 0; i < a.value.length; i++) {
+    // eslint-disable-next-line security/detect-object-injection
+    const difference = a.value[i] - b.value[i];
+    if (difference !== 0) {
+      return difference;
+    }
+  }
+  return 0;
+}
+
+function evaluateLow(cardStrings: string[], rule: LowHandRule): LowHandResult {
+  validateCards(cardStrings);
+
+  let best: LowHandResult | undefined;
+  combinations(cardStrings, 5).forEach(five => {
+    const low = evaluateLowFive(five, rule);
+    if (!best || compareLowHands(low, best) < 0) {
+      best = low;
+    }
+  });
+  return best!;
+}
+
+function evaluateLowFive(cardStrings: string[], rule: LowHandRule): LowHandResult {
+  const aceLow = rule === 'ace-to-five';
+  const cards = cardStrings.map(cardStr => {
+    const card = stringToCard(cardStr);
+    return { cardStr, rank: aceLow && card.value === 14 ? 1 : card.value, suit: card.suit };
+  });
+
+  // Paired cards are read first, so 3-3-8-6-4 loses to any unpaired low
+  const counts = getRankCounts(cards.map(card => card.rank));
+  cards.sort((a, b) => counts.get(b.rank)! - counts.get(a.rank)! || b.rank - a.rank);
+  const ranks = cards.map(card => card.rank);
+  const countValues = Array.from(counts.values()).sort((a, b) => b - a);
+
+  let category: HandRank;
+  if (countValues[0] === 4) {
+    category = HandRank.FourOfAKind;
+  } else if (countValues[0] === 3) {
+    category = countValues[1] === 2 ? HandRank.FullHouse : HandRank.ThreeOfAKind;
+  } else if (countValues[0] === 2) {
+    category = countValues[1] === 2 ? HandRank.TwoPair : HandRank.OnePair;
+  } else {
+    category = HandRank.HighCard;
+  }
+
+  // Only deuce-to-seven counts straights and flushes, with the ace always high
+  if (!aceLow && category === HandRank.HighCard) {
+    const straight = ranks[0] - ranks[4] === 4;
+    const flush = cards.every(card => card.suit === cards[0].suit);
+    if (straight && flush) {
+      category = HandRank.StraightFlush;
+    } else if (flush) {
+      category = HandRank.Flush;
+    } else if (straight) {
+      category = HandRank.Straight;
+    }
+  }
+
+  return {
+    rule,
+    value: [category, ...ranks],
+    cards: cards.map(card => card.cardStr),
+    handDescription: `${ranks.map(rank => rank === 1 ? 'A' : rankToString(rank)).join('-')} low`
+  };
+}
@@ -0,0 +1,269 @@
+/**
+ * Hand history records and PokerStars-style text export
+ */
+
+import type { TableConfig } from './game-state';
+import { pokerVariantName } from './poker-variants';
+import type { StudStreet } from './stud';
+
+export type HandHistoryBlind =
+  | 'ante'
+  | 'small blind'
+  | 'big blind'
+  | 'straddle'
+  | 'bring-in' // Forced opening bet by the lowest upcard in Seven-Card Stud
+  | 'missed small blind' // Dead, posted on returning from sitting out
+  | 'missed big blind'; // Live, posted on returning from sitting out
+
+export type HandHistoryStreet = 'flop' | 'turn' | 'river';
+
+export type HandHistoryEvent =
+  | { type: 'rebuy'; playerId: string; amount: number } // Rebuy or top-up added to the stack before the deal
+  | { type: 'post'; playerId: string; blind: HandHistoryBlind; amount: number }
+  | { type: 'deal'; playerId: string; cards: string[] } // Hole cards, or a stud player's down cards for the street
+  | {
+      type: 'action';
+      playerId: string;
+      action: 'fold' | 'check' | 'call' | 'bet' | 'raise';
+      amount: number; // Chips moved into the pot by this action
+      raiseTo?: number; // Total street bet after a bet or raise
+      allIn: boolean;
+    }
+  | { type: 'board'; street: HandHistoryStreet; cards: string[] }
+  | { type: 'street'; street: StudStreet } // A Seven-Card Stud street starts, before its cards are dealt
+  | { type: 'upcard'; playerId: string; card: string } // Stud card dealt face up on the current street
+  | { type: 'uncalled'; playerId: string; amount: number }
+  | { type: 'show'; playerId: string; cards: string[]; description: string }
+  | { type: 'collect'; playerId: string; amount: number; potIndex: number };
+
+export interface HandHistorySeat {
+  seat: number; // Index into GameState.players
+  playerId: string;
+  name: string;
+  chips: number; // Stack before antes and blinds, including any rebuy (0 if dealt out)
+}
+
+export interface HandHistory {
+  gameId: string;
+  handNumber: number;
+  startedAt: string;
+  endedAt?: string;
+  config: TableConfig;
+  dealerIndex: number;
+  seats: HandHistorySeat[];
+  events: HandHistoryEvent[]; // In the order they happened
+  totalPot?: number;
+  finalChips?: Record<string, number>; // Player id -> stack once the pot was awarded
+  shuffle?: { commitment: string; seed?: string }; // Seed is revealed when the hand completes
+}
+
+/**
+ * Copy of a hand history as a single player (or a spectator, with null) may see it:
+ * other players' hole cards are removed unless they were shown at showdown
+ */
+export function redactHandHistoryFor(history: HandHistory, playerId: string | null): HandHistory {
+  return {
+    ...history,
+    events: history.events.filter(event => event.type !== 'deal' || event.playerId === playerId)
+  };
+}
+
+/**
+ * Format a completed hand in the PokerStars text format understood by most tracking tools
+ */
+export function formatPokerStarsHandHistory(history: HandHistory): string {
+  const { config } = history;
+  const seatsById = new Map(history.seats.map(seat => [seat.playerId, seat]));
+  const nameOf = (playerId: string) => seatsById.get(playerId)?.name ?? playerId;
+  const seatedPlayers = history.seats.filter(seat => seat.chips > 0);
+
+  const lines: string[] = [];
+  lines.push(
+    `PokerStars Hand #${history.handNumber}: ${pokerVariantName(config.variant)} ${formatStructure(config)} ` +
+    `(${formatStakes(config)}) - ${formatTimestamp(history.startedAt)}`
+  );
+  lines.push(`Table '${history.gameId}' ${history.seats.length}-max Seat #${history.dealerIndex + 1} is the button`);
+  seatedPlayers.forEach(seat => {
+    lines.push(`Seat ${seat.seat + 1}: ${seat.name} ($${seat.chips} in chips)`);
+  });
+
+  // Street contributions are tracked so raises can be shown as "raises $X to $Y"
+  const streetBets = new Map<string, number>();
+  let currentBet = 0;
+  let board: string[] = [];
+  let street = 'Pre-Flop';
+  let holeCardsShown = false;
+  let showdownShown = false;
+  const potCount = Math.max(1, ...history.events.map(e => e.type === 'collect' ? e.potIndex + 1 : 0));
+  const foldedOn = new Map<string, string>();
+  const shown = new Map<string, { cards: string[]; description: string }>();
+  const collected = new Map<string, number>();
+
+  const startHoleCards = () => {
+    if (!holeCardsShown) {
+      lines.push('*** HOLE CARDS ***');
+      holeCardsShown = true;
+    }
+  };
+
+  history.events.forEach(event => {
+    const name = 'playerId' in event ? nameOf(event.playerId) : '';
+    switch (event.type) {
+      case 'post': {
+        lines.push(event.blind === 'bring-in'
+          ? `${name}: brings in for $${event.amount}`
+          : `${name}: posts ${formatBlind(event.blind)} $${event.amount}`);
+        if (event.blind !== 'ante' && event.blind !== 'missed small blind') {
+          const total = (streetBets.get(event.playerId) ?? 0) + event.amount;
+          streetBets.set(event.playerId, total);
+          currentBet = Math.max(currentBet, total);
+        }
+        break;
+      }
+      case 'deal':
+        startHoleCards();
+        lines.push(`Dealt to ${name} [${formatCards(event.cards)}]`);
+        break;
+      case 'upcard':
+        lines.push(`Dealt to ${name} [${formatCards([event.card])}]`);
+        break;
+      case 'street': {
+        // Stud streets take the place of the hole cards and board
+        const streetName = formatStudStreet(event.street);
+        lines.push(`*** ${streetName.toUpperCase()} ***`);
+        holeCardsShown = true;
+        street = `the ${streetName}`;
+        streetBets.clear();
+        currentBet = 0;
+        break;
+      }
+      case 'action': {
+        startHoleCards();
+        const allIn = event.allIn ? ' and is all-in' : '';
+        if (event.action === 'fold') {
+          lines.push(`${name}: folds`);
+          foldedOn.set(event.playerId, street);
+        } else if (event.action === 'check') {
+          lines.push(`${name}: checks`);
+        } else if (event.action === 'call') {
+          lines.push(`${name}: calls $${event.amount}${allIn}`);
+          streetBets.set(event.playerId, (streetBets.get(event.playerId) ?? 0) + event.amount);
+        } else {
+          const raiseTo = event.raiseTo ?? event.amount;
+          lines.push(event.action === 'bet'
+            ? `${name}: bets $${raiseTo}${allIn}`
+            : `${name}: raises $${raiseTo - currentBet} to $${raiseTo}${allIn}`);
+          streetBets.set(event.playerId, raiseTo);
+          currentBet = Math.max(currentBet, raiseTo);
+        }
+        break;
+      }
+      case 'board': {
+        startHoleCards();
+        const previous = board.length > 0 ? ` [${formatCards(board)}]` : '';
+        lines.push(`*** ${event.street.toUpperCase()} ***${previous} [${formatCards(event.cards)}]`);
+        board = [...board, ...event.cards];
+        street = event.street === 'flop' ? 'the Flop' : event.street === 'turn' ? 'the Turn' : 'the River';
+        streetBets.clear();
+        currentBet = 0;
+        break;
+      }
+      case 'uncalled':
+        lines.push(`Uncalled bet ($${event.amount}) returned to ${name}`);
+        break;
+      case 'show':
+        if (!showdownShown) {
+          lines.push('*** SHOW DOWN ***');
+          showdownShown = true;
+        }
+        lines.push(`${name}: shows [${formatCards(event.cards)}] (${event.description})`);
+        shown.set(event.playerId, { cards: event.cards, description: event.description });
+        break;
+      case 'collect': {
+        const potName = potCount === 1 ? 'pot' : event.potIndex === 0 ? 'main pot' : `side pot-${event.potIndex}`;
+        lines.push(`${name} collected $${event.amount} from ${potName}`);
+        collected.set(event.playerId, (collected.get(event.playerId) ?? 0) + event.amount);
+        break;
+      }
+    }
+  });
+
+  lines.push('*** SUMMARY ***');
+  lines.push(`Total pot $${history.totalPot ?? 0} | Rake $0`);
+  if (board.length > 0) {
+    lines.push(`Board [${formatCards(board)}]`);
+  }
+  seatedPlayers.forEach(seat => {
+    const position = seat.seat === history.dealerIndex ? ' (button)' : '';
+    const won = collected.get(seat.playerId);
+    const showing = shown.get(seat.playerId);
+    const folded = foldedOn.get(seat.playerId);
+
+    let outcome: string;
+    if (folded) {
+      outcome = `folded ${folded === 'Pre-Flop' ? 'before Flop' : `on ${folded}`}`;
+    } else if (showing) {
+      outcome = `showed [${formatCards(showing.cards)}] and ` +
+        (won ? `won ($${won}) with ${showing.description}` : `lost with ${showing.description}`);
+    } else {
+      outcome = won ? `collected ($${won})` : 'mucked';
+    }
+    lines.push(`Seat ${seat.seat + 1}: ${seat.name}${position} ${outcome}`);
+  });
+
+  return lines.join('\n');
+}
+
+/**
+ * Format several hands as one session file, separated by blank lines like PokerStars does
+ */
+export function formatPokerStarsSession(histories: HandHistory[]): string {
+  return histories.map(formatPokerStarsHandHistory).join('\n\n\n');
+}
+
+function formatStructure(config: TableConfig): string {
+  switch (config.bettingStructure) {
+    case 'pot-limit': return 'Pot Limit';
+    case 'fixed-limit': return 'Limit';
+    default: return 'No Limit';
+  }
+}
+
+// Limit games are described by their small and big bet rather than the blinds
+function formatStakes(config: TableConfig): string {
+  return config.bettingStructure === 'fixed-limit'
+    ? `$${config.bigBlind}/$${config.bigBlind * 2}`
+    : `$${config.smallBlind}/$${config.bigBlind}`;
+}
+
+// Blinds made up after sitting out are written as the ordinary blinds
+function formatBlind(blind: HandHistoryBlind): string {
+  switch (blind) {
+    case 'ante': return 'the ante';
+    case 'missed small blind': return 'small blind';
+    case 'missed big blind': return 'big blind';
+    default: return blind;
+  }
+}
+
+function formatStudStreet(street: StudStreet): string {
+  switch (street) {
+    case 'third-street': return '3rd Street';
+    case 'fourth-street': return '4th Street';
+    case 'fifth-street': return '5th Street';
+    case 'sixth-street': return '6th Street';
+    default: return '7th Street';
+  }
+}
+
+function formatTimestamp(isoTimestamp: string): string {
+  const date = new Date(isoTimestamp);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getUTCFullYear()}/${pad(date.getUTCMonth() + 1)}/${pad(date.getUTCDate())} ` +
+    `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())} UTC`;
+}
+
+// Our card strings spell tens as "10"; hand history formats use "T"
+function formatCards(cards: string[]): string {
+  return cards.map(card => card.replace(/^10/, 'T')).join(' ');
+}
@@ -0,0 +1,316 @@
+/**
+ * Lookup-table hand evaluation on integer card codes: a flush table indexed by the suit's rank
+ * bits and a perfect hash of the rank counts for everything else
+ */
+/* eslint-disable security/detect-object-injection */
+
+import { stringToCard } from './cards';
+import { HandRank } from './hand-evaluation';
+
+// Card code = rank index (0 = deuce ... 12 = ace) * 4 + suit (hearts, diamonds, clubs, spades)
+const SUIT_CODES = { hearts: 0, diamonds: 1, clubs: 2, spades: 3 };
+
+// Number of distinct five-card hands; strengths run from 0 (royal flush) to 7461 (7-5-4-3-2)
+export const HAND_STRENGTH_CLASSES = 7462;
+
+const RANK_COUNT = 13;
+const MAX_SAME_RANK = 4;
+const MIN_CARDS = 5;
+const MAX_CARDS = 7;
+
+// Filled in by buildTables on first use
+let flushTable: Uint16Array; // Strength of the best flush or straight flush, by the suit's rank bits
+let unsuitedTable: Uint16Array; // Strength of the best non-flush hand, by card-count base plus rank-count hash
+let unsuitedBases: Uint32Array; // Where each card count's hands start in the unsuited table
+let hashOffsets: Uint32Array; // Hash contribution of each (rank, cards still to place, count)
+let categories: Uint8Array; // Hand category of each strength
+let scores: Uint32Array; // Category and deciding ranks of each strength, for describing it
+
+// Rank names by rank index, as evaluateHand writes them in descriptions
+const RANK_NAMES = ['2', '3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K', 'A'];
+const WHEEL_HIGH = 3; // The five tops A-2-3-4-5
+const ACE = 12;
+
+// Scratch space reused by every evaluation, so the fast path allocates nothing
+const rankCounts = new Uint8Array(RANK_COUNT);
+
+/**
+ * Encode a card string ("Ah", "10c") as a card code
+ */
+export function encodeCard(cardStr: string): number {
+  const card = stringToCard(cardStr);
+  return (card.value - 2) * 4 + SUIT_CODES[card.suit];
+}
+
+export function encodeCards(cardStrings: string[]): Uint8Array {
+  return Uint8Array.from(cardStrings.map(encodeCard));
+}
+
+/**
+ * Strength of the best five-card hand in five to seven distinct card codes: 0 for a royal
+ * flush up to 7461 for the worst high card, so lower is better and equal strengths tie. The
+ * codes are not checked; validate untrusted cards with evaluateHand.
+ */
+export function evaluate7(cards: Uint8Array): number {
+  if (!flushTable) {
+    buildTables();
+  }
+
+  for (let rank = 0; rank < RANK_COUNT; rank++) {
+    rankCounts[rank] = 0;
+  }
+  // Four-bit card counters, one per suit
+  let suitSizes = 0;
+  for (let i = 0; i < cards.length; i++) {
+    rankCounts[cards[i] >> 2]++;
+    suitSizes += 1 << ((cards[i] & 3) << 2);
+  }
+
+  // Five suited cards out of seven leave too few others for quads or a full house
+  for (let suit = 0; suit < 4; suit++) {
+    if (((suitSizes >> (suit << 2)) & 15) >= MIN_CARDS) {
+      let bits = 0;
+      for (let i = 0; i < cards.length; i++) {
+        if ((cards[i] & 3) === suit) {
+          bits |= 1 << (cards[i] >> 2);
+        }
+      }
+      return flushTable[bits];
+    }
+  }
+
+  return unsuitedTable[unsuitedBases[cards.length] + hashRankCounts(rankCounts, cards.length)];
+}
+
+/**
+ * Hand category of a strength returned by evaluate7
+ */
+export function handRankOfStrength(strength: number): HandRank {
+  if (!categories) {
+    buildTables();
+  }
+  return categories[strength];
+}
+
+/**
+ * Description of a strength returned by evaluate7, worded as evaluateHand words it
+ * ("Full House, Ks over 7s"), so showdowns need not evaluate the hand again to describe it
+ */
+export function describeHandStrength(strength: number): string {
+  if (!scores) {
+    buildTables();
+  }
+  const value = scores[strength];
+  const rankAt = (digit: number) => Math.floor(value / RANK_COUNT ** (4 - digit)) % RANK_COUNT;
+  const high = RANK_NAMES[rankAt(0)];
+
+  switch (categoryOfScore(value)) {
+    case HandRank.RoyalFlush:
+      return 'Royal Flush';
+    case HandRank.StraightFlush:
+      return rankAt(0) === WHEEL_HIGH ? 'Straight Flush (Wheel)' : 'Straight Flush';
+    case HandRank.FourOfAKind:
+      return `Four of a Kind, ${high}s`;
+    case HandRank.FullHouse:
+      return `Full House, ${high}s over ${RANK_NAMES[rankAt(1)]}s`;
+    case HandRank.Flush:
+      return `Flush, ${high} high`;
+    case HandRank.Straight:
+      return rankAt(0) === WHEEL_HIGH ? 'Straight (Wheel)' : rankAt(0) === ACE ? 'Straight (Broadway)' : 'Straight';
+    case HandRank.ThreeOfAKind:
+      return `Three of a Kind, ${high}s`;
+    case HandRank.TwoPair:
+      return `Two Pair, ${high}s and ${RANK_NAMES[rankAt(1)]}s`;
+    case HandRank.OnePair:
+      return `One Pair, ${high}s`;
+    case HandRank.HighCard:
+      return `High Card, ${high}`;
+  }
+}
+
+// Perfect hash of rank counts holding `size` cards: the number of count sequences of the same
+// size that sort before it
+function hashRankCounts(counts: ArrayLike<number>, size: number): number {
+  let hash = 0;
+  let remaining = size;
+  for (let rank = 0; rank < RANK_COUNT && remaining > 0; rank++) {
+    hash += hashOffsets[(rank * (MAX_CARDS + 1) + remaining) * (MAX_SAME_RANK + 1) + counts[rank]];
+    remaining -= counts[rank];
+  }
+  return hash;
+}
+
+/**
+ * Build every table once, on first use. Each hand is scored as its category followed by its
+ * deciding ranks in base 13; sorting the distinct five-card scores gives the strengths.
+ */
+function buildTables(): void {
+  // ways[n][k]: rank-count sequences of n ranks (at most four cards each) holding k cards
+  const ways = Array.from({ length: RANK_COUNT + 1 }, () => new Array<number>(MAX_CARDS + 1).fill(0));
+  ways[0][0] = 1;
+  for (let n = 1; n <= RANK_COUNT; n++) {
+    for (let k = 0; k <= MAX_CARDS; k++) {
+      for (let count = 0; count <= Math.min(MAX_SAME_RANK, k); count++) {
+        ways[n][k] += ways[n - 1][k - count];
+      }
+    }
+  }
+
+  hashOffsets = new Uint32Array(RANK_COUNT * (MAX_CARDS + 1) * (MAX_SAME_RANK + 1));
+  for (let rank = 0; rank < RANK_COUNT; rank++) {
+    for (let k = 0; k <= MAX_CARDS; k++) {
+      let offset = 0;
+      for (let count = 0; count <= MAX_SAME_RANK; count++) {
+        hashOffsets[(rank * (MAX_CARDS + 1) + k) * (MAX_SAME_RANK + 1) + count] = offset;
+        if (count <= k) {
+          offset += ways[RANK_COUNT - rank - 1][k - count];
+        }
+      }
+    }
+  }
+
+  // Every five-card hand, flush or not, fixes the strength order
+  const fiveCardScores = new Set<number>();
+  forEachRankCounts(5, counts => fiveCardScores.add(unsuitedScore(counts)));
+  for (let bits = 0; bits < 1 << RANK_COUNT; bits++) {
+    if (bitCount(bits) === 5) {
+      fiveCardScores.add(suitedScore(bits));
+    }
+  }
+  const strengthOfScore = new Map(
+    Array.from(fiveCardScores).sort((a, b) => b - a).map((score, strength) => [score, strength])
+  );
+  categories = new Uint8Array(strengthOfScore.size);
+  scores = new Uint32Array(strengthOfScore.size);
+  strengthOfScore.forEach((strength, score) => {
+    categories[strength] = categoryOfScore(score);
+    scores[strength] = score;
+  });
+
+  unsuitedBases = new Uint32Array(MAX_CARDS + 1);
+  for (let size = MIN_CARDS; size < MAX_CARDS; size++) {
+    unsuitedBases[size + 1] = unsuitedBases[size] + ways[RANK_COUNT][size];
+  }
+  unsuitedTable = new Uint16Array(unsuitedBases[MAX_CARDS] + ways[RANK_COUNT][MAX_CARDS]);
+  for (let size = MIN_CARDS; size <= MAX_CARDS; size++) {
+    forEachRankCounts(size, counts => {
+      unsuitedTable[unsuitedBases[size] + hashRankCounts(counts, size)] = strengthOfScore.get(unsuitedScore(counts))!;
+    });
+  }
+
+  // Assigned last, as evaluate7 takes it to mean every table is ready
+  const flush = new Uint16Array(1 << RANK_COUNT);
+  for (let bits = 0; bits < 1 << RANK_COUNT; bits++) {
+    if (bitCount(bits) >= MIN_CARDS) {
+      flush[bits] = strengthOfScore.get(suitedScore(bits))!;
+    }
+  }
+  flushTable = flush;
+}
+
+// Visit every way of holding `size` cards as counts per rank
+function forEachRankCounts(size: number, visit: (counts: number[]) => void): void {
+  const counts = new Array<number>(RANK_COUNT).fill(0);
+  const fill = (rank: number, remaining: number) => {
+    if (rank === RANK_COUNT) {
+      if (remaining === 0) {
+        visit(counts);
+      }
+      return;
+    }
+    for (let count = 0; count <= Math.min(MAX_SAME_RANK, remaining); count++) {
+      counts[rank] = count;
+      fill(rank + 1, remaining - count);
+    }
+    counts[rank] = 0;
+  };
+  fill(0, size);
+}
+
+// Best non-flush hand among the rank counts
+function unsuitedScore(counts: number[]): number {
+  // Ranks from the ace down, grouped by how many of each the hand holds
+  const held: number[] = [];
+  const byCount: number[][] = [[], [], [], [], []];
+  let bits = 0;
+  for (let rank = RANK_COUNT - 1; rank >= 0; rank--) {
+    byCount[counts[rank]].push(rank);
+    if (counts[rank] > 0) {
+      held.push(rank);
+      bits |= 1 << rank;
+    }
+  }
+  const [, , pairs, trips, quads] = byCount;
+  const highest = (count: number, except: number[]) => held.filter(rank => !except.includes(rank)).slice(0, count);
+
+  if (quads.length > 0) {
+    return score(HandRank.FourOfAKind, [quads[0], ...highest(1, [quads[0]])]);
+  }
+  if (trips.length > 0 && trips.length + pairs.length > 1) {
+    // A second set of trips plays as the pair
+    return score(HandRank.FullHouse, [trips[0], Math.max(trips[1] ?? -1, pairs[0] ?? -1)]);
+  }
+
+  const straightHigh = highestStraight(bits);
+  if (straightHigh !== undefined) {
+    return score(HandRank.Straight, [straightHigh]);
+  }
+  if (trips.length > 0) {
+    return score(HandRank.ThreeOfAKind, [trips[0], ...highest(2, [trips[0]])]);
+  }
+  if (pairs.length > 1) {
+    return score(HandRank.TwoPair, [pairs[0], pairs[1], ...highest(1, [pairs[0], pairs[1]])]);
+  }
+  if (pairs.length === 1) {
+    return score(HandRank.OnePair, [pairs[0], ...highest(3, [pairs[0]])]);
+  }
+  return score(HandRank.HighCard, held.slice(0, 5));
+}
+
+// Best hand among five or more cards of one suit
+function suitedScore(bits: number): number {
+  const straightHigh = highestStraight(bits);
+  if (straightHigh !== undefined) {
+    return score(straightHigh === RANK_COUNT - 1 ? HandRank.RoyalFlush : HandRank.StraightFlush, [straightHigh]);
+  }
+  const ranks: number[] = [];
+  for (let rank = RANK_COUNT - 1; rank >= 0 && ranks.length < 5; rank--) {
+    if (bits & (1 << rank)) {
+      ranks.push(rank);
+    }
+  }
+  return score(HandRank.Flush, ranks);
+}
+
+// Rank index of the top card of the highest straight, with the wheel topped by the five
+function highestStraight(bits: number): number | undefined {
+  const withLowAce = (bits << 1) | (bits >> 12 & 1);
+  for (let high = RANK_COUNT - 1; high >= 3; high--) {
+    const run = 0b11111 << (high - 3);
+    if ((withLowAce & run) === run) {
+      return high;
+    }
+  }
+  return undefined;
+}
+
+// Category then the deciding ranks as five base-13 digits, padded with zeros
+function score(category: HandRank, ranks: number[]): number {
+  let total = category;
+  for (let i = 0; i < 5; i++) {
+    total = total * RANK_COUNT + (ranks[i] ?? 0);
+  }
+  return total;
+}
+
+function categoryOfScore(value: number): HandRank {
+  return Math.floor(value / RANK_COUNT ** 5);
+}
+
+function bitCount(bits: number): number {
+  let count = 0;
+  for (let rest = bits; rest > 0; rest &= rest - 1) {
+    count++;
+  }
+  return count;
+}
@@ -0,0 +1,164 @@
+/**
+ * Hold'em hand range notation ("QQ+, AKs, A5s-A2s, KQo") expanded into concrete starting hands
+ */
+/* eslint-disable security/detect-object-injection */
+
+import { Card, cardToString, stringToCard } from './cards';
+
+export interface RangeCombo {
+  cards: [Card, Card];
+  weight: number; // Share of the time the range holds this hand (0-1]
+}
+
+// Grid order, highest rank first; T stands for the ten
+export const RANGE_RANKS = ['A', 'K', 'Q', 'J', 'T', '9', '8', '7', '6', '5', '4', '3', '2'];
+
+const SUITS = ['h', 'd', 'c', 's'];
+
+const RANK = '(10|[2-9TJQKA])';
+const SUIT = '([hdcs])';
+const COMBO_PATTERN = new RegExp(`^${RANK}${SUIT}${RANK}${SUIT}$`);
+const CLASS_PATTERN = new RegExp(`^${RANK}${RANK}([so]?)$`);
+const PLUS_PATTERN = new RegExp(`^${RANK}${RANK}([so]?)\\+$`);
+const DASH_PATTERN = new RegExp(`^${RANK}${RANK}([so]?)-${RANK}${RANK}([so]?)$`);
+
+/**
+ * Expand range notation into every hand it contains. Entries are separated by commas:
+ * - `QQ` a pair, `AKs` suited, `AKo` offsuit, `AK` either
+ * - `QQ+` QQ and every higher pair; `ATs+` the kicker rising to one below the top card (ATs-AKs)
+ * - `QQ-88` and `A5s-A2s` every hand between the two, inclusive
+ * - `AhKh` one exact hand
+ * - any entry followed by `:0.5` is held that share of the time
+ * A hand listed twice takes its last weight. Hands using a blocked card (board or dead cards)
+ * are left out.
+ */
+export function parseRange(notation: string, blockedCards: string[] = []): RangeCombo[] {
+  const combos = new Map<string, RangeCombo>();
+
+  notation.split(',').map(entry => entry.trim()).filter(Boolean).forEach(entry => {
+    const [hands, weightText, ...extra] = entry.split(':').map(part => part.trim());
+    const weight = weightText === undefined ? 1 : Number(weightText);
+    if (extra.length > 0 || !(weight > 0 && weight <= 1)) {
+      throw new Error(`Invalid range weight: ${entry}`);
+    }
+
+    expandEntry(hands).forEach(([first, second]) => {
+      const key = [first, second].sort().join();
+      combos.set(key, { cards: [stringToCard(first), stringToCard(second)], weight });
+    });
+  });
+
+  const blocked = new Set(blockedCards);
+  return Array.from(combos.values()).filter(combo => combo.cards.every(card => !blocked.has(cardToString(card))));
+}
+
+/**
+ * Grid cell name for a starting hand, e.g. "AA", "AKs" or "T9o"
+ */
+export function rangeHandClass(cards: [Card, Card]): string {
+  const [high, low] = [...cards].sort((a, b) => b.value - a.value).map(card => toRangeRank(card.rank));
+  if (high === low) {
+    return `${high}${low}`;
+  }
+  return `${high}${low}${cards[0].suit === cards[1].suit ? 's' : 'o'}`;
+}
+
+/**
+ * Hand in a cell of the 13x13 range grid: pairs on the diagonal, suited hands above it and
+ * offsuit hands below
+ */
+export function rangeGridHand(row: number, column: number): string {
+  const [high, low] = [RANGE_RANKS[Math.min(row, column)], RANGE_RANKS[Math.max(row, column)]];
+  if (row === column) {
+    return `${high}${low}`;
+  }
+  return `${high}${low}${row < column ? 's' : 'o'}`;
+}
+
+/**
+ * Number of starting hands in a grid cell: 6 for a pair, 4 suited, 12 offsuit
+ */
+export function rangeHandClassSize(handClass: string): number {
+  return handClass.length === 2 ? 6 : handClass.endsWith('s') ? 4 : 12;
+}
+
+// Card strings for one entry without its weight
+function expandEntry(entry: string): string[][] {
+  const combo = COMBO_PATTERN.exec(entry);
+  if (combo) {
+    const first = `${toCardRank(combo[1])}${combo[2]}`;
+    const second = `${toCardRank(combo[3])}${combo[4]}`;
+    if (first === second) {
+      throw new Error(`Invalid range notation: ${entry}`);
+    }
+    return [[first, second]];
+  }
+
+  const single = CLASS_PATTERN.exec(entry);
+  if (single) {
+    return classCombos(rankIndex(single[1]), rankIndex(single[2]), single[3], entry);
+  }
+
+  const plus = PLUS_PATTERN.exec(entry);
+  if (plus) {
+    const [high, low] = orderRanks(rankIndex(plus[1]), rankIndex(plus[2]));
+    // Pairs climb to aces; other hands raise the kicker until it meets the top card
+    const top = high === low ? 0 : high + 1;
+    return rankSpan(top, low).flatMap(kicker =>
+      classCombos(high === low ? kicker : high, kicker, plus[3], entry)
+    );
+  }
+
+  const dash = DASH_PATTERN.exec(entry);
+  if (dash) {
+    const [fromHigh, fromLow] = orderRanks(rankIndex(dash[1]), rankIndex(dash[2]));
+    const [toHigh, toLow] = orderRanks(rankIndex(dash[4]), rankIndex(dash[5]));
+    const pairs = fromHigh === fromLow;
+    if (dash[3] !== dash[6] || pairs !== (toHigh === toLow) || (!pairs && fromHigh !== toHigh)) {
+      throw new Error(`Invalid range notation: ${entry}`);
+    }
+    return rankSpan(Math.min(fromLow, toLow), Math.max(fromLow, toLow)).flatMap(kicker =>
+      classCombos(pairs ? kicker : fromHigh, kicker, dash[3], entry)
+    );
+  }
+
+  throw new Error(`Invalid range notation: ${entry}`);
+}
+
+// Every hand of two ranks (grid indexes), suited ('s'), offsuit ('o') or both ('')
+function classCombos(first: number, second: number, suitedness: string, entry: string): string[][] {
+  const [high, low] = orderRanks(first, second);
+  if (high === low && suitedness !== '') {
+    throw new Error(`Invalid range notation: ${entry}`);
+  }
+
+  const highRank = toCardRank(RANGE_RANKS[high]);
+  const lowRank = toCardRank(RANGE_RANKS[low]);
+  return SUITS.flatMap((highSuit, i) => SUITS.flatMap((lowSuit, j) => {
+    const suited = highSuit === lowSuit;
+    const wanted = high === low ? j > i : suitedness === '' || (suitedness === 's') === suited;
+    return wanted ? [[`${highRank}${highSuit}`, `${lowRank}${lowSuit}`]] : [];
+  }));
+}
+
+// Grid indexes from `from` to `to` inclusive
+function rankSpan(from: number, to: number): number[] {
+  return Array.from({ length: to - from + 1 }, (_, i) => from + i);
+}
+
+// Higher rank (smaller grid index) first
+function orderRanks(first: number, second: number): [number, number] {
+  return first <= second ? [first, second] : [second, first];
+}
+
+function rankIndex(rank: string): number {
+  return RANGE_RANKS.indexOf(toRangeRank(rank));
+}
+
+function toRangeRank(rank: string): string {
+  return rank === '10' ? 'T' : rank;
+}
+
+function toCardRank(rank: string): string {
+  return rank === 'T' ? '10' : rank;
+}
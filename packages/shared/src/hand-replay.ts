@@ -0,0 +1,159 @@
+/**
+ * Deterministic replay of recorded hands through the game engine
+ */
+
+import { Card, createDeck, cardToString, stringToCard } from './cards';
+import { GameState, createGame, dealNewHand, executePlayerAction } from './game-state';
+import { HandHistory, HandHistoryEvent } from './hand-history';
+import { holeCardCount, deckTypeFor, isStud } from './poker-variants';
+import { studDealingSlots } from './stud';
+
+export interface HandReplayStep {
+  event?: HandHistoryEvent; // The action or straddle that produced this state (none for the deal)
+  gameState: GameState;
+}
+
+export interface HandReplayResult {
+  steps: HandReplayStep[];
+  verified: boolean; // True when the replay completed and every final stack matches the record
+  mismatches: Array<{ playerId: string; expected: number; actual: number }>;
+  error?: string;
+}
+
+/**
+ * Rebuild every intermediate game state of a recorded hand by feeding its actions through
+ * executePlayerAction, then check the resulting stacks against the recorded final stacks.
+ * Hole cards missing from the record (e.g. a redacted opponent who folded) are left hidden.
+ */
+export function replayHand(history: HandHistory): HandReplayResult {
+  const steps: HandReplayStep[] = [];
+  const fail = (error: string): HandReplayResult => ({ steps, verified: false, mismatches: [], error });
+
+  // Players whose hole cards the record shows; everyone else's are filler and stay hidden
+  const revealed = new Set(history.events.flatMap(e => e.type === 'deal' || e.type === 'show' ? [e.playerId] : []));
+
+  // The engine plays on with the filler cards; only the steps handed back hide them
+  let state: GameState;
+  try {
+    state = dealRecordedHand(history);
+  } catch (error) {
+    return fail(error instanceof Error ? error.message : 'Could not deal the recorded hand');
+  }
+  steps.push({ gameState: hideUnrevealedCards(state, revealed) });
+
+  for (const event of history.events) {
+    if (event.type === 'action') {
+      const amount = event.action === 'bet' || event.action === 'raise' ? event.raiseTo : undefined;
+      const result = executePlayerAction(state, event.playerId, event.action, amount);
+      if (!result.success) {
+        return fail(`Replay diverged at ${describeEvent(history, event)}: ${result.error}`);
+      }
+      state = result.gameState;
+      steps.push({ event, gameState: hideUnrevealedCards(state, revealed) });
+    } else if (event.type === 'post' && event.blind === 'straddle') {
+      const result = executePlayerAction(state, event.playerId, 'straddle');
+      if (!result.success) {
+        return fail(`Replay diverged at ${describeEvent(history, event)}: ${result.error}`);
+      }
+      state = result.gameState;
+      steps.push({ event, gameState: hideUnrevealedCards(state, revealed) });
+    }
+  }
+
+  if (!history.finalChips) {
+    return fail('Hand history is incomplete');
+  }
+
+  // Seats dealt out of the hand (busted or sitting out) are replayed without their chips
+  const finalChips = new Map(Object.entries(history.finalChips));
+  const dealtIn = new Set(history.seats.filter(seat => seat.chips > 0).map(seat => seat.playerId));
+  const mismatches = state.players
+    .filter(player => dealtIn.has(player.id) && finalChips.get(player.id) !== player.chips)
+    .map(player => ({ playerId: player.id, expected: finalChips.get(player.id)!, actual: player.chips }));
+
+  return { steps, verified: state.phase === 'complete' && mismatches.length === 0, mismatches };
+}
+
+/**
+ * Seat the recorded players and deal from a deck arranged to reproduce the recorded cards
+ */
+function dealRecordedHand(history: HandHistory): GameState {
+  const game = createGame(history.gameId, history.seats.map(seat => seat.name), history.config);
+  game.players = history.seats.map(seat => ({
+    id: seat.playerId,
+    name: seat.name,
+    chips: seat.chips,
+    holeCards: [],
+    upCards: [],
+    currentBet: 0,
+    totalBet: 0,
+    folded: false,
+    allIn: false,
+    timeBankRemaining: game.config.timeBankSeconds,
+    sittingOut: false,
+    handsSatOut: 0,
+    pendingChips: 0,
+    missedBlinds: {
+      small: history.events.some(e => e.type === 'post' && e.playerId === seat.playerId && e.blind === 'missed small blind'),
+      big: history.events.some(e => e.type === 'post' && e.playerId === seat.playerId && e.blind === 'missed big blind')
+    }
+  }));
+
+  // dealNewHand moves the button one seat on from the previous hand's dealer
+  game.handNumber = history.handNumber - 1;
+  game.dealerIndex = (history.dealerIndex - 1 + game.players.length) % game.players.length;
+
+  // Cards in dealing order, undefined where the record does not show them
+  const dealtCards = isStud(game.config.variant) ? studDealingSlots(history).map(slot => slot.card) : flopGameCards(history);
+
+  // Unknown cards are filled from cards nobody is recorded as holding
+  const usedCards = new Set(dealtCards);
+  const unusedCards = createDeck(deckTypeFor(game.config.variant)).map(cardToString).filter(card => !usedCards.has(card));
+  const deck: Card[] = [...dealtCards.map(card => card ?? unusedCards.shift()!), ...unusedCards].map(stringToCard);
+
+  const dealt = dealNewHand(game, deck);
+  if (dealt.dealerIndex !== history.dealerIndex) {
+    throw new Error('Recorded dealer position does not match the seated players');
+  }
+  return dealt;
+}
+
+/**
+ * Hole cards of each seat dealt in, in seat order, followed by the board
+ */
+function flopGameCards(history: HandHistory): Array<string | undefined> {
+  const knownHoleCards = new Map<string, string[]>();
+  const board: string[] = [];
+  history.events.forEach(event => {
+    if (event.type === 'deal' || event.type === 'show') {
+      knownHoleCards.set(event.playerId, event.cards);
+    } else if (event.type === 'board') {
+      board.push(...event.cards);
+    }
+  });
+
+  const holeCards = history.seats
+    .filter(seat => seat.chips > 0)
+    .flatMap(seat => knownHoleCards.get(seat.playerId) ?? Array<undefined>(holeCardCount(history.config.variant)).fill(undefined));
+  return [...holeCards, ...board];
+}
+
+/**
+ * Filler cards stand in for cards that were never revealed, so keep them hidden
+ */
+function hideUnrevealedCards(state: GameState, revealed: Set<string>): GameState {
+  return {
+    ...state,
+    players: state.players.map(player => revealed.has(player.id) ? player : { ...player, holeCards: [] }),
+    handHistory: state.handHistory && {
+      ...state.handHistory,
+      events: state.handHistory.events.filter(event => event.type !== 'deal' || revealed.has(event.playerId))
+    }
+  };
+}
+
+function describeEvent(history: HandHistory, event: HandHistoryEvent): string {
+  const seat = 'playerId' in event ? history.seats.find(s => s.playerId === event.playerId) : undefined;
+  const what = event.type === 'action' ? event.action : event.type === 'post' ? event.blind : event.type;
+  return `${seat?.name ?? 'unknown player'} ${what} (event ${history.events.indexOf(event) + 1})`;
+}
@@ -3,8 +3,19 @@
 export * from './types'
 export * from './utils'
 export * from './cards'
+export * from './shuffle'
 export * from './hand-evaluation'
+export * from './hand-lookup'
+export * from './hand-ranges'
+export * from './equity'
+export * from './poker-variants'
+export * from './stud'
 export * from './game-state'
+export * from './game-events'
+export * from './hand-history'
+export * from './hand-replay'
+export * from './state-redaction'
+export * from './state-validation'
 export * from './websocket-types'
 export * from './lobby-system'
 export * from './auth-types'
\ No newline at end of file
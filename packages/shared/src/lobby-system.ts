@@ -4,6 +4,7 @@
  */
 
 import { randomUUID } from 'crypto';
+import { TableConfig } from './game-state';
 
 // Lobby Game Interface
 export interface LobbyGame {
@@ -20,11 +21,12 @@ export interface LobbyGame {
   }>;
   gameType: 'heads-up' | 'multi-table';
   buyIn?: number;
+  tableConfig?: TableConfig; // Stakes and betting structure of the poker game behind this listing
 }
 
 // Lobby Manager Interface
 export interface LobbyManager {
-  createGame(name: string, maxPlayers: number, gameType: 'heads-up' | 'multi-table', buyIn?: number): LobbyGame;
+  createGame(name: string, maxPlayers: number, gameType: 'heads-up' | 'multi-table', buyIn?: number, tableConfig?: TableConfig): LobbyGame;
   joinGame(gameId: string, playerId: string, playerName: string): { success: boolean; error?: string };
   leaveGame(gameId: string, playerId: string): { success: boolean; error?: string };
   getGames(): LobbyGame[];
@@ -47,7 +49,7 @@ export class InMemoryLobbyManager implements LobbyManager {
   private games = new Map<string, LobbyGame>();
   private playerGameMap = new Map<string, string>(); // playerId -> gameId
 
-  createGame(name: string, maxPlayers: number, gameType: 'heads-up' | 'multi-table', buyIn?: number): LobbyGame {
+  createGame(name: string, maxPlayers: number, gameType: 'heads-up' | 'multi-table', buyIn?: number, tableConfig?: TableConfig): LobbyGame {
     // Validation
     if (!name || name.trim().length === 0) {
       throw new Error('Game name is required');
@@ -69,7 +71,8 @@ export class InMemoryLobbyManager implements LobbyManager {
       createdAt: new Date().toISOString(),
       players: [],
       gameType,
-      buyIn
+      buyIn,
+      tableConfig
     };
 
     this.games.set(gameId, game);
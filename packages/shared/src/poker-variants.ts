@@ -0,0 +1,67 @@
+/**
+ * Poker variants a table can be dealt as
+ */
+
+import type { DeckType } from './cards';
+import type { HandRanking } from './hand-evaluation';
+
+export type PokerVariant = 'holdem' | 'omaha' | 'omaha-hi-lo' | 'short-deck' | 'stud' | 'stud-hi-lo';
+
+export const POKER_VARIANTS: PokerVariant[] = ['holdem', 'omaha', 'omaha-hi-lo', 'short-deck', 'stud', 'stud-hi-lo'];
+
+const POKER_VARIANT_NAMES: Record<PokerVariant, string> = {
+  holdem: "Hold'em",
+  omaha: 'Omaha',
+  'omaha-hi-lo': 'Omaha Hi/Lo',
+  'short-deck': "6+ Hold'em",
+  stud: '7 Card Stud',
+  'stud-hi-lo': '7 Card Stud Hi/Lo'
+};
+
+/**
+ * Display name of a variant, as written in PokerStars hand histories
+ */
+export function pokerVariantName(variant: PokerVariant): string {
+  // Records from before variants existed are Hold'em
+  // eslint-disable-next-line security/detect-object-injection
+  return POKER_VARIANT_NAMES[variant] ?? POKER_VARIANT_NAMES.holdem;
+}
+
+/**
+ * Number of hole cards each player is dealt in the flop games
+ */
+export function holeCardCount(variant: PokerVariant): number {
+  return isOmaha(variant) ? 4 : 2;
+}
+
+/**
+ * Omaha hands are made from exactly two hole cards and three board cards
+ */
+export function isOmaha(variant: PokerVariant): boolean {
+  return variant === 'omaha' || variant === 'omaha-hi-lo';
+}
+
+/**
+ * Seven-Card Stud has no board: each player is dealt their own up and down cards street by street
+ */
+export function isStud(variant: PokerVariant): boolean {
+  return variant === 'stud' || variant === 'stud-hi-lo';
+}
+
+/**
+ * Short Deck (6+) Hold'em is dealt from the 36-card deck
+ */
+export function deckTypeFor(variant: PokerVariant): DeckType {
+  return variant === 'short-deck' ? 'short' : 'standard';
+}
+
+export function handRankingFor(variant: PokerVariant): HandRanking {
+  return variant === 'short-deck' ? 'short-deck' : 'standard';
+}
+
+/**
+ * Hi-lo games split each pot between the best high hand and the best eight-or-better low
+ */
+export function isHiLo(variant: PokerVariant): boolean {
+  return variant === 'omaha-hi-lo' || variant === 'stud-hi-lo';
+}
@@ -0,0 +1,148 @@
+/**
+ * Secure deck shuffling and provably-fair (commit–reveal) shuffle verification
+ */
+
+import { createHash, randomBytes, randomInt } from 'crypto';
+import { Card, createDeck, cardToString } from './cards';
+import type { HandHistory } from './hand-history';
+import { holeCardCount, deckTypeFor, isStud } from './poker-variants';
+import { studDealingSlots } from './stud';
+
+export interface ShuffleCommitment {
+  commitment: string; // SHA-256 of the seed, published before the hand is dealt
+  seed: string; // Kept secret until the hand is complete (empty in redacted game states)
+}
+
+export interface ShuffleVerification {
+  verified: boolean; // True when the seed matches the commitment and produced every recorded card
+  commitmentMatches: boolean;
+  mismatches: string[];
+  error?: string;
+}
+
+/**
+ * Fisher-Yates shuffle drawing from the operating system's CSPRNG
+ */
+export function secureShuffle(deck: Card[]): Card[] {
+  return fisherYates(deck, randomInt);
+}
+
+/**
+ * Create the seed for a provably-fair hand along with its published commitment
+ */
+export function createShuffleCommitment(): ShuffleCommitment {
+  const seed = randomBytes(32).toString('hex');
+  return { commitment: hashShuffleSeed(seed), seed };
+}
+
+export function hashShuffleSeed(seed: string): string {
+  return createHash('sha256').update(seed).digest('hex');
+}
+
+/**
+ * Fisher-Yates shuffle driven by a SHA-256 stream of the seed, so anyone holding the
+ * revealed seed can rebuild exactly the same deck
+ */
+export function shuffleDeckFromSeed(deck: Card[], seed: string): Card[] {
+  let counter = 0;
+  let block = Buffer.alloc(0);
+  let offset = 0;
+
+  const nextUint32 = (): number => {
+    if (offset + 4 > block.length) {
+      block = createHash('sha256').update(`${seed}:${counter++}`).digest();
+      offset = 0;
+    }
+    const value = block.readUInt32BE(offset);
+    offset += 4;
+    return value;
+  };
+
+  // Rejection sampling keeps every index equally likely
+  return fisherYates(deck, max => {
+    const limit = Math.floor(2 ** 32 / max) * max;
+    let value = nextUint32();
+    while (value >= limit) {
+      value = nextUint32();
+    }
+    return value % max;
+  });
+}
+
+function fisherYates(deck: Card[], randomBelow: (max: number) => number): Card[] {
+  const shuffled = [...deck];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = randomBelow(i + 1);
+    // eslint-disable-next-line security/detect-object-injection
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+/**
+ * Check a completed hand against its revealed shuffle seed: the seed must hash to the
+ * commitment published before the deal, and the deck it produces must contain the recorded
+ * hole cards and board (or Stud up and down cards) in dealing order. Works on redacted histories
+ * by checking only the cards the history contains.
+ */
+export function verifyHandShuffle(history: HandHistory): ShuffleVerification {
+  const fail = (error: string): ShuffleVerification =>
+    ({ verified: false, commitmentMatches: false, mismatches: [], error });
+
+  if (!history.shuffle) {
+    return fail('Hand was not dealt from a committed shuffle');
+  }
+  const { commitment, seed } = history.shuffle;
+  if (!seed) {
+    return fail('Shuffle seed has not been revealed yet');
+  }
+
+  const commitmentMatches = hashShuffleSeed(seed) === commitment;
+  if (!commitmentMatches) {
+    return fail('Revealed seed does not match the published commitment');
+  }
+
+  const deck = shuffleDeckFromSeed(createDeck(deckTypeFor(history.config.variant)), seed).map(cardToString);
+  if (isStud(history.config.variant)) {
+    const mismatches = studCardMismatches(history, deck);
+    return { verified: mismatches.length === 0, commitmentMatches, mismatches };
+  }
+
+  // Each seat dealt in gets its hole cards in turn, then the board comes off the top
+  const dealtIn = history.seats.filter(seat => seat.chips > 0);
+  const perSeat = holeCardCount(history.config.variant);
+  const expectedHoleCards = new Map(dealtIn.map((seat, index) => [seat.playerId, deck.slice(index * perSeat, (index + 1) * perSeat)]));
+  const expectedBoard = deck.slice(dealtIn.length * perSeat);
+
+  const mismatches: string[] = [];
+  const board: string[] = [];
+  history.events.forEach(event => {
+    if (event.type === 'deal' || event.type === 'show') {
+      const expected = expectedHoleCards.get(event.playerId) ?? [];
+      if (event.cards.join() !== expected.join()) {
+        const name = history.seats.find(seat => seat.playerId === event.playerId)?.name ?? event.playerId;
+        mismatches.push(`${name}'s hole cards ${event.cards.join(' ')} were not dealt by this seed`);
+      }
+    } else if (event.type === 'board') {
+      board.push(...event.cards);
+    }
+  });
+
+  if (board.join() !== expectedBoard.slice(0, board.length).join()) {
+    mismatches.push(`Board ${board.join(' ')} was not dealt by this seed`);
+  }
+
+  return { verified: mismatches.length === 0, commitmentMatches, mismatches };
+}
+
+// Stud streets are dealt card by card to the players still in, so each recorded card has its own place in the deck
+function studCardMismatches(history: HandHistory, deck: string[]): string[] {
+  return studDealingSlots(history).flatMap((slot, index) => {
+    // eslint-disable-next-line security/detect-object-injection
+    if (slot.card === undefined || slot.card === deck[index]) {
+      return [];
+    }
+    const name = history.seats.find(seat => seat.playerId === slot.playerId)?.name ?? slot.playerId;
+    return [`${name}'s ${slot.street.replace('-', ' ')} card ${slot.card} was not dealt by this seed`];
+  });
+}
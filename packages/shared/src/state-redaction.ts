@@ -0,0 +1,41 @@
+/**
+ * Per-viewer projections of the game state, hiding cards the viewer is not allowed to see
+ */
+
+import { GameState } from './game-state';
+import { redactHandHistoryFor } from './hand-history';
+
+export const SPECTATOR = 'spectator';
+
+// A seated player's id, or SPECTATOR for anyone watching without a seat
+export type GameStateViewer = string;
+
+/**
+ * Copy of the game state as one viewer may see it: the deck and unrevealed shuffle seeds are
+ * removed, and other players' hole cards (a stud player's down cards; up cards are public) are
+ * hidden unless they went to showdown in the hand that just finished
+ */
+export function redactGameStateFor(gameState: GameState, viewer: GameStateViewer): GameState {
+  const playersInHand = gameState.players.filter(p => !p.folded).length;
+  const atShowdown = (gameState.phase === 'showdown' || gameState.phase === 'complete') && playersInHand > 1;
+
+  const players = gameState.players.map(player => {
+    const isViewer = viewer !== SPECTATOR && player.id === viewer;
+    const revealed = atShowdown && !player.folded;
+    return isViewer || revealed ? player : { ...player, holeCards: [] };
+  });
+
+  const viewerPlayerId = gameState.players.some(p => p.id === viewer) ? viewer : null;
+
+  // Shuffle seeds would reveal the whole deck, so only their commitments are shown until the hand is over
+  const handOver = gameState.phase === 'complete';
+
+  return {
+    ...gameState,
+    players,
+    deck: [],
+    handHistory: gameState.handHistory && redactHandHistoryFor(gameState.handHistory, viewerPlayerId),
+    shuffle: gameState.shuffle && (handOver ? gameState.shuffle : { ...gameState.shuffle, seed: '' }),
+    nextShuffle: gameState.nextShuffle && { ...gameState.nextShuffle, seed: '' }
+  };
+}
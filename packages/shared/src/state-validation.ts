@@ -0,0 +1,199 @@
+/**
+ * Structural invariants of a game state: the cards, the betting arithmetic and whose turn it is
+ */
+/* eslint-disable security/detect-object-injection */
+
+import { cardToString, createDeck } from './cards';
+import { GameState, MIN_PLAYERS, MAX_PLAYERS } from './game-state';
+import { deckTypeFor, holeCardCount, isStud } from './poker-variants';
+import { STUD_STREETS, MAX_STUD_PLAYERS, StudStreet, studStreetCards } from './stud';
+
+export type GameStateRule = 'players' | 'cards' | 'community-cards' | 'active-player' | 'chips' | 'players-acted';
+
+export interface GameStateViolation {
+  rule: GameStateRule;
+  message: string;
+  playerId?: string; // The player the violation concerns, if it is about one player
+}
+
+// Community cards dealt by each Hold'em and Omaha betting round
+const BOARD_SIZES: Partial<Record<GameState['phase'], number>> = { waiting: 0, preflop: 0, flop: 3, turn: 4, river: 5 };
+
+const BETTING_ROUNDS: GameState['phase'][] = ['preflop', 'flop', 'turn', 'river', ...STUD_STREETS];
+
+/**
+ * Check a game state against the invariants every engine transition keeps. Returns every
+ * violation found, so an empty list means the state is valid:
+ * - players: a legal number of seats with unique ids and names
+ * - cards: every card belongs to the variant's deck and appears exactly once across the deck,
+ *   board, hole and up cards
+ * - community-cards: the board (or each Stud player's cards) matches the phase
+ * - active-player: during a betting round the player to act is seated, in the hand and not all-in
+ * - chips: no negative stacks or bets, and the pot and pots add up to the chips bet this hand
+ * - players-acted: one flag per seat, and an open betting round still has someone left to act
+ */
+export function validateGameState(gameState: GameState): GameStateViolation[] {
+  return [
+    ...checkPlayers(gameState),
+    ...checkCards(gameState),
+    ...checkDealtCards(gameState),
+    ...checkActivePlayer(gameState),
+    ...checkChips(gameState),
+    ...checkPlayersActed(gameState)
+  ];
+}
+
+function checkPlayers(gameState: GameState): GameStateViolation[] {
+  const violations: GameStateViolation[] = [];
+  const maxPlayers = isStud(gameState.config.variant) ? MAX_STUD_PLAYERS : MAX_PLAYERS;
+  if (gameState.players.length < MIN_PLAYERS || gameState.players.length > maxPlayers) {
+    violations.push({ rule: 'players', message: `Expected ${MIN_PLAYERS}-${maxPlayers} players, found ${gameState.players.length}` });
+  }
+  if (!gameState.players.every(p => p.id && p.name)) {
+    violations.push({ rule: 'players', message: 'Players missing required id or name' });
+  }
+  if (new Set(gameState.players.map(p => p.id)).size !== gameState.players.length) {
+    violations.push({ rule: 'players', message: 'Player ids are not unique' });
+  }
+  if (gameState.dealerIndex < 0 || gameState.dealerIndex >= gameState.players.length) {
+    violations.push({ rule: 'players', message: `Dealer seat ${gameState.dealerIndex} does not exist` });
+  }
+  return violations;
+}
+
+function checkCards(gameState: GameState): GameStateViolation[] {
+  const violations: GameStateViolation[] = [];
+  const fullDeck = createDeck(deckTypeFor(gameState.config.variant)).map(cardToString);
+  const validCards = new Set(fullDeck);
+  const seen = new Set<string>();
+
+  const cards = [
+    ...gameState.deck,
+    ...gameState.communityCards,
+    ...gameState.players.flatMap(p => [...p.holeCards, ...p.upCards])
+  ].map(cardToString);
+  cards.forEach(card => {
+    if (!validCards.has(card)) {
+      violations.push({ rule: 'cards', message: `Card ${card} is not in the ${gameState.config.variant} deck` });
+    } else if (seen.has(card)) {
+      violations.push({ rule: 'cards', message: `Card ${card} appears more than once` });
+    }
+    seen.add(card);
+  });
+
+  if (cards.length !== fullDeck.length) {
+    violations.push({ rule: 'cards', message: `Card count doesn't add up to ${fullDeck.length}: found ${cards.length}` });
+  }
+  return violations;
+}
+
+// Board size for the phase, and the cards each player still in the hand holds
+function checkDealtCards(gameState: GameState): GameStateViolation[] {
+  const violations: GameStateViolation[] = [];
+  const { variant } = gameState.config;
+  const { phase } = gameState;
+  const stud = isStud(variant);
+
+  const boardSize = stud ? 0 : BOARD_SIZES[phase];
+  const boardOk = boardSize === undefined
+    ? gameState.communityCards.length <= 5
+    : gameState.communityCards.length === boardSize;
+  if (!boardOk) {
+    violations.push({ rule: 'community-cards', message: `${phase} has ${gameState.communityCards.length} community cards` });
+  }
+  if (phase === 'waiting') {
+    return violations;
+  }
+
+  // Folded players keep the cards they were dealt, so only players still in the hand are counted
+  const streetIndex = STUD_STREETS.indexOf(phase as StudStreet);
+  const expected = (cards: 'hole' | 'up'): number | undefined => {
+    if (!stud) {
+      return cards === 'hole' ? holeCardCount(variant) : 0;
+    }
+    if (streetIndex === -1) {
+      return undefined;
+    }
+    const dealt = STUD_STREETS.slice(0, streetIndex + 1).flatMap(studStreetCards);
+    return dealt.filter(faceUp => faceUp === (cards === 'up')).length;
+  };
+  gameState.players.filter(p => !p.folded).forEach(player => {
+    const hole = expected('hole');
+    const up = expected('up');
+    if ((hole !== undefined && player.holeCards.length !== hole) || (up !== undefined && player.upCards.length !== up)) {
+      violations.push({
+        rule: 'community-cards',
+        message: `${player.name} holds ${player.holeCards.length} down and ${player.upCards.length} up cards during ${phase}`,
+        playerId: player.id
+      });
+    }
+  });
+  return violations;
+}
+
+function checkActivePlayer(gameState: GameState): GameStateViolation[] {
+  if (!BETTING_ROUNDS.includes(gameState.phase)) {
+    return [];
+  }
+  const player = gameState.players[gameState.activePlayerIndex];
+  if (!player) {
+    return [{ rule: 'active-player', message: `Active seat ${gameState.activePlayerIndex} does not exist during ${gameState.phase}` }];
+  }
+  if (player.folded || player.allIn) {
+    const status = player.folded ? 'has folded' : 'is all-in';
+    return [{ rule: 'active-player', message: `${player.name} is to act but ${status}`, playerId: player.id }];
+  }
+  return [];
+}
+
+function checkChips(gameState: GameState): GameStateViolation[] {
+  const violations: GameStateViolation[] = [];
+  gameState.players.forEach(player => {
+    const invalid = (message: string) => violations.push({ rule: 'chips', message: `${player.name} ${message}`, playerId: player.id });
+    if (!Number.isInteger(player.chips) || player.chips < 0) {
+      invalid(`has ${player.chips} chips`);
+    }
+    if (player.currentBet < 0 || player.currentBet > player.totalBet) {
+      invalid(`has bet ${player.currentBet} this round but ${player.totalBet} this hand`);
+    }
+    if (player.currentBet > gameState.currentBet) {
+      invalid(`has bet ${player.currentBet}, more than the current bet of ${gameState.currentBet}`);
+    }
+    // Uncalled bets and winnings are paid to all-in players once the betting is over
+    if (player.allIn && player.chips > 0 && BETTING_ROUNDS.includes(gameState.phase)) {
+      invalid(`is all-in with ${player.chips} chips behind`);
+    }
+  });
+
+  const committed = gameState.players.reduce((total, p) => total + p.totalBet, 0);
+  if (gameState.pot > 0 && gameState.pot !== committed) {
+    violations.push({ rule: 'chips', message: `Pot of ${gameState.pot} does not match ${committed} chips bet` });
+  }
+  const inPots = gameState.pots.reduce((total, pot) => total + pot.amount, 0);
+  if (gameState.pots.length > 0 && inPots !== gameState.pot) {
+    violations.push({ rule: 'chips', message: `Pots hold ${inPots} chips but the pot is ${gameState.pot}` });
+  }
+  return violations;
+}
+
+function checkPlayersActed(gameState: GameState): GameStateViolation[] {
+  if (gameState.playersActed.length !== gameState.players.length) {
+    return [{
+      rule: 'players-acted',
+      message: `${gameState.playersActed.length} acted flags for ${gameState.players.length} players`
+    }];
+  }
+  if (!BETTING_ROUNDS.includes(gameState.phase)) {
+    return [];
+  }
+
+  // A round where everyone has acted and matched the bet should already have closed
+  const inHand = gameState.players.filter(p => !p.folded);
+  const roundClosed = gameState.players.every((p, index) =>
+    p.folded || p.allIn || (gameState.playersActed[index] && p.currentBet === gameState.currentBet)
+  );
+  if (inHand.length > 1 && roundClosed) {
+    return [{ rule: 'players-acted', message: `Every player has acted but the ${gameState.phase} betting round is still open` }];
+  }
+  return [];
+}
@@ -0,0 +1,116 @@
+/**
+ * Seven-Card Stud streets, bring-in and action order, and the dealing order of recorded hands
+ */
+
+import type { Card } from './cards';
+import type { HandHistory } from './hand-history';
+
+export type StudStreet = 'third-street' | 'fourth-street' | 'fifth-street' | 'sixth-street' | 'seventh-street';
+
+export const STUD_STREETS: StudStreet[] = ['third-street', 'fourth-street', 'fifth-street', 'sixth-street', 'seventh-street'];
+
+// Most players a stud table can deal to without running out of cards (7 x 7 = 49)
+export const MAX_STUD_PLAYERS = 7;
+
+// Bring-in ties between equal ranks go to the lowest suit
+const SUIT_ORDER: Card['suit'][] = ['clubs', 'diamonds', 'hearts', 'spades'];
+
+export interface StudDealingSlot {
+  playerId: string;
+  street: StudStreet;
+  faceUp: boolean;
+  card?: string; // The recorded card, when the history shows it
+}
+
+/**
+ * Cards dealt on a street, in the order each player receives them: two down and one up on
+ * third street, one up on fourth through sixth, and the last card down on seventh
+ */
+export function studStreetCards(street: StudStreet): boolean[] {
+  switch (street) {
+    case 'third-street': return [false, false, true];
+    case 'seventh-street': return [false];
+    default: return [true];
+  }
+}
+
+/**
+ * Compare two upcards for the bring-in: negative when a is lower (aces are high)
+ */
+export function compareBringInCards(a: Card, b: Card): number {
+  return a.value - b.value || SUIT_ORDER.indexOf(a.suit) - SUIT_ORDER.indexOf(b.suit);
+}
+
+/**
+ * Compare the hands two players are showing: negative when a is better. Only pairs, two
+ * pair, trips and quads count, then the highest cards; straights and flushes are ignored.
+ */
+export function compareShowingHands(a: Card[], b: Card[]): number {
+  const valueA = showingHandValue(a);
+  const valueB = showingHandValue(b);
+  for (let i = 0; i < Math.max(valueA.length, valueB.length); i++) {
+    // eslint-disable-next-line security/detect-object-injection
+    const difference = (valueB[i] ?? 0) - (valueA[i] ?? 0);
+    if (difference !== 0) {
+      return difference;
+    }
+  }
+  return 0;
+}
+
+// Category (0 high card to 4 quads) followed by the ranks, most repeated first
+function showingHandValue(cards: Card[]): number[] {
+  const counts = new Map<number, number>();
+  cards.forEach(card => counts.set(card.value, (counts.get(card.value) ?? 0) + 1));
+  const groups = Array.from(counts.entries()).sort((a, b) => b[1] - a[1] || b[0] - a[0]);
+
+  const [topCount] = groups.map(([, count]) => count);
+  const pairs = groups.filter(([, count]) => count === 2).length;
+  const category = topCount === 4 ? 4 : topCount === 3 ? 3 : pairs >= 2 ? 2 : pairs === 1 ? 1 : 0;
+  return [category, ...groups.flatMap(([value, count]) => Array<number>(count).fill(value))];
+}
+
+/**
+ * Lay out every card of a recorded stud hand in the order it came off the deck. Each street
+ * is dealt in seat order to the players still in the hand; cards the history does not show
+ * (opponents' down cards in a redacted history) have no `card`.
+ */
+export function studDealingSlots(history: HandHistory): StudDealingSlot[] {
+  const downCards = new Map<string, string[]>();
+  const shownCards = new Map<string, string[]>();
+  const upCards = new Map<string, string[]>();
+  history.events.forEach(event => {
+    if (event.type === 'deal') {
+      downCards.set(event.playerId, [...(downCards.get(event.playerId) ?? []), ...event.cards]);
+    } else if (event.type === 'show') {
+      shownCards.set(event.playerId, event.cards);
+    } else if (event.type === 'upcard') {
+      upCards.set(event.playerId, [...(upCards.get(event.playerId) ?? []), event.card]);
+    }
+  });
+
+  const seats = history.seats.filter(seat => seat.chips > 0);
+  const folded = new Set<string>();
+  const dealtDown = new Map<string, number>();
+  const dealtUp = new Map<string, number>();
+  const slots: StudDealingSlot[] = [];
+
+  history.events.forEach(event => {
+    if (event.type === 'action' && event.action === 'fold') {
+      folded.add(event.playerId);
+    } else if (event.type === 'street') {
+      seats.filter(seat => !folded.has(seat.playerId)).forEach(({ playerId }) => {
+        studStreetCards(event.street).forEach(faceUp => {
+          const dealt = faceUp ? dealtUp : dealtDown;
+          const index = dealt.get(playerId) ?? 0;
+          dealt.set(playerId, index + 1);
+          const known = faceUp ? upCards.get(playerId) : shownCards.get(playerId) ?? downCards.get(playerId);
+          // eslint-disable-next-line security/detect-object-injection
+          slots.push({ playerId, street: event.street, faceUp, card: known?.[index] });
+        });
+      });
+    }
+  });
+
+  return slots;
+}
@@ -2,13 +2,18 @@
  * WebSocket Message Types for Real-Time Poker Communication
  */
 
-import { GameState } from './game-state';
+import { GameState, LegalAction, PlayerAction } from './game-state';
 
 // Client → Server Messages
 export type ClientMessage = 
-  | { type: 'playerAction'; data: { playerId: string; action: 'fold' | 'call' | 'raise'; amount?: number } }
+  | {
+      type: 'playerAction';
+      data: { playerId: string; action: PlayerAction; amount?: number; expectedVersion?: number; idempotencyKey?: string };
+    }
   | { type: 'dealCards'; data: Record<string, never> }
   | { type: 'startNewHand'; data: Record<string, never> }
+  | { type: 'sitOut'; data: Record<string, never> }
+  | { type: 'sitIn'; data: Record<string, never> }
   | { type: 'ping'; data: { timestamp: number } }
   | { type: 'authenticate'; data: { playerId: string; gameId: string } };
 
@@ -16,6 +21,7 @@ export type ClientMessage =
 export type ServerMessage = 
   | { type: 'gameStateUpdate'; data: GameState }
   | { type: 'actionResult'; data: { success: boolean; error?: string; gameState?: GameState } }
+  | { type: 'legalActions'; data: { playerId: string; actions: LegalAction[] } }
   | { type: 'connected'; data: { gameId: string; connectionId: string } }
   | { type: 'playerJoined'; data: { playerId: string; playerName: string } }
   | { type: 'playerLeft'; data: { playerId: string } }
@@ -65,7 +71,7 @@ export function isValidClientMessage(message: unknown): message is ClientMessage
   if (!message || typeof message !== 'object') return false;
   
   const msg = message as { type?: string; data?: unknown };
-  const validTypes = ['playerAction', 'dealCards', 'startNewHand', 'ping', 'authenticate'];
+  const validTypes = ['playerAction', 'dealCards', 'startNewHand', 'sitOut', 'sitIn', 'ping', 'authenticate'];
   return typeof msg.type === 'string' && validTypes.includes(msg.type) && msg.data !== undefined;
 }
 
@@ -73,7 +79,7 @@ export function isValidServerMessage(message: unknown): message is ServerMessage
   if (!message || typeof message !== 'object') return false;
   
   const msg = message as { type?: string; data?: unknown };
-  const validTypes = ['gameStateUpdate', 'actionResult', 'connected', 'playerJoined', 'playerLeft', 'error', 'pong'];
+  const validTypes = ['gameStateUpdate', 'actionResult', 'legalActions', 'connected', 'playerJoined', 'playerLeft', 'error', 'pong'];
   return typeof msg.type === 'string' && validTypes.includes(msg.type) && msg.data !== undefined;
 }
 
@@ -115,6 +121,20 @@ export function createActionResultMessage(success: boolean, error?: string, game
   };
 }
 
+export function createLegalActionsMessage(playerId: string, actions: LegalAction[]): ServerMessage {
+  return {
+    type: 'legalActions',
+    data: { playerId, actions }
+  };
+}
+
+export function createPlayerLeftMessage(playerId: string): ServerMessage {
+  return {
+    type: 'playerLeft',
+    data: { playerId }
+  };
+}
+
 export function createPongMessage(timestamp: number): ServerMessage {
   return {
     type: 'pong',
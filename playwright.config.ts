@@ -68,5 +68,9 @@ export default defineConfig({
     url: 'http://localhost:3000',
     reuseExistingServer: !process.env.CI,
     timeout: 120 * 1000,
+    /* Keep games in a local SQLite file so restart tests run without Supabase */
+    env: {
+      GAME_REPOSITORY: process.env.GAME_REPOSITORY ?? 'sqlite',
+    },
   },
 });
\ No newline at end of file
@@ -0,0 +1,22 @@
+-- Event store for games: every engine transition is appended as a typed domain event, numbered
+-- from 1 within its game. State is rebuilt by folding the events after the latest snapshot.
+
+create table if not exists game_events (
+  game_id text not null,
+  sequence integer not null check (sequence > 0),
+  type text not null,
+  payload jsonb not null,
+  recorded_at timestamptz not null default now(),
+  primary key (game_id, sequence)
+);
+
+create index if not exists game_events_type_idx on game_events (game_id, type);
+
+-- The game state once every event up to and including `sequence` has been folded
+create table if not exists game_snapshots (
+  game_id text not null,
+  sequence integer not null check (sequence >= 0),
+  game_state jsonb not null,
+  created_at timestamptz not null default now(),
+  primary key (game_id, sequence)
+);
@@ -0,0 +1,10 @@
+-- Completed hand histories, one row per hand of a game. `history` holds the full HandHistory
+-- record, including every player's hole cards; players are sent redacted copies.
+
+create table if not exists hand_histories (
+  game_id text not null,
+  hand_number integer not null check (hand_number > 0),
+  history jsonb not null,
+  created_at timestamptz not null default now(),
+  primary key (game_id, hand_number)
+);
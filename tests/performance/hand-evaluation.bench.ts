@@ -0,0 +1,23 @@
+/**
+ * Hand evaluation benchmarks: the lookup-table fast path against the full evaluateHand result
+ * Run with `pnpm --filter app bench`; hand-evaluation.test.ts enforces the time budgets
+ */
+
+import { bench, describe } from 'vitest';
+import { evaluate7, encodeCards, evaluateHand, createDeck, shuffleDeck, cardToString } from '@bluepoker/shared';
+
+const hands = Array.from({ length: 1000 }, (_, i) => shuffleDeck(createDeck(), i + 1).slice(0, 7).map(cardToString));
+const encodedHands = hands.map(encodeCards);
+evaluate7(encodedHands[0]); // Build the lookup tables before timing
+
+describe('Seven-card evaluation', () => {
+  let next = 0;
+
+  bench('evaluate7 (card codes)', () => {
+    evaluate7(encodedHands[next++ % encodedHands.length]);
+  });
+
+  bench('evaluateHand (card strings)', () => {
+    evaluateHand(hands[next++ % hands.length]);
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * Hand evaluation time budgets. hand-evaluation.bench.ts reports the timings; these tests fail
+ * when evaluate7 misses its target or evaluateHand falls well behind its own.
+ */
+
+import { describe, test, expect } from 'vitest';
+import { evaluate7, encodeCards, evaluateHand, createDeck, shuffleDeck, cardToString } from '@bluepoker/shared';
+
+// Targets per evaluation (in microseconds)
+const PERFORMANCE_TARGETS = {
+  evaluate7: 1,       // Lookup tables on card codes
+  evaluateHand: 100   // Full result with cards and description, from card strings
+};
+
+// evaluateHand's target is a rough guide, so it only fails well past it on a slow CI runner.
+// evaluate7 is held to its target: the fastest round stays well under it even on one busy core.
+const CI_MARGIN = 5;
+
+const hands = Array.from({ length: 1000 }, (_, i) => shuffleDeck(createDeck(), i + 1).slice(0, 7).map(cardToString));
+const encodedHands = hands.map(encodeCards);
+
+// Fastest of several rounds, in microseconds per call, so one pause does not fail the run
+function measureMicroseconds(evaluate: (index: number) => void, calls: number): number {
+  const rounds = Array.from({ length: 5 }, () => {
+    const startTime = performance.now();
+    for (let i = 0; i < calls; i++) {
+      evaluate(i % hands.length);
+    }
+    return (performance.now() - startTime) * 1000 / calls;
+  });
+  return Math.min(...rounds);
+}
+
+describe('Hand Evaluation Performance', () => {
+  test('evaluate7 should stay within its budget', () => {
+    evaluate7(encodedHands[0]); // Build the lookup tables before timing
+
+    const microseconds = measureMicroseconds(index => evaluate7(encodedHands[index]), 100000);
+
+    expect(microseconds).toBeLessThan(PERFORMANCE_TARGETS.evaluate7);
+  });
+
+  test('evaluateHand should stay within its budget', () => {
+    const microseconds = measureMicroseconds(index => evaluateHand(hands[index]), 2000);
+
+    expect(microseconds).toBeLessThan(PERFORMANCE_TARGETS.evaluateHand * CI_MARGIN);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { GameState, createGame, dealNewHand } from '../../packages/shared/src/index'
+import { actionClock } from '../../packages/app/src/lib/action-clock'
+import { broadcaster } from '../../packages/app/src/lib/event-broadcaster'
+
+describe('Action Clock', () => {
+  let saved: GameState[]
+  const save = (_gameId: string, gameState: GameState) => {
+    saved.push(gameState)
+  }
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    saved = []
+  })
+
+  afterEach(() => {
+    actionClock.clear()
+    vi.useRealTimers()
+  })
+
+  it('should act for the player once their time and time bank run out', () => {
+    const broadcast = vi.spyOn(broadcaster, 'broadcast')
+    const state = dealNewHand(createGame('clock', ['Alice', 'Bob'], { actionTimeSeconds: 5, timeBankSeconds: 10 }))
+
+    actionClock.schedule('clock', state, save)
+    vi.advanceTimersByTime(14000)
+    expect(saved).toHaveLength(0)
+
+    vi.advanceTimersByTime(1000)
+    expect(saved).toHaveLength(1)
+    expect(saved[0].players[0].folded).toBe(true)
+    expect(broadcast).toHaveBeenCalledWith('clock', { type: 'gameStateUpdate', data: saved[0] })
+  })
+
+  it('should replace the running clock when the game moves on', () => {
+    const state = dealNewHand(createGame('clock', ['Alice', 'Bob'], { actionTimeSeconds: 5, timeBankSeconds: 0 }))
+
+    actionClock.schedule('clock', state, save)
+    actionClock.schedule('clock', { ...state, turnDeadline: Date.now() + 60000 }, save)
+    vi.advanceTimersByTime(10000)
+
+    expect(saved).toHaveLength(0)
+  })
+
+  it('should not run a clock when nobody is to act', () => {
+    const state = createGame('clock', ['Alice', 'Bob'])
+
+    actionClock.schedule('clock', state, save)
+    vi.advanceTimersByTime(120000)
+
+    expect(saved).toHaveLength(0)
+  })
+})
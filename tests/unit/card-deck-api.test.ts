@@ -7,7 +7,7 @@
 
 import { describe, it, expect, beforeEach } from 'vitest';
 import { TestFactories, TestAssertions, TestPerformance } from '../utils/test-helpers';
-import { createDeck, shuffleDeck, drawCards, Card } from '@bluepoker/shared';
+import { createDeck, shuffleDeck, drawCards, validateDeck, Card } from '@bluepoker/shared';
 
 describe('Card Model', () => {
   it('should create a valid card with suit and rank', () => {
@@ -59,6 +59,16 @@ describe('Deck Creation', () => {
       expect(rankCards.length).toBe(4);
     });
   });
+
+  it('should create a 36-card short deck without twos through fives', () => {
+    const deck = createDeck('short');
+
+    expect(deck.length).toBe(36);
+    expect(deck.every(card => card.value >= 6)).toBe(true);
+    expect(validateDeck(deck, 'short')).toBe(true);
+    expect(validateDeck(deck)).toBe(false);
+    expect(validateDeck(shuffleDeck(deck, 42), 'short')).toBe(true);
+  });
 });
 
 describe('Deck Shuffling', () => {
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { calculateEquity } from '../../packages/shared/src/equity';
+
+describe('Equity Calculation', () => {
+  it('should settle a complete board with a single deal', () => {
+    const result = calculateEquity([['Ah', 'Ad'], ['Kh', 'Kd']], { board: ['As', 'Ks', '2d', '7c', '9h'] });
+
+    expect(result.method).toBe('exhaustive');
+    expect(result.trials).toBe(1);
+    expect(result.players).toEqual([
+      { win: 1, tie: 0, equity: 1 },
+      { win: 0, tie: 0, equity: 0 }
+    ]);
+  });
+
+  it('should split the pot when the board plays', () => {
+    const result = calculateEquity([['2c', '3d'], ['4c', '5d']], { board: ['Ah', 'Kh', 'Qh', 'Jh', '10h'] });
+
+    expect(result.players).toEqual([
+      { win: 0, tie: 1, equity: 0.5 },
+      { win: 0, tie: 1, equity: 0.5 }
+    ]);
+  });
+
+  it('should enumerate every turn and river from the flop', () => {
+    const result = calculateEquity([['Ah', 'Kh'], ['Qc', 'Qd']], { board: ['2h', '7h', '9c'] });
+
+    expect(result.method).toBe('exhaustive');
+    expect(result.trials).toBe(990);
+    result.players.forEach(player => expect(player.win + player.tie).toBeLessThanOrEqual(1));
+    expect(result.players[0].equity + result.players[1].equity).toBeCloseTo(1, 10);
+    expect(result.players[0].equity).toBeGreaterThan(0.45);
+  });
+
+  it('should take out dead cards', () => {
+    const live = calculateEquity([['Ah', 'Kh'], ['Qc', 'Qd']], { board: ['2h', '7h', '9c'] });
+    const dead = calculateEquity([['Ah', 'Kh'], ['Qc', 'Qd']], { board: ['2h', '7h', '9c'], deadCards: ['3h', '4h', '5h', '6h'] });
+
+    expect(dead.trials).toBe(41 * 40 / 2);
+    expect(dead.players[0].equity).toBeLessThan(live.players[0].equity);
+  });
+
+  it('should sample preflop all-ins with Monte Carlo', () => {
+    const result = calculateEquity([['Ah', 'As'], ['Kh', 'Ks']], { iterations: 5000 });
+
+    expect(result.method).toBe('monte-carlo');
+    expect(result.trials).toBe(5000);
+    expect(result.players[0].equity).toBeGreaterThan(0.78);
+    expect(result.players[0].equity).toBeLessThan(0.86);
+  });
+
+  it('should deal ranges only hands that are not blocked', () => {
+    const result = calculateEquity(
+      [[['Ah', 'Ad'], ['Kh', 'Kd'], ['Qs', 'Qh']], ['Qc', 'Qd']],
+      { board: ['As', 'Ks', 'Qh', '7c', '2d'] }
+    );
+
+    // QsQh is blocked by the board, leaving aces (sets over sets) and kings (a set under)
+    expect(result.trials).toBe(2);
+    expect(result.players[0]).toEqual({ win: 1, tie: 0, equity: 1 });
+  });
+
+  it('should take ranges in notation', () => {
+    const result = calculateEquity(['QQ+, AKs', 'JJ'], { board: ['2c', '3d', '4h', '8s', '9c'] });
+
+    // Every pair and AKs against jacks on a dry board: the overpairs win, AKs loses
+    expect(result.method).toBe('exhaustive');
+    expect(result.trials).toBe(22 * 6);
+    expect(result.players[0].equity).toBeCloseTo(18 / 22, 10);
+  });
+
+  it('should count weighted hands in proportion to their weight', () => {
+    const result = calculateEquity(['AA:0.25, 22', 'KK'], { board: ['3c', '4d', '7h', '8s', 'Jc'] });
+
+    // Aces win and deuces lose, but aces are held a quarter as often
+    expect(result.players[0].equity).toBeCloseTo(0.25 / 1.25, 10);
+    expect(result.players[1].win).toBeCloseTo(1 / 1.25, 10);
+  });
+
+  it('should reject bad input', () => {
+    expect(() => calculateEquity([['Ah', 'Kh']])).toThrow('Equity needs between 2 and 10 hands');
+    expect(() => calculateEquity([['Ah', 'Kh'], ['Ah', 'Qd']])).toThrow('Duplicate card: Ah');
+    expect(() => calculateEquity([['Ah', 'Kh'], ['Qd']])).toThrow('Hand 2 must be two hole cards or a range of two-card hands');
+    expect(() => calculateEquity([['Ah', 'Kh'], ['Qd', 'Zz']])).toThrow('Invalid card string: Zz');
+    expect(() => calculateEquity([['Ah', 'Kh'], [['Ah', 'Ad'], ['Kh', 'Kd']]])).toThrow('Range 2 has no hands left');
+    expect(() => calculateEquity([['Ah', 'Kh'], ['Qd', 'Qc']], { iterations: 0 })).toThrow('Iterations must be a whole number');
+    expect(() => calculateEquity([['Ah', 'Kh'], 'QQ+, AKx'])).toThrow('Invalid range notation: AKx');
+    expect(() => calculateEquity([['Ah', 'Kh'], ''])).toThrow('Range 2 has no hands left');
+  });
+});
@@ -0,0 +1,362 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import type { NextRequest } from 'next/server';
+import { GameState } from '../../packages/shared/src/game-state';
+import {
+  GameCommand,
+  GameEvent,
+  StoredGameEvent,
+  applyGameEvent,
+  executeGameCommand,
+  rebuildGameState
+} from '../../packages/shared/src/game-events';
+import { gameStore, parseDispatchOptions } from '../../packages/app/src/lib/game-store';
+import { gameEventStore } from '../../packages/app/src/lib/game-event-store';
+import { handHistoryStore } from '../../packages/app/src/lib/hand-history-store';
+import { gamePersistenceService, reconnectionService } from '../../packages/app/src/lib/persistence-service';
+import { GET as getRestoredGame } from '../../packages/app/src/app/api/game/[gameId]/restore/route';
+import { POST as postReconnect } from '../../packages/app/src/app/api/game/[gameId]/reconnect/route';
+
+// Run commands in order, numbering the events as the event store would
+function runCommands(commands: Array<GameCommand | ((state: GameState) => GameCommand)>): { gameState: GameState; log: StoredGameEvent[] } {
+  let gameState: GameState | undefined;
+  const log: StoredGameEvent[] = [];
+  commands.forEach(next => {
+    const command = typeof next === 'function' ? next(gameState!) : next;
+    const result = executeGameCommand(gameState, command);
+    expect(result.error).toBeUndefined();
+    gameState = result.gameState;
+    result.events.forEach(event => log.push({ gameId: gameState!.gameId, sequence: log.length + 1, event, recordedAt: new Date().toISOString() }));
+  });
+  return { gameState: gameState!, log };
+}
+
+// The player to act checks, or calls when facing a bet
+const checkOrCall = (state: GameState): GameCommand => {
+  const player = state.players[state.activePlayerIndex];
+  return { type: 'act', playerId: player.id, action: state.currentBet > player.currentBet ? 'call' : 'check' };
+};
+
+// Call the restore route as the server would
+function restoreGame(gameId: string): Promise<Response> {
+  return getRestoredGame(new Request(`http://localhost:3000/api/game/${gameId}/restore`) as NextRequest, { params: Promise.resolve({ gameId }) });
+}
+
+const playedHand: Array<GameCommand | ((state: GameState) => GameCommand)> = [
+  { type: 'create', gameId: 'events', playerNames: ['Alice', 'Bob', 'Charlie'] },
+  { type: 'deal' },
+  ...Array<typeof checkOrCall>(12).fill(checkOrCall)
+];
+
+describe('Game Events', () => {
+  it('should record each decision followed by what it led to', () => {
+    const { gameState, log } = runCommands(playedHand);
+    const types = log.map(stored => stored.event.type);
+
+    expect(gameState.phase).toBe('complete');
+    expect(types.slice(0, 4)).toEqual(['GameCreated', 'HandStarted', 'BlindsPosted', 'CardsDealt']);
+    expect(types.filter(type => type === 'CardsDealt')).toHaveLength(3 + 3); // Hole cards, flop, turn, river
+    expect(types.filter(type => type === 'PlayerActed')).toHaveLength(12);
+    expect(types.slice(-1)).toEqual(['HandCompleted']);
+    expect(types).toContain('PotAwarded');
+
+    const blinds = log.find(stored => stored.event.type === 'BlindsPosted')!.event;
+    expect(blinds).toEqual({
+      type: 'BlindsPosted',
+      posts: [
+        { playerId: gameState.players[1].id, blind: 'small blind', amount: 10 },
+        { playerId: gameState.players[2].id, blind: 'big blind', amount: 20 }
+      ]
+    });
+    const board = log.flatMap(stored => stored.event.type === 'CardsDealt' && !stored.event.playerId ? [stored.event] : []);
+    expect(board.map(event => event.type === 'CardsDealt' && event.street)).toEqual(['flop', 'turn', 'river']);
+  });
+
+  it('should rebuild exactly the live state by folding the events', () => {
+    const { gameState, log } = runCommands([
+      ...playedHand,
+      state => ({ type: 'sit-out', playerId: state.players[0].id }),
+      { type: 'new-hand' },
+      checkOrCall
+    ]);
+
+    expect(rebuildGameState(log)).toEqual(gameState);
+    expect(rebuildGameState(log.slice(0, 2))).toEqual(rebuildGameState(log.slice(0, 2).reverse()));
+  });
+
+  it('should continue from a snapshot and skip the events it covers', () => {
+    const { gameState, log } = runCommands(playedHand);
+    const snapshot = { gameId: 'events', sequence: 10, gameState: rebuildGameState(log.slice(0, 10)) };
+
+    expect(rebuildGameState(log, snapshot)).toEqual(gameState);
+    expect(rebuildGameState(log.slice(10), snapshot)).toEqual(gameState);
+  });
+
+  it('should refuse a gap in the log', () => {
+    const { log } = runCommands(playedHand);
+
+    expect(() => rebuildGameState(log.filter(stored => stored.sequence !== 5))).toThrow('Game event log is missing event 5');
+    expect(() => rebuildGameState([])).toThrow('Game event log is empty');
+  });
+
+  it('should return refused commands without events', () => {
+    const { gameState } = runCommands(playedHand.slice(0, 2));
+    const waiting = gameState.players.find((_, index) => index !== gameState.activePlayerIndex)!;
+
+    const result = executeGameCommand(gameState, { type: 'act', playerId: waiting.id, action: 'check' });
+    expect(result).toEqual({ success: false, gameState, events: [], error: 'not your turn' });
+    expect(executeGameCommand(gameState, { type: 'timeout', now: Date.now() }).error).toBe('Action clock has not run out');
+  });
+
+  it('should record a timed-out player as acting when the clock ran out', () => {
+    const { gameState } = runCommands(playedHand.slice(0, 2));
+    const active = gameState.players[gameState.activePlayerIndex];
+    const expired = gameState.turnDeadline! + active.timeBankRemaining * 1000;
+
+    const result = executeGameCommand(gameState, { type: 'timeout', now: expired });
+    expect(result.events[0]).toEqual({ type: 'PlayerActed', playerId: active.id, action: 'fold', at: expired, timedOut: true });
+    expect(result.gameState.players[gameState.activePlayerIndex].folded).toBe(true);
+  });
+
+  it('should only fold decisions into the state', () => {
+    const { gameState } = runCommands(playedHand.slice(0, 2));
+    const fact: GameEvent = { type: 'PotAwarded', playerId: gameState.players[0].id, amount: 1000, potIndex: 0 };
+
+    expect(applyGameEvent(gameState, fact)).toBe(gameState);
+    expect(() => applyGameEvent(undefined, fact)).toThrow('PotAwarded event has no game to apply to');
+    expect(() => applyGameEvent(gameState, { type: 'PlayerSatIn', playerId: gameState.players[0].id }))
+      .toThrow('Cannot apply PlayerSatIn event: Player is not sitting out');
+  });
+});
+
+describe('Game Event Store', () => {
+  afterEach(() => {
+    gameStore.clear();
+  });
+
+  it('should number the events of each dispatched command and rebuild the stored game', () => {
+    gameStore.dispatch('store', { type: 'create', gameId: 'store', playerNames: ['Alice', 'Bob'], userIds: { Alice: 'user-1' } });
+    gameStore.dispatch('store', { type: 'deal' });
+    gameStore.dispatch('store', checkOrCall(gameStore.get('store')!));
+
+    const log = gameEventStore.list('store');
+    expect(log.map(stored => stored.sequence)).toEqual(log.map((_, index) => index + 1));
+    expect(rebuildGameState(log)).toEqual(gameStore.get('store'));
+    expect(gameStore.get('store')!.players[0].userId).toBe('user-1');
+  });
+
+  it('should record nothing for a refused command', () => {
+    gameStore.dispatch('store', { type: 'create', gameId: 'store', playerNames: ['Alice', 'Bob'] });
+    const before = gameStore.get('store');
+
+    const result = gameStore.dispatch('store', { type: 'sit-in', playerId: before!.players[0].id });
+    expect(result.success).toBe(false);
+    expect(gameEventStore.list('store')).toHaveLength(1);
+    expect(gameStore.get('store')).toBe(before);
+  });
+});
+
+describe('Game Re-creation', () => {
+  afterEach(() => {
+    gameStore.clear();
+    handHistoryStore.clear();
+  });
+
+  // Deal a hand and fold it round to the big blind
+  const playFoldedHand = (gameId: string) => {
+    gameStore.dispatch(gameId, { type: 'deal' });
+    while (gameStore.get(gameId)!.phase !== 'complete') {
+      const state = gameStore.get(gameId)!;
+      gameStore.dispatch(gameId, { type: 'act', playerId: state.players[state.activePlayerIndex].id, action: 'fold' });
+    }
+  };
+
+  it('should keep the hands of a game created again, not the old game\'s', async () => {
+    gameStore.dispatch('recreated', { type: 'create', gameId: 'recreated', playerNames: ['Alice', 'Bob'] });
+    playFoldedHand('recreated');
+    gameStore.dispatch('recreated', { type: 'create', gameId: 'recreated', playerNames: ['Alice', 'Bob', 'Charlie'] });
+    playFoldedHand('recreated');
+    await new Promise(resolve => setTimeout(resolve, 0)); // Let the queued writes finish
+
+    const hands = await handHistoryStore.list('recreated');
+    expect(hands.map(hand => [hand.handNumber, hand.seats.length])).toEqual([[1, 3]]);
+
+    // The same after a restart, when the hands come from storage
+    handHistoryStore.clear();
+    expect((await handHistoryStore.list('recreated')).map(hand => hand.seats.length)).toEqual([3]);
+  });
+});
+
+describe('Versions and Idempotency', () => {
+  afterEach(() => {
+    gameStore.clear();
+  });
+
+  it('should move the version on with each command that runs', () => {
+    const created = gameStore.dispatch('versions', { type: 'create', gameId: 'versions', playerNames: ['Alice', 'Bob'] });
+    const dealt = gameStore.dispatch('versions', { type: 'deal' }, { expectedVersion: 0 });
+    const refused = gameStore.dispatch('versions', { type: 'new-hand' });
+
+    expect(created.gameState.version).toBe(0);
+    expect(dealt.gameState.version).toBe(1);
+    expect(refused).toMatchObject({ success: false, error: 'Current hand is not complete' });
+    expect(gameStore.get('versions')!.version).toBe(1);
+  });
+
+  it('should refuse a stale expected version as a conflict without running the command', () => {
+    gameStore.dispatch('versions', { type: 'create', gameId: 'versions', playerNames: ['Alice', 'Bob'] });
+    gameStore.dispatch('versions', { type: 'deal' });
+    const state = gameStore.get('versions')!;
+
+    const result = gameStore.dispatch('versions', checkOrCall(state), { expectedVersion: 0 });
+    expect(result).toMatchObject({ success: false, conflict: true, error: 'Game is at version 1, not 0' });
+    expect(gameStore.get('versions')).toBe(state);
+    expect(gameEventStore.list('versions').filter(stored => stored.event.type === 'PlayerActed')).toHaveLength(0);
+  });
+
+  it('should return the first result for a repeated idempotency key', () => {
+    gameStore.dispatch('versions', { type: 'create', gameId: 'versions', playerNames: ['Alice', 'Bob'] });
+    gameStore.dispatch('versions', { type: 'deal' });
+    const command = checkOrCall(gameStore.get('versions')!);
+
+    const first = gameStore.dispatch('versions', command, { expectedVersion: 1, idempotencyKey: 'retry' });
+    const repeat = gameStore.dispatch('versions', command, { expectedVersion: 1, idempotencyKey: 'retry' });
+    expect(repeat).toEqual({ ...first, duplicate: true });
+    expect(gameStore.get('versions')!.version).toBe(2);
+    expect(gameEventStore.list('versions').filter(stored => stored.event.type === 'PlayerActed')).toHaveLength(1);
+  });
+
+  it('should replay a key with the result it first had after the game has moved on', () => {
+    gameStore.dispatch('versions', { type: 'create', gameId: 'versions', playerNames: ['Alice', 'Bob'] });
+    gameStore.dispatch('versions', { type: 'deal' });
+    const command = checkOrCall(gameStore.get('versions')!);
+    const first = structuredClone(gameStore.dispatch('versions', command, { idempotencyKey: 'replayed' }));
+
+    gameStore.dispatch('versions', checkOrCall(gameStore.get('versions')!));
+    gameStore.dispatch('versions', checkOrCall(gameStore.get('versions')!));
+    const repeat = gameStore.dispatch('versions', command, { idempotencyKey: 'replayed' });
+
+    expect(gameStore.get('versions')!.version).toBe(4);
+    expect(repeat).toEqual({ ...first, duplicate: true });
+  });
+
+  it('should let a refused request be retried with the same key', () => {
+    gameStore.dispatch('versions', { type: 'create', gameId: 'versions', playerNames: ['Alice', 'Bob'] });
+    gameStore.dispatch('versions', { type: 'deal' });
+
+    const early = gameStore.dispatch('versions', { type: 'new-hand' }, { idempotencyKey: 'next-hand' });
+    const state = gameStore.get('versions')!;
+    gameStore.dispatch('versions', { type: 'act', playerId: state.players[state.activePlayerIndex].id, action: 'fold' });
+    const retried = gameStore.dispatch('versions', { type: 'new-hand' }, { idempotencyKey: 'next-hand' });
+
+    expect(early).toMatchObject({ success: false, error: 'Current hand is not complete' });
+    expect(retried).toMatchObject({ success: true });
+    expect(retried.duplicate).toBeUndefined();
+    expect(gameStore.get('versions')!.handNumber).toBe(2);
+  });
+
+  it('should run another player\'s command under a key already used at the table', () => {
+    gameStore.dispatch('versions', { type: 'create', gameId: 'versions', playerNames: ['Alice', 'Bob'] });
+    gameStore.dispatch('versions', { type: 'deal' });
+    const first = gameStore.dispatch('versions', checkOrCall(gameStore.get('versions')!), { idempotencyKey: 'shared' });
+    const second = gameStore.dispatch('versions', checkOrCall(gameStore.get('versions')!), { idempotencyKey: 'shared' });
+
+    expect(first.success).toBe(true);
+    expect(second).toMatchObject({ success: true });
+    expect(second.duplicate).toBeUndefined();
+    expect(gameStore.get('versions')!.version).toBe(3);
+    expect(gameEventStore.list('versions').filter(stored => stored.event.type === 'PlayerActed')).toHaveLength(2);
+  });
+
+  it('should refuse a key reused by the same player for a different command', () => {
+    gameStore.dispatch('versions', { type: 'create', gameId: 'versions', playerNames: ['Alice', 'Bob'] });
+    gameStore.dispatch('versions', { type: 'deal' });
+    const command = checkOrCall(gameStore.get('versions')!);
+    gameStore.dispatch('versions', command, { idempotencyKey: 'reused' });
+    const state = gameStore.get('versions')!;
+
+    const reused = gameStore.dispatch('versions', { ...command, action: 'fold' }, { idempotencyKey: 'reused' });
+    expect(reused).toMatchObject({ success: false, error: 'idempotencyKey was already used for a different command' });
+    expect(reused.duplicate).toBeUndefined();
+    expect(gameStore.get('versions')).toBe(state);
+  });
+
+  it('should reject malformed concurrency options', () => {
+    expect(parseDispatchOptions({ expectedVersion: 2, idempotencyKey: 'key' })).toEqual({ expectedVersion: 2, idempotencyKey: 'key' });
+    expect(parseDispatchOptions({ expectedVersion: -1 })).toBe('expectedVersion must be a non-negative integer');
+    expect(parseDispatchOptions({ idempotencyKey: '' })).toBe('idempotencyKey must be a string of 1 to 200 characters');
+  });
+});
+
+describe('Game Restore', () => {
+  afterEach(() => {
+    gameStore.clear();
+  });
+
+  it('should not bring a deleted game back', async () => {
+    gameStore.dispatch('deleted', { type: 'create', gameId: 'deleted', playerNames: ['Alice', 'Bob'] });
+    gameStore.dispatch('deleted', { type: 'deal' });
+    await new Promise(resolve => setTimeout(resolve, 0)); // Let the queued writes finish
+
+    // Each restore starts from storage, as after a restart
+    gameStore.clear();
+    expect((await restoreGame('deleted')).status).toBe(200);
+
+    gameStore.clear();
+    expect(await gamePersistenceService.cleanupGame('deleted')).toBe(true);
+    expect((await restoreGame('deleted')).status).toBe(404);
+  });
+
+  it('should refuse to restore a state that breaks the game invariants', async () => {
+    const { gameState } = runCommands([{ type: 'create', gameId: 'corrupt', playerNames: ['Alice', 'Bob'] }]);
+    const players = gameState.players.map(player => ({ ...player, chips: -5 }));
+    await gamePersistenceService.persistGameSnapshot({ gameId: 'corrupt', sequence: 1, gameState: { ...gameState, players } });
+
+    const response = await restoreGame('corrupt');
+    expect(response.status).toBe(500);
+    expect(gameStore.has('corrupt')).toBe(false);
+  });
+
+  it('should carry on the event log of a game put back by a reconnect', async () => {
+    gameStore.dispatch('reconnected', { type: 'create', gameId: 'reconnected', playerNames: ['Alice', 'Bob'] });
+    gameStore.dispatch('reconnected', { type: 'deal' });
+    const playerId = gameStore.get('reconnected')!.players[0].id;
+    await new Promise(resolve => setTimeout(resolve, 0)); // Let the queued writes finish
+
+    // After a restart the first request for the game is a reconnect
+    gameStore.clear();
+    const token = reconnectionService.generateToken('reconnected', playerId);
+    await reconnectionService.storeToken(token);
+    const request = new Request('http://localhost:3000/api/game/reconnected/reconnect', {
+      method: 'POST',
+      body: JSON.stringify({ playerId, reconnectToken: token.token })
+    }) as NextRequest;
+    expect((await postReconnect(request, { params: Promise.resolve({ gameId: 'reconnected' }) })).status).toBe(200);
+
+    const acted = gameStore.dispatch('reconnected', checkOrCall(gameStore.get('reconnected')!));
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(gameEventStore.list('reconnected').at(-1)!.sequence).toBeGreaterThan(2);
+
+    gameStore.clear();
+    const restored = await (await restoreGame('reconnected')).json();
+    expect(restored.version).toBe(acted.gameState.version);
+    expect(restored.pot).toBe(acted.gameState.pot);
+  });
+
+  it('should carry on a log that cannot be folded from the state restored in its place', async () => {
+    gameStore.dispatch('rebased', { type: 'create', gameId: 'rebased', playerNames: ['Alice', 'Bob'] });
+    gameStore.dispatch('rebased', { type: 'deal' });
+    await gamePersistenceService.appendGameEvents([{ ...gameEventStore.list('rebased').at(-1)!, sequence: 50 }]);
+    await new Promise(resolve => setTimeout(resolve, 0)); // Let the queued writes finish
+
+    // The gap leaves only the persisted state to restore from
+    gameStore.clear();
+    expect((await restoreGame('rebased')).status).toBe(200);
+    const acted = gameStore.dispatch('rebased', checkOrCall(gameStore.get('rebased')!));
+    await new Promise(resolve => setTimeout(resolve, 0));
+    expect(gameEventStore.list('rebased').at(-1)!.sequence).toBeGreaterThan(50);
+
+    gameStore.clear();
+    const restored = await (await restoreGame('rebased')).json();
+    expect(restored.version).toBe(acted.gameState.version);
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect, afterEach } from 'vitest'
+import { mkdtempSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { GameState, StoredGameEvent, createGame, dealNewHand, executeGameCommand, rebuildGameState } from '../../packages/shared/src/index'
+import { GameRepository, InMemoryGameRepository, createGameRepository } from '../../packages/app/src/lib/game-repository'
+import { SqliteGameRepository } from '../../packages/app/src/lib/sqlite-game-repository'
+import { GamePersistenceService, ReconnectionService } from '../../packages/app/src/lib/persistence-service'
+
+// Create a game and deal a hand, numbering the events as the event store would
+function playedGame(gameId: string): { gameState: GameState; events: StoredGameEvent[] } {
+  const created = executeGameCommand(undefined, { type: 'create', gameId, playerNames: ['Alice', 'Bob'] })
+  const dealt = executeGameCommand(created.gameState, { type: 'deal' })
+  const events = [...created.events, ...dealt.events].map((event, index) => ({
+    gameId,
+    sequence: index + 1,
+    event,
+    recordedAt: new Date().toISOString()
+  }))
+  return { gameState: dealt.gameState, events }
+}
+
+const backends: Array<[string, () => GameRepository]> = [
+  ['memory', () => new InMemoryGameRepository()],
+  ['sqlite', () => new SqliteGameRepository(':memory:')]
+]
+
+describe.each(backends)('Game Repository (%s)', (_name, createRepository) => {
+  it('should save games with a version that counts the saves', async () => {
+    const repository = createRepository()
+    const gameState = dealNewHand(createGame('saved', ['Alice', 'Bob']))
+
+    expect((await repository.saveGame('saved', gameState)).version).toBe(1)
+    expect((await repository.saveGame('saved', gameState)).version).toBe(2)
+    expect(await repository.loadGame('saved')).toEqual(JSON.parse(JSON.stringify(gameState)))
+    expect(await repository.loadGame('missing')).toBeNull()
+
+    await repository.deleteGame('saved')
+    expect(await repository.loadGame('saved')).toBeNull()
+  })
+
+  it('should keep a game event log and continue it from the latest snapshot', async () => {
+    const repository = createRepository()
+    const { gameState, events } = playedGame('log')
+
+    await repository.appendGameEvents(events)
+    await expect(repository.appendGameEvents(events.slice(0, 1))).rejects.toThrow()
+    expect(rebuildGameState((await repository.loadGameEventLog('log'))!.events)).toEqual(gameState)
+
+    const snapshot = { gameId: 'log', sequence: 2, gameState: rebuildGameState(events.slice(0, 2)) }
+    await repository.saveGameSnapshot(snapshot)
+    const log = (await repository.loadGameEventLog('log'))!
+    expect(log.snapshot?.sequence).toBe(2)
+    expect(log.events[0].sequence).toBe(3)
+    expect(rebuildGameState(log.events, log.snapshot)).toEqual(gameState)
+    expect(await repository.loadGameEventLog('missing')).toBeNull()
+  })
+
+  it('should keep hand histories in hand order', async () => {
+    const repository = createRepository()
+    const history = dealNewHand(createGame('hands', ['Alice', 'Bob'])).handHistory!
+
+    await repository.saveHandHistory({ ...history, handNumber: 2 })
+    await repository.saveHandHistory(history)
+    expect((await repository.loadHandHistories('hands')).map(hand => hand.handNumber)).toEqual([1, 2])
+
+    await repository.deleteHandHistories('hands')
+    expect(await repository.loadHandHistories('hands')).toEqual([])
+  })
+
+  it('should delete a game along with everything it could be rebuilt from', async () => {
+    const repository = createRepository()
+    const { gameState, events } = playedGame('deleted')
+    await repository.saveGame('deleted', gameState)
+    await repository.appendGameEvents(events)
+    await repository.saveGameSnapshot({ gameId: 'deleted', sequence: 1, gameState: rebuildGameState(events.slice(0, 1)) })
+    await repository.saveHandHistory(gameState.handHistory!)
+    await repository.saveGame('stale', gameState)
+    await repository.appendGameEvents(playedGame('stale').events)
+
+    await repository.deleteGame('deleted')
+    expect(await repository.loadGame('deleted')).toBeNull()
+    expect(await repository.loadGameEventLog('deleted')).toBeNull()
+    expect(await repository.loadHandHistories('deleted')).toEqual([])
+
+    expect(await repository.deleteGamesUpdatedBefore(new Date(Date.now() + 1000))).toBe(1)
+    expect(await repository.loadGameEventLog('stale')).toBeNull()
+  })
+
+  it('should store, expire and delete reconnection tokens', async () => {
+    const repository = createRepository()
+    const reconnection = new ReconnectionService(repository)
+    const live = reconnection.generateToken('tokens', 'player-1')
+    const expired = { ...reconnection.generateToken('tokens', 'player-2'), expiresAt: new Date(Date.now() - 1000).toISOString() }
+
+    expect(await reconnection.storeToken(live)).toBe(true)
+    expect(await reconnection.storeToken(expired)).toBe(true)
+    expect(await reconnection.validateToken(live.token)).toEqual({ valid: true, gameId: 'tokens', playerId: 'player-1' })
+    expect(await reconnection.validateToken(expired.token)).toEqual({ valid: false, expired: true })
+
+    expect(await reconnection.cleanupExpiredTokens()).toBe(1)
+    await reconnection.invalidateToken(live.token)
+    expect(await repository.findReconnectionToken(live.token)).toBeNull()
+  })
+})
+
+describe('Game Repository Selection', () => {
+  let directory: string | undefined
+
+  afterEach(() => {
+    if (directory) {
+      rmSync(directory, { recursive: true, force: true })
+      directory = undefined
+    }
+  })
+
+  it('should pick the backend from configuration', () => {
+    expect(createGameRepository({ GAME_REPOSITORY: 'memory' }).kind).toBe('memory')
+    expect(createGameRepository({ GAME_REPOSITORY: 'sqlite', GAME_DATABASE_PATH: ':memory:' }).kind).toBe('sqlite')
+    expect(createGameRepository({ NEXT_PUBLIC_SUPABASE_URL: 'http://localhost:54321', NEXT_PUBLIC_SUPABASE_ANON_KEY: 'key' }).kind).toBe('supabase')
+    expect(() => createGameRepository({ GAME_REPOSITORY: 'postgres' })).toThrow('Unknown GAME_REPOSITORY "postgres"')
+    expect(() => createGameRepository({ GAME_REPOSITORY: 'supabase' })).toThrow('GAME_REPOSITORY=supabase needs')
+  })
+
+  it('should restore games from a SQLite file after a restart', async () => {
+    directory = mkdtempSync(join(tmpdir(), 'bluepoker-'))
+    const path = join(directory, 'games.sqlite')
+    const { gameState, events } = playedGame('restart')
+
+    const before = new SqliteGameRepository(path)
+    const persistence = new GamePersistenceService(before)
+    expect(await persistence.appendGameEvents(events)).toBe(true)
+    await persistence.persistGame('restart', gameState)
+    before.close()
+
+    // A new server process opens the same file
+    const after = new GamePersistenceService(new SqliteGameRepository(path))
+    const log = (await after.restoreGameEvents('restart'))!
+    expect(rebuildGameState(log.events, log.snapshot)).toEqual(gameState)
+    expect((await after.restoreGame('restart'))?.handNumber).toBe(1)
+  })
+})
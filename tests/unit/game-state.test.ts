@@ -1,6 +1,10 @@
 import { describe, it, expect, beforeEach } from 'vitest';
-import { GameState, Player, createGame, executePlayerAction, dealNewHand, determineWinner } from '../../packages/shared/src/game-state';
-import { Card, cardToString } from '../../packages/shared/src/cards';
+import { GameState, Player, PlayerAction, createGame, executePlayerAction, dealNewHand, determineWinner, startNewHand, calculatePots, countTableChips, getLegalActions, createTableConfig, getActionClockExpiry, handleActionTimeout, sitOut, sitIn, addChips, DEFAULT_TABLE_CONFIG } from '../../packages/shared/src/game-state';
+import { Card, cardToString, createDeck, stringToCard } from '../../packages/shared/src/cards';
+import { replayHand } from '../../packages/shared/src/hand-replay';
+import { verifyHandShuffle } from '../../packages/shared/src/shuffle';
+import { redactGameStateFor } from '../../packages/shared/src/state-redaction';
+import { redactHandHistoryFor } from '../../packages/shared/src/hand-history';
 
 describe('Game State Management', () => {
   let gameState: GameState;
@@ -254,4 +258,1151 @@ describe('Game State Management', () => {
       expect(true).toBe(true);
     });
   });
-});
\ No newline at end of file
+
+  describe('Multi-seat Games', () => {
+    const act = (state: GameState, action: 'fold' | 'call' | 'raise', amount?: number) => {
+      const result = executePlayerAction(state, state.players[state.activePlayerIndex].id, action, amount);
+      expect(result.success).toBe(true);
+      return result.gameState;
+    };
+
+    it('should create games with 3-10 players', () => {
+      const ringGame = createGame('ring', ['A', 'B', 'C', 'D', 'E', 'F']);
+
+      expect(ringGame.players).toHaveLength(6);
+      expect(ringGame.playersActed).toEqual([false, false, false, false, false, false]);
+    });
+
+    it('should reject fewer than 2 or more than 10 players', () => {
+      expect(() => createGame('solo', ['A'])).toThrow();
+      expect(() => createGame('crowded', Array.from({ length: 11 }, (_, i) => `P${i}`))).toThrow();
+    });
+
+    it('should post blinds left of the button and start preflop action UTG', () => {
+      const state = dealNewHand(createGame('ring', ['A', 'B', 'C', 'D', 'E', 'F']));
+
+      expect(state.dealerIndex).toBe(0);
+      expect(state.players[1].currentBet).toBe(10);
+      expect(state.players[2].currentBet).toBe(20);
+      expect(state.activePlayerIndex).toBe(3);
+      expect(state.pot).toBe(30);
+      state.players.forEach(player => expect(player.holeCards).toHaveLength(2));
+      expect(state.deck).toHaveLength(52 - 12);
+    });
+
+    it('should rotate button and blinds between hands', () => {
+      let state = dealNewHand(createGame('ring', ['A', 'B', 'C', 'D']));
+      // Everyone folds to the big blind
+      state = act(state, 'fold');
+      state = act(state, 'fold');
+      state = act(state, 'fold');
+      expect(state.phase).toBe('complete');
+      expect(state.winner).toBe(2);
+
+      state = startNewHand(state);
+      expect(state.dealerIndex).toBe(1);
+      expect(state.players[2].currentBet).toBe(10);
+      expect(state.players[3].currentBet).toBe(20);
+      expect(state.activePlayerIndex).toBe(0);
+    });
+
+    it('should give the big blind its option and act first left of the button postflop', () => {
+      let state = dealNewHand(createGame('ring', ['A', 'B', 'C']));
+      expect(state.activePlayerIndex).toBe(0); // Button is UTG three-handed
+
+      state = act(state, 'call');
+      state = act(state, 'call');
+      expect(state.phase).toBe('preflop');
+      expect(state.activePlayerIndex).toBe(2); // Big blind option
+
+      state = act(state, 'call');
+      expect(state.phase).toBe('flop');
+      expect(state.activePlayerIndex).toBe(1); // Small blind first postflop
+      expect(state.pot).toBe(60);
+    });
+
+    it('should continue the hand when one of many players folds', () => {
+      let state = dealNewHand(createGame('ring', ['A', 'B', 'C', 'D']));
+
+      state = act(state, 'fold'); // UTG
+      expect(state.phase).toBe('preflop');
+      expect(state.players[3].folded).toBe(true);
+      expect(state.activePlayerIndex).toBe(0);
+
+      state = act(state, 'raise', 60);
+      state = act(state, 'fold'); // Small blind
+      expect(state.activePlayerIndex).toBe(2);
+
+      state = act(state, 'call');
+      expect(state.phase).toBe('flop');
+      expect(state.activePlayerIndex).toBe(2); // Folded small blind is skipped
+    });
+
+    it('should deal out players with no chips', () => {
+      const game = createGame('ring', ['A', 'B', 'C']);
+      game.players[1].chips = 0;
+      const state = dealNewHand(game);
+
+      expect(state.players[1].folded).toBe(true);
+      expect(state.players[1].holeCards).toHaveLength(0);
+      // Heads-up between the remaining seats: the dealer posts the small blind
+      expect(state.players[0].currentBet).toBe(10);
+      expect(state.players[2].currentBet).toBe(20);
+      expect(state.activePlayerIndex).toBe(0);
+    });
+  });
+
+  describe('Side Pots', () => {
+    const card = (rank: Card['rank'], suit: Card['suit'], value: number): Card => ({ rank, suit, value });
+
+    it('should build main and side pots from player contributions', () => {
+      const players = createGame('pots', ['A', 'B', 'C']).players;
+      players[0].totalBet = 100;
+      players[1].totalBet = 300;
+      players[2].totalBet = 300;
+
+      expect(calculatePots(players)).toEqual([
+        { amount: 300, eligiblePlayerIds: [players[0].id, players[1].id, players[2].id] },
+        { amount: 400, eligiblePlayerIds: [players[1].id, players[2].id] }
+      ]);
+    });
+
+    it('should keep folded chips in the pot without making the player eligible', () => {
+      const players = createGame('pots', ['A', 'B', 'C']).players;
+      players[0].totalBet = 200;
+      players[0].folded = true;
+      players[1].totalBet = 150;
+      players[2].totalBet = 150;
+
+      expect(calculatePots(players)).toEqual([
+        { amount: 500, eligiblePlayerIds: [players[1].id, players[2].id] }
+      ]);
+    });
+
+    it('should award the side pot to the best eligible hand when a short stack wins the main pot', () => {
+      const game = createGame('pots', ['Short', 'Big', 'Other']);
+      game.players[0].chips = 100;
+      let state = dealNewHand(game);
+
+      // Short stack (button, UTG) shoves, both blinds call and check it down
+      state = executePlayerAction(state, state.players[0].id, 'raise', 100).gameState;
+      state = executePlayerAction(state, state.players[1].id, 'raise', 300).gameState;
+      state = executePlayerAction(state, state.players[2].id, 'call').gameState;
+      expect(state.pots.map(p => p.amount)).toEqual([300, 400]);
+
+      state.players[0].holeCards = [card('A', 'clubs', 14), card('A', 'diamonds', 14)];
+      state.players[1].holeCards = [card('K', 'clubs', 13), card('K', 'diamonds', 13)];
+      state.players[2].holeCards = [card('2', 'clubs', 2), card('7', 'diamonds', 7)];
+      state.communityCards = [
+        card('3', 'hearts', 3), card('8', 'spades', 8), card('9', 'hearts', 9),
+        card('J', 'spades', 11), card('4', 'hearts', 4)
+      ];
+      state.phase = 'showdown';
+      determineWinner(state);
+
+      expect(state.players[0].chips).toBe(300); // Main pot only
+      expect(state.players[1].chips).toBe(1000 - 300 + 400); // Side pot
+      expect(state.players[2].chips).toBe(700);
+      expect(state.winner).toBe(0);
+      expect(state.pots).toEqual([]);
+    });
+
+    it('should refund the uncalled part of an all-in bet', () => {
+      const game = createGame('pots', ['Big', 'Short']);
+      game.players[1].chips = 200;
+      let state = dealNewHand(game);
+
+      state = executePlayerAction(state, state.players[0].id, 'raise', 1000).gameState;
+      state = executePlayerAction(state, state.players[1].id, 'call').gameState;
+
+      expect(state.phase).toBe('complete');
+      const totalChips = state.players.reduce((total, p) => total + p.chips, 0);
+      expect(totalChips).toBe(1200);
+      // Whoever wins, the big stack can never lose more than the short stack covered
+      expect(state.players[0].chips).toBeGreaterThanOrEqual(800);
+    });
+  });
+
+  describe('Check, Bet and All-in Actions', () => {
+    beforeEach(() => {
+      gameState = dealNewHand(gameState);
+      // Limp and check to the flop
+      gameState = executePlayerAction(gameState, gameState.players[0].id, 'call').gameState;
+      gameState = executePlayerAction(gameState, gameState.players[1].id, 'check').gameState;
+    });
+
+    it('should reject checking facing a bet', () => {
+      const bet = executePlayerAction(gameState, gameState.players[1].id, 'bet', 40).gameState;
+      const result = executePlayerAction(bet, bet.players[0].id, 'check');
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Cannot check');
+    });
+
+    it('should advance after both players check', () => {
+      gameState = executePlayerAction(gameState, gameState.players[1].id, 'check').gameState;
+      gameState = executePlayerAction(gameState, gameState.players[0].id, 'check').gameState;
+      expect(gameState.phase).toBe('turn');
+    });
+
+    it('should open the betting with a bet and reject bets facing a bet', () => {
+      const bet = executePlayerAction(gameState, gameState.players[1].id, 'bet', 40);
+      expect(bet.success).toBe(true);
+      expect(bet.gameState.currentBet).toBe(40);
+
+      const secondBet = executePlayerAction(bet.gameState, bet.gameState.players[0].id, 'bet', 80);
+      expect(secondBet.success).toBe(false);
+      expect(secondBet.error).toContain('raise');
+    });
+
+    it('should put the whole stack in with all-in', () => {
+      const result = executePlayerAction(gameState, gameState.players[1].id, 'all-in');
+      expect(result.success).toBe(true);
+      expect(result.gameState.players[1].chips).toBe(0);
+      expect(result.gameState.players[1].allIn).toBe(true);
+      expect(result.gameState.currentBet).toBe(980);
+    });
+  });
+
+  describe('Legal Actions', () => {
+    it('should offer fold, call, raise and all-in facing the big blind', () => {
+      const state = dealNewHand(gameState);
+      const actions = getLegalActions(state, state.players[0].id);
+
+      expect(actions).toEqual([
+        { action: 'fold' },
+        { action: 'call', minAmount: 10, maxAmount: 10 },
+        { action: 'raise', minAmount: 40, maxAmount: 1000 },
+        { action: 'all-in', minAmount: 1000, maxAmount: 1000 }
+      ]);
+    });
+
+    it('should offer check and bet when there is nothing to call', () => {
+      let state = dealNewHand(gameState);
+      state = executePlayerAction(state, state.players[0].id, 'call').gameState;
+      state = executePlayerAction(state, state.players[1].id, 'check').gameState;
+
+      const actions = getLegalActions(state, state.players[1].id).map(a => a.action);
+      expect(actions).toEqual(['fold', 'check', 'bet', 'all-in']);
+    });
+
+    it('should return no actions for a player who is not to act', () => {
+      const state = dealNewHand(gameState);
+      expect(getLegalActions(state, state.players[1].id)).toEqual([]);
+      expect(getLegalActions(gameState, gameState.players[0].id)).toEqual([]);
+    });
+
+    it('should not offer a raise when every opponent is all-in', () => {
+      let state = dealNewHand(gameState);
+      state = executePlayerAction(state, state.players[0].id, 'all-in').gameState;
+
+      const actions = getLegalActions(state, state.players[1].id).map(a => a.action);
+      expect(actions).toEqual(['fold', 'call', 'all-in']);
+    });
+  });
+
+  describe('No-limit Raise Rules', () => {
+    type Step = [seat: number, action: PlayerAction, amount?: number];
+
+    interface RaiseCase {
+      name: string;
+      stacks: number[];
+      steps: Step[];
+      error?: string;
+      expected?: Partial<Pick<GameState, 'currentBet' | 'lastRaiseSize' | 'lastAggressorIndex' | 'phase'>>;
+    }
+
+    // Seats: 3-handed the button (0) is UTG, then small blind (1) and big blind (2);
+    // 4-handed UTG is seat 3. Heads-up the button posts the small blind.
+    const cases: RaiseCase[] = [
+      {
+        name: 'rejects a preflop raise below twice the big blind',
+        stacks: [1000, 1000, 1000],
+        steps: [[0, 'raise', 39]],
+        error: 'Minimum raise is $40'
+      },
+      {
+        name: 'accepts a raise to exactly the minimum',
+        stacks: [1000, 1000, 1000],
+        steps: [[0, 'raise', 40]],
+        expected: { currentBet: 40, lastRaiseSize: 20, lastAggressorIndex: 0 }
+      },
+      {
+        name: 'rejects a re-raise smaller than the previous raise',
+        stacks: [1000, 1000, 1000],
+        steps: [[0, 'raise', 100], [1, 'raise', 179]],
+        error: 'Minimum raise is $180'
+      },
+      {
+        name: 'tracks the size of a full re-raise',
+        stacks: [1000, 1000, 1000],
+        steps: [[0, 'raise', 100], [1, 'raise', 180]],
+        expected: { currentBet: 180, lastRaiseSize: 80, lastAggressorIndex: 1 }
+      },
+      {
+        name: 'allows an all-in for less than a full raise without changing the raise size',
+        stacks: [1000, 150, 1000],
+        steps: [[0, 'raise', 100], [1, 'all-in']],
+        expected: { currentBet: 150, lastRaiseSize: 80, lastAggressorIndex: 1 }
+      },
+      {
+        name: 'does not reopen betting to the original raiser after a short all-in',
+        stacks: [1000, 150, 1000],
+        steps: [[0, 'raise', 100], [1, 'all-in'], [2, 'call'], [0, 'raise', 300]],
+        error: 'not reopened'
+      },
+      {
+        name: 'lets the original raiser call a short all-in',
+        stacks: [1000, 150, 1000],
+        steps: [[0, 'raise', 100], [1, 'all-in'], [2, 'call'], [0, 'call']],
+        expected: { phase: 'flop' }
+      },
+      {
+        name: 'does not let the original raiser shove over a short all-in',
+        stacks: [1000, 150, 1000],
+        steps: [[0, 'raise', 100], [1, 'all-in'], [2, 'call'], [0, 'all-in']],
+        error: 'not reopened'
+      },
+      {
+        name: 'lets a player yet to act raise over a short all-in by a full raise',
+        stacks: [1000, 150, 1000],
+        steps: [[0, 'raise', 100], [1, 'all-in'], [2, 'raise', 229]],
+        error: 'Minimum raise is $230'
+      },
+      {
+        name: 'measures the next raise from the short all-in amount',
+        stacks: [1000, 150, 1000],
+        steps: [[0, 'raise', 100], [1, 'all-in'], [2, 'raise', 230]],
+        expected: { currentBet: 230, lastRaiseSize: 80, lastAggressorIndex: 2 }
+      },
+      {
+        name: 'reopens betting when several short all-ins add up to a full raise',
+        stacks: [150, 200, 1000, 1000],
+        steps: [[3, 'raise', 100], [0, 'all-in'], [1, 'all-in'], [2, 'call'], [3, 'raise', 400]],
+        expected: { currentBet: 400, lastRaiseSize: 200, lastAggressorIndex: 3 }
+      },
+      {
+        name: 'rejects a postflop bet below the big blind',
+        stacks: [1000, 1000],
+        steps: [[0, 'call'], [1, 'check'], [1, 'bet', 19]],
+        error: 'Minimum raise is $20'
+      },
+      {
+        name: 'resets raise tracking at the start of each street',
+        stacks: [1000, 1000],
+        steps: [[0, 'raise', 100], [1, 'call']],
+        expected: { phase: 'flop', currentBet: 0, lastRaiseSize: 0, lastAggressorIndex: -1 }
+      },
+      {
+        name: 'accepts a short all-in call',
+        stacks: [1000, 60],
+        steps: [[0, 'raise', 200], [1, 'call']],
+        expected: { phase: 'complete' }
+      }
+    ];
+
+    it.each(cases)('$name', ({ stacks, steps, error, expected }) => {
+      const game = createGame('raises', stacks.map((_, seat) => `P${seat}`));
+      stacks.forEach((chips, seat) => { game.players[seat].chips = chips; });
+      let state = dealNewHand(game);
+
+      steps.forEach(([seat, action, amount], stepIndex) => {
+        expect(state.activePlayerIndex).toBe(seat);
+        const result = executePlayerAction(state, state.players[seat].id, action, amount);
+
+        if (stepIndex === steps.length - 1 && error) {
+          expect(result.success).toBe(false);
+          expect(result.error).toContain(error);
+          return;
+        }
+
+        expect(result.error).toBeUndefined();
+        state = result.gameState;
+      });
+
+      if (expected) {
+        expect(state).toMatchObject(expected);
+      }
+    });
+
+    it('should only offer call or fold once a short all-in leaves the action closed', () => {
+      const game = createGame('raises', ['P0', 'P1', 'P2']);
+      game.players[1].chips = 150;
+      let state = dealNewHand(game);
+      state = executePlayerAction(state, state.players[0].id, 'raise', 100).gameState;
+      state = executePlayerAction(state, state.players[1].id, 'all-in').gameState;
+      state = executePlayerAction(state, state.players[2].id, 'call').gameState;
+
+      const actions = getLegalActions(state, state.players[0].id).map(a => a.action);
+      expect(actions).toEqual(['fold', 'call']);
+    });
+  });
+
+  describe('Table Config', () => {
+    it('should use the default stakes when no config is given', () => {
+      expect(gameState.config).toEqual(DEFAULT_TABLE_CONFIG);
+      expect(gameState.players[0].chips).toBe(DEFAULT_TABLE_CONFIG.startingStack);
+    });
+
+    it('should seat players with the configured starting stack and post the configured blinds', () => {
+      const game = createGame('stakes', ['P0', 'P1', 'P2'], { smallBlind: 25, bigBlind: 50, startingStack: 5000 });
+      expect(game.players.every(p => p.chips === 5000)).toBe(true);
+
+      const state = dealNewHand(game);
+      expect(state.players[1].currentBet).toBe(25);
+      expect(state.players[2].currentBet).toBe(50);
+      expect(state.currentBet).toBe(50);
+      expect(state.pot).toBe(75);
+    });
+
+    it('should use the configured big blind as the minimum bet post-flop', () => {
+      let state = dealNewHand(createGame('min-bet', ['Alice', 'Bob'], { smallBlind: 50, bigBlind: 100 }));
+      state = executePlayerAction(state, state.players[0].id, 'call').gameState;
+      state = executePlayerAction(state, state.players[1].id, 'check').gameState;
+      expect(state.phase).toBe('flop');
+
+      const bet = getLegalActions(state, state.players[1].id).find(a => a.action === 'bet');
+      expect(bet?.minAmount).toBe(100);
+      expect(executePlayerAction(state, state.players[1].id, 'bet', 60).error).toContain('Minimum raise is $100');
+    });
+
+    it('should collect antes from every player as dead money', () => {
+      const state = dealNewHand(createGame('antes', ['P0', 'P1', 'P2'], { ante: 5 }));
+
+      expect(state.pot).toBe(10 + 20 + 15);
+      expect(state.players[0].currentBet).toBe(0);
+      expect(state.players[0].totalBet).toBe(5);
+      expect(state.players[2].currentBet).toBe(20);
+      expect(getLegalActions(state, state.players[0].id)).toContainEqual({ action: 'call', minAmount: 20, maxAmount: 20 });
+    });
+
+    it.each([
+      { name: 'big blind below small blind', config: { smallBlind: 20, bigBlind: 10 } },
+      { name: 'negative ante', config: { ante: -1 } },
+      { name: 'fractional blinds', config: { smallBlind: 2.5 } },
+      { name: 'starting stack outside buy-in range', config: { startingStack: 5000, maxBuyIn: 2000 } },
+      { name: 'inverted buy-in range', config: { minBuyIn: 1000, maxBuyIn: 500 } },
+      { name: 'unknown betting structure', config: { bettingStructure: 'spread-limit' as never } }
+    ])('should reject $name', ({ config }) => {
+      expect(() => createTableConfig(config)).toThrow();
+      expect(() => createGame('bad', ['Alice', 'Bob'], config)).toThrow();
+    });
+
+    it('should stretch the default buy-in range to cover a custom starting stack', () => {
+      const config = createTableConfig({ startingStack: 10000 });
+      expect(config.maxBuyIn).toBe(10000);
+      expect(config.minBuyIn).toBe(DEFAULT_TABLE_CONFIG.minBuyIn);
+    });
+  });
+
+  describe('Straddle', () => {
+    const dealStraddleTable = () =>
+      dealNewHand(createGame('straddle', ['P0', 'P1', 'P2', 'P3'], { straddleAllowed: true }));
+
+    it('should offer a straddle to the first player to act when the table allows it', () => {
+      const state = dealStraddleTable();
+      expect(state.activePlayerIndex).toBe(3);
+      expect(getLegalActions(state, state.players[3].id)).toContainEqual({ action: 'straddle', minAmount: 40, maxAmount: 40 });
+    });
+
+    it('should not offer a straddle when the table does not allow it or heads-up', () => {
+      const noStraddle = dealNewHand(createGame('no-straddle', ['P0', 'P1', 'P2', 'P3']));
+      expect(getLegalActions(noStraddle, noStraddle.players[3].id).map(a => a.action)).not.toContain('straddle');
+      expect(executePlayerAction(noStraddle, noStraddle.players[3].id, 'straddle').error).toBe('Straddle is not allowed now');
+
+      const headsUp = dealNewHand(createGame('heads-up', ['Alice', 'Bob'], { straddleAllowed: true }));
+      expect(getLegalActions(headsUp, headsUp.players[headsUp.activePlayerIndex].id).map(a => a.action)).not.toContain('straddle');
+    });
+
+    it('should post a live straddle and give the straddler the last option', () => {
+      let state = dealStraddleTable();
+      state = executePlayerAction(state, state.players[3].id, 'straddle').gameState;
+
+      expect(state.currentBet).toBe(40);
+      expect(state.pot).toBe(70);
+      expect(state.activePlayerIndex).toBe(0);
+      expect(getLegalActions(state, state.players[0].id).find(a => a.action === 'raise')?.minAmount).toBe(80);
+      expect(getLegalActions(state, state.players[0].id).map(a => a.action)).not.toContain('straddle');
+
+      state = executePlayerAction(state, state.players[0].id, 'call').gameState;
+      state = executePlayerAction(state, state.players[1].id, 'call').gameState;
+      state = executePlayerAction(state, state.players[2].id, 'call').gameState;
+      expect(state.phase).toBe('preflop');
+      expect(state.activePlayerIndex).toBe(3);
+      expect(getLegalActions(state, state.players[3].id).map(a => a.action)).toEqual(['fold', 'check', 'raise', 'all-in']);
+
+      state = executePlayerAction(state, state.players[3].id, 'check').gameState;
+      expect(state.phase).toBe('flop');
+      expect(state.pot).toBe(160);
+    });
+  });
+
+  describe('Pot-limit and Fixed-limit Betting', () => {
+    it('should cap pot-limit raises at the pot after calling', () => {
+      let state = dealNewHand(createGame('plo', ['Alice', 'Bob'], { bettingStructure: 'pot-limit' }));
+
+      // Pot is 30 and the small blind calls 10 first, so the most it can raise to is 20 + 30 + 10
+      expect(getLegalActions(state, state.players[0].id)).toContainEqual({ action: 'raise', minAmount: 40, maxAmount: 60 });
+      expect(getLegalActions(state, state.players[0].id).map(a => a.action)).not.toContain('all-in');
+      expect(executePlayerAction(state, state.players[0].id, 'raise', 61).error).toBe('Maximum raise is $60');
+      expect(executePlayerAction(state, state.players[0].id, 'all-in').error).toBe('Maximum raise is $60');
+
+      state = executePlayerAction(state, state.players[0].id, 'raise', 60).gameState;
+      expect(getLegalActions(state, state.players[1].id)).toContainEqual({ action: 'raise', minAmount: 100, maxAmount: 180 });
+    });
+
+    it('should limit pot-limit bets to the pot on later streets', () => {
+      let state = dealNewHand(createGame('plo-flop', ['Alice', 'Bob'], { bettingStructure: 'pot-limit' }));
+      state = executePlayerAction(state, state.players[0].id, 'call').gameState;
+      state = executePlayerAction(state, state.players[1].id, 'check').gameState;
+
+      expect(state.phase).toBe('flop');
+      expect(getLegalActions(state, state.players[1].id)).toContainEqual({ action: 'bet', minAmount: 20, maxAmount: 40 });
+    });
+
+    it('should allow a pot-limit all-in that fits within the pot', () => {
+      const game = createGame('plo-short', ['Alice', 'Bob'], { bettingStructure: 'pot-limit' });
+      game.players[0].chips = 50;
+      const state = dealNewHand(game);
+
+      expect(getLegalActions(state, state.players[0].id)).toContainEqual({ action: 'all-in', minAmount: 50, maxAmount: 50 });
+      expect(executePlayerAction(state, state.players[0].id, 'all-in').success).toBe(true);
+    });
+
+    it('should only allow fixed-size raises in fixed-limit', () => {
+      const state = dealNewHand(createGame('limit', ['Alice', 'Bob'], { bettingStructure: 'fixed-limit' }));
+
+      expect(getLegalActions(state, state.players[0].id)).toContainEqual({ action: 'raise', minAmount: 40, maxAmount: 40 });
+      expect(executePlayerAction(state, state.players[0].id, 'raise', 60).error).toBe('Maximum raise is $40');
+      expect(executePlayerAction(state, state.players[0].id, 'raise', 30).error).toBe('Minimum raise is $40');
+    });
+
+    it('should cap fixed-limit betting at four bets per street', () => {
+      let state = dealNewHand(createGame('limit-cap', ['Alice', 'Bob'], { bettingStructure: 'fixed-limit' }));
+      state = executePlayerAction(state, state.players[0].id, 'raise', 40).gameState;
+      state = executePlayerAction(state, state.players[1].id, 'raise', 60).gameState;
+      state = executePlayerAction(state, state.players[0].id, 'raise', 80).gameState;
+
+      expect(getLegalActions(state, state.players[1].id).map(a => a.action)).toEqual(['fold', 'call']);
+      expect(executePlayerAction(state, state.players[1].id, 'raise', 100).error).toBe('Betting is capped for this round');
+      expect(executePlayerAction(state, state.players[1].id, 'all-in').error).toBe('Betting is capped for this round');
+    });
+
+    it('should double the fixed-limit bet size on the turn and river', () => {
+      let state = dealNewHand(createGame('limit-streets', ['Alice', 'Bob'], { bettingStructure: 'fixed-limit' }));
+      state = executePlayerAction(state, state.players[0].id, 'call').gameState;
+      state = executePlayerAction(state, state.players[1].id, 'check').gameState;
+      expect(getLegalActions(state, state.players[1].id)).toContainEqual({ action: 'bet', minAmount: 20, maxAmount: 20 });
+
+      state = executePlayerAction(state, state.players[1].id, 'check').gameState;
+      state = executePlayerAction(state, state.players[0].id, 'check').gameState;
+      expect(state.phase).toBe('turn');
+      expect(getLegalActions(state, state.players[1].id)).toContainEqual({ action: 'bet', minAmount: 40, maxAmount: 40 });
+
+      state = executePlayerAction(state, state.players[1].id, 'bet', 40).gameState;
+      expect(getLegalActions(state, state.players[0].id)).toContainEqual({ action: 'raise', minAmount: 80, maxAmount: 80 });
+    });
+  });
+
+  describe('Action Clock', () => {
+    it('should start the clock for the first player to act', () => {
+      const before = Date.now();
+      const state = dealNewHand(createGame('clock', ['Alice', 'Bob']));
+
+      expect(state.turnDeadline).toBeGreaterThanOrEqual(before + 30000);
+      expect(state.turnDeadline).toBeLessThanOrEqual(Date.now() + 30000);
+      expect(getActionClockExpiry(state)).toBe(state.turnDeadline! + 60000);
+    });
+
+    it('should restart the clock for the next player after an action', () => {
+      const state = dealNewHand(createGame('clock', ['Alice', 'Bob']));
+      const now = state.turnDeadline! - 10000;
+      const result = executePlayerAction(state, state.players[0].id, 'call', undefined, now);
+
+      expect(result.gameState.turnDeadline).toBe(now + 30000);
+      expect(result.gameState.players[0].timeBankRemaining).toBe(60);
+    });
+
+    it('should charge time taken past the deadline to the time bank', () => {
+      const state = dealNewHand(createGame('clock', ['Alice', 'Bob']));
+      const result = executePlayerAction(state, state.players[0].id, 'call', undefined, state.turnDeadline! + 12500);
+
+      expect(result.gameState.players[0].timeBankRemaining).toBe(47);
+    });
+
+    it('should not act before the clock and time bank run out', () => {
+      const state = dealNewHand(createGame('clock', ['Alice', 'Bob']));
+      const result = handleActionTimeout(state, getActionClockExpiry(state)! - 1);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Action clock has not run out');
+    });
+
+    it('should fold a timed-out player facing a bet', () => {
+      const state = dealNewHand(createGame('clock', ['Alice', 'Bob']));
+      const result = handleActionTimeout(state, getActionClockExpiry(state)!);
+
+      expect(result.success).toBe(true);
+      expect(result.gameState.players[0].folded).toBe(true);
+      expect(result.gameState.players[0].timeBankRemaining).toBe(0);
+      expect(result.gameState.phase).toBe('complete');
+      expect(result.gameState.turnDeadline).toBeUndefined();
+    });
+
+    it('should check for a timed-out player when checking is possible', () => {
+      let state = dealNewHand(createGame('clock', ['Alice', 'Bob']));
+      state = executePlayerAction(state, state.players[0].id, 'call').gameState;
+      const result = handleActionTimeout(state, getActionClockExpiry(state)!);
+
+      expect(result.success).toBe(true);
+      expect(result.gameState.players[1].folded).toBe(false);
+      expect(result.gameState.phase).toBe('flop');
+    });
+
+    it('should replenish time banks each hand up to the maximum', () => {
+      let state = dealNewHand(createGame('clock', ['Alice', 'Bob'], { timeBankReplenishSeconds: 5 }));
+      state = executePlayerAction(state, state.players[0].id, 'fold', undefined, state.turnDeadline! + 20000).gameState;
+      expect(state.players[0].timeBankRemaining).toBe(40);
+
+      state = startNewHand(state);
+      expect(state.players[0].timeBankRemaining).toBe(45);
+      expect(state.players[1].timeBankRemaining).toBe(60);
+    });
+
+    it('should not run a clock when the action time is zero', () => {
+      const state = dealNewHand(createGame('clock', ['Alice', 'Bob'], { actionTimeSeconds: 0 }));
+
+      expect(state.turnDeadline).toBeUndefined();
+      expect(getActionClockExpiry(state)).toBeUndefined();
+    });
+
+    it('should reject negative clock settings', () => {
+      expect(() => createTableConfig({ timeBankSeconds: -1 })).toThrow('Action clock settings must be whole, non-negative numbers of seconds');
+    });
+  });
+
+  describe('Sit Out and Missed Blinds', () => {
+    // Everyone folds to the big blind
+    const foldAround = (state: GameState): GameState => {
+      let current = state;
+      while (current.phase !== 'complete') {
+        current = executePlayerAction(current, current.players[current.activePlayerIndex].id, 'fold').gameState;
+      }
+      return current;
+    };
+
+    it('should deal sitting-out players out of the next hand', () => {
+      let state = foldAround(dealNewHand(createGame('sit-out', ['Alice', 'Bob', 'Charlie'])));
+      state = sitOut(state, state.players[1].id).gameState;
+      state = startNewHand(state);
+
+      expect(state.players[1].sittingOut).toBe(true);
+      expect(state.players[1].folded).toBe(true);
+      expect(state.players[1].holeCards).toHaveLength(0);
+      expect(state.players[1].handsSatOut).toBe(1);
+      expect(state.players[0].holeCards).toHaveLength(2);
+    });
+
+    it('should let a player in the current hand play it out', () => {
+      let state = dealNewHand(createGame('sit-out', ['Alice', 'Bob', 'Charlie']));
+      state = sitOut(state, state.players[0].id).gameState;
+
+      expect(state.players[0].holeCards).toHaveLength(2);
+      expect(executePlayerAction(state, state.players[0].id, 'call').success).toBe(true);
+    });
+
+    it('should reject sitting out twice or sitting in while seated', () => {
+      const state = createGame('sit-out', ['Alice', 'Bob']);
+      const satOut = sitOut(state, state.players[0].id).gameState;
+
+      expect(sitOut(satOut, satOut.players[0].id).error).toBe('Player is already sitting out');
+      expect(sitIn(state, state.players[0].id).error).toBe('Player is not sitting out');
+      expect(sitIn(state, 'nobody').error).toBe('Player not found');
+    });
+
+    it('should not deal when too few players are sitting in', () => {
+      let state = foldAround(dealNewHand(createGame('sit-out', ['Alice', 'Bob'])));
+      state = sitOut(state, state.players[1].id).gameState;
+
+      expect(() => startNewHand(state)).toThrow('Not enough players are sitting in to deal a hand');
+    });
+
+    it('should record a missed small blind when the blinds pass a sitting-out seat', () => {
+      // Hand 1: Alice dealer, Bob small blind, Charlie big blind
+      let state = foldAround(dealNewHand(createGame('missed', ['Alice', 'Bob', 'Charlie', 'Dave'])));
+      state = sitOut(state, state.players[2].id).gameState;
+
+      // Hand 2: Bob dealer, Charlie's small blind passes to Dave
+      state = foldAround(startNewHand(state));
+      expect(state.players[2].missedBlinds).toEqual({ small: true, big: false });
+
+      // Hand 3: Charlie returns and posts the small blind dead
+      state = sitIn(state, state.players[2].id).gameState;
+      const chipsBefore = state.players[2].chips;
+      state = startNewHand(state);
+
+      expect(state.players[2].chips).toBe(chipsBefore - 10);
+      expect(state.players[2].currentBet).toBe(0);
+      expect(state.players[2].missedBlinds).toEqual({ small: false, big: false });
+      expect(state.handHistory!.events).toContainEqual(
+        { type: 'post', playerId: state.players[2].id, blind: 'missed small blind', amount: 10 }
+      );
+    });
+
+    it('should record a missed big blind when the big blind passes a sitting-out seat', () => {
+      let state = foldAround(dealNewHand(createGame('missed', ['Alice', 'Bob', 'Charlie', 'Dave'])));
+      state = sitOut(state, state.players[3].id).gameState;
+
+      // Hand 2: Bob dealer, Charlie small blind, the big blind skips Dave to Alice
+      state = startNewHand(state);
+
+      expect(state.players[3].missedBlinds).toEqual({ small: false, big: true });
+    });
+
+    it('should not record a missed small blind heads-up, where the dealer posts it', () => {
+      let state = foldAround(dealNewHand(createGame('missed', ['Alice', 'Bob', 'Charlie'])));
+      state = sitOut(state, state.players[2].id).gameState;
+
+      // Hand 2: Bob dealer and small blind, the big blind skips Charlie to Alice
+      state = foldAround(startNewHand(state));
+      expect(state.players[2].missedBlinds).toEqual({ small: false, big: true });
+
+      // Hand 3: Alice dealer and small blind, Bob big blind
+      state = startNewHand(state);
+      expect(state.players[2].missedBlinds).toEqual({ small: false, big: true });
+    });
+
+    it('should post missed blinds live and dead on returning', () => {
+      let state = foldAround(dealNewHand(createGame('missed', ['Alice', 'Bob', 'Charlie', 'Dave'])));
+      state.players[3] = { ...state.players[3], missedBlinds: { small: true, big: true } };
+      state = startNewHand(state);
+
+      // Hand 2: Bob dealer, Charlie small blind, Dave big blind - a player in the blinds owes nothing more
+      expect(state.players[3].missedBlinds).toEqual({ small: false, big: false });
+
+      state = foldAround(state);
+      state.players[1] = { ...state.players[1], missedBlinds: { small: true, big: true } };
+      const chipsBefore = state.players[1].chips;
+      state = startNewHand(state);
+
+      // Hand 3: Charlie dealer, Dave and Alice in the blinds, Bob posts both missed blinds
+      expect(state.players[1].chips).toBe(chipsBefore - 30);
+      expect(state.players[1].currentBet).toBe(20);
+      expect(state.pot).toBe(10 + 20 + 30);
+    });
+
+    it('should remove players who sit out too many hands in a row', () => {
+      let state = foldAround(dealNewHand(createGame('remove', ['Alice', 'Bob', 'Charlie'], { maxHandsSatOut: 2 })));
+      const charlie = state.players[2].id;
+      state = sitOut(state, charlie).gameState;
+
+      state = foldAround(startNewHand(state));
+      state = foldAround(startNewHand(state));
+      expect(state.players.find(p => p.id === charlie)!.handsSatOut).toBe(2);
+
+      state = startNewHand(state);
+      expect(state.players.map(p => p.name)).toEqual(['Alice', 'Bob']);
+      expect(state.players.every(p => p.holeCards.length === 2)).toBe(true);
+    });
+
+    it('should keep moving the button when the dealer is removed', () => {
+      let state = foldAround(dealNewHand(createGame('remove', ['Alice', 'Bob', 'Charlie', 'Dave'], { maxHandsSatOut: 1 })));
+      state = { ...state, dealerIndex: 2 };
+      state.players[2] = { ...state.players[2], sittingOut: true, handsSatOut: 1 };
+      state = startNewHand(state);
+
+      expect(state.players.map(p => p.name)).toEqual(['Alice', 'Bob', 'Dave']);
+      expect(state.players[state.dealerIndex].name).toBe('Dave');
+    });
+  });
+
+  describe('Adding Chips', () => {
+    const foldAround = (state: GameState): GameState => {
+      let current = state;
+      while (current.phase !== 'complete') {
+        current = executePlayerAction(current, current.players[current.activePlayerIndex].id, 'fold').gameState;
+      }
+      return current;
+    };
+
+    it('should add chips at the next hand and record them in the hand history', () => {
+      let state = dealNewHand(createGame('rebuy', ['Alice', 'Bob']));
+      const alice = state.players[0].id;
+      const result = addChips(state, alice, 500);
+
+      expect(result.success).toBe(true);
+      expect(result.gameState.players[0].pendingChips).toBe(500);
+      expect(result.gameState.players[0].chips).toBe(state.players[0].chips);
+
+      state = foldAround(result.gameState);
+      const chipsAfterHand = state.players[0].chips;
+      state = startNewHand(state);
+
+      expect(state.players[0].pendingChips).toBe(0);
+      expect(state.players[0].chips + state.players[0].currentBet).toBe(chipsAfterHand + 500);
+      expect(state.handHistory!.seats[0].chips).toBe(chipsAfterHand + 500);
+      expect(state.handHistory!.events).toContainEqual({ type: 'rebuy', playerId: alice, amount: 500 });
+      expect(replayHand(foldAround(state).handHistory!).verified).toBe(true);
+    });
+
+    it('should keep stacks within the table buy-in limits', () => {
+      const state = createGame('rebuy', ['Alice', 'Bob'], { minBuyIn: 400, maxBuyIn: 1500 });
+      const alice = state.players[0].id;
+
+      expect(addChips(state, alice, 600).error).toBe('Stack cannot exceed the maximum buy-in of $1500');
+      expect(addChips(addChips(state, alice, 300).gameState, alice, 300).error).toBe('Stack cannot exceed the maximum buy-in of $1500');
+      expect(addChips(state, alice, 2.5).error).toBe('Amount must be a positive whole number of chips');
+
+      const busted = { ...state, players: state.players.map(p => p.id === alice ? { ...p, chips: 0 } : p) };
+      expect(addChips(busted, alice, 100).error).toBe('Stack must reach the minimum buy-in of $400');
+      expect(addChips(busted, alice, 400).success).toBe(true);
+    });
+
+    it('should let a busted player rebuy and be dealt back in', () => {
+      let state = foldAround(dealNewHand(createGame('rebuy', ['Alice', 'Bob'])));
+      state = { ...state, players: state.players.map((p, i) => i === 0 ? { ...p, chips: 0 } : p) };
+      expect(() => startNewHand(state)).toThrow('Not enough players have chips to continue');
+
+      state = startNewHand(addChips(state, state.players[0].id, 1000).gameState);
+
+      expect(state.players[0].folded).toBe(false);
+      expect(state.players[0].holeCards).toHaveLength(2);
+      expect(state.players[0].chips + state.players[0].currentBet).toBe(1000);
+    });
+  });
+
+  describe('Omaha', () => {
+    it('should deal four hole cards and default to pot-limit betting', () => {
+      const state = dealNewHand(createGame('omaha', ['Alice', 'Bob', 'Charlie'], { variant: 'omaha' }));
+
+      expect(state.config.bettingStructure).toBe('pot-limit');
+      expect(state.players.every(p => p.holeCards.length === 4)).toBe(true);
+      expect(new Set(state.players.flatMap(p => p.holeCards.map(cardToString))).size).toBe(12);
+      expect(state.deck).toHaveLength(52 - 12);
+    });
+
+    it('should allow other betting structures when asked for', () => {
+      expect(createTableConfig({ variant: 'omaha', bettingStructure: 'no-limit' }).bettingStructure).toBe('no-limit');
+      expect(() => createTableConfig({ variant: 'razz' as never })).toThrow('Variant must be one of: holdem, omaha');
+    });
+
+    it('should play showdown hands with exactly two hole cards', () => {
+      const state = dealNewHand(createGame('omaha', ['Alice', 'Bob'], { variant: 'omaha' }));
+      state.players[0].holeCards = ['Qh', '9s', '9d', '3c'].map(stringToCard);
+      state.players[1].holeCards = ['Ac', '8d', '8c', '5s'].map(stringToCard);
+      state.communityCards = ['Ah', 'Kh', '7h', '4h', '2c'].map(stringToCard);
+      state.phase = 'showdown';
+
+      determineWinner(state);
+
+      // Alice would hold a flush in Hold'em, but only has a pair of nines here
+      expect(state.winner).toBe(1);
+      expect(state.handHistory!.events).toContainEqual(
+        expect.objectContaining({ type: 'show', playerId: state.players[0].id, description: 'One Pair, 9s' })
+      );
+    });
+
+    it('should replay and verify the shuffle of an Omaha hand', () => {
+      let state = dealNewHand(createGame('omaha', ['Alice', 'Bob', 'Charlie'], { variant: 'omaha' }));
+      while (state.phase !== 'complete') {
+        const player = state.players[state.activePlayerIndex];
+        state = executePlayerAction(state, player.id, state.currentBet > player.currentBet ? 'call' : 'check').gameState;
+      }
+
+      expect(replayHand(state.handHistory!).verified).toBe(true);
+      expect(verifyHandShuffle(state.handHistory!).verified).toBe(true);
+    });
+  });
+
+  describe('Hi-Lo Split Pots', () => {
+    const showdown = (state: GameState, holeCards: string[][], board: string[]): GameState => {
+      holeCards.forEach((cards, index) => { state.players[index].holeCards = cards.map(stringToCard); });
+      state.communityCards = board.map(stringToCard);
+      state.phase = 'showdown';
+      determineWinner(state);
+      return state;
+    };
+
+    it('should split the pot between the best high hand and the best low', () => {
+      let state = dealNewHand(createGame('hi-lo', ['Alice', 'Bob'], { variant: 'omaha-hi-lo' }));
+      state = executePlayerAction(state, state.players[0].id, 'call').gameState;
+
+      showdown(state, [['Kc', 'Kd', '9s', '9c'], ['Ac', '3d', 'Qs', 'Qc']], ['2h', '5c', '7d', 'Kh', 'Ks']);
+
+      expect(state.players.map(p => p.chips)).toEqual([1000, 1000]);
+      expect(state.winnerReason).toBe('split pot');
+      expect(state.handHistory!.events).toContainEqual(expect.objectContaining({
+        type: 'show',
+        playerId: state.players[1].id,
+        description: 'Two Pair, Ks and Qs; 7-5-3-2-A low'
+      }));
+    });
+
+    it('should award the whole pot to the high hand when no low qualifies', () => {
+      let state = dealNewHand(createGame('hi-lo', ['Alice', 'Bob'], { variant: 'omaha-hi-lo' }));
+      state = executePlayerAction(state, state.players[0].id, 'call').gameState;
+
+      showdown(state, [['Kc', 'Kd', '9s', '9c'], ['Ac', '3d', 'Qs', 'Qc']], ['2h', '10c', 'Jd', 'Kh', 'Ks']);
+
+      expect(state.players.map(p => p.chips)).toEqual([1020, 980]);
+      expect(state.winner).toBe(0);
+    });
+
+    it('should quarter the pot on a tied low and give odd chips left of the button', () => {
+      const state = dealNewHand(createGame('hi-lo', ['Alice', 'Bob', 'Charlie'], { variant: 'omaha-hi-lo' }));
+      state.players.forEach(p => { p.totalBet = 21; });
+      state.pot = 63;
+      const chipsBefore = state.players.map(p => p.chips);
+
+      showdown(
+        state,
+        [['Kc', 'Kd', '9s', '9c'], ['Ac', '3d', 'Qs', 'Jc'], ['Ad', '3h', 'Qd', 'Jd']],
+        ['2h', '5c', '7d', 'Kh', 'Ks']
+      );
+
+      // 32 for the high half (it takes the odd chip), then 31 split between the tied lows
+      expect(state.players.map((p, i) => p.chips - chipsBefore[i])).toEqual([32, 16, 15]);
+    });
+  });
+
+  describe('Odd Chips and Chip Conservation', () => {
+    it('should give the odd chip of a split pot to the first winner left of the button', () => {
+      const state = dealNewHand(createGame('odd', ['Alice', 'Bob', 'Charlie']));
+      state.players.forEach(p => { p.totalBet = 5; p.currentBet = 0; });
+      state.players[state.dealerIndex].folded = true;
+      state.pot = 15;
+      const chipsBefore = state.players.map(p => p.chips);
+
+      const [first, second] = [1, 2].map(offset => (state.dealerIndex + offset) % 3);
+      state.players[first].holeCards = ['Ac', 'Kd'].map(stringToCard);
+      state.players[second].holeCards = ['Ad', 'Kc'].map(stringToCard);
+      state.communityCards = ['2h', '5c', '7d', '9s', 'Js'].map(stringToCard);
+      state.phase = 'showdown';
+      determineWinner(state);
+
+      expect(state.players[first].chips - chipsBefore[first]).toBe(8);
+      expect(state.players[second].chips - chipsBefore[second]).toBe(7);
+      expect(state.winnerReason).toBe('split pot');
+      expect(state.winner).toBe(first);
+      expect(state.winners).toEqual([
+        { playerIndex: first, playerId: state.players[first].id, amount: 8 },
+        { playerIndex: second, playerId: state.players[second].id, amount: 7 }
+      ]);
+    });
+
+    it('should list the only winner of an uncontested pot', () => {
+      let state = dealNewHand(createGame('fold', ['Alice', 'Bob']));
+      const folder = state.players[state.activePlayerIndex];
+      state = executePlayerAction(state, folder.id, 'fold').gameState;
+
+      // The big blind takes back its uncalled 10 and collects the 20 both blinds matched
+      const winnerIndex = state.players.findIndex(p => p.id !== folder.id);
+      expect(state.winners).toEqual([{ playerIndex: winnerIndex, playerId: state.players[winnerIndex].id, amount: 20 }]);
+    });
+
+    it('should keep every chip at the table through a hand and clear the winners on the next deal', () => {
+      let state = dealNewHand(createGame('conserve', ['Alice', 'Bob', 'Charlie']));
+      const total = countTableChips(state);
+
+      while (state.phase !== 'complete') {
+        const player = state.players[state.activePlayerIndex];
+        const action = getLegalActions(state, player.id).some(legal => legal.action === 'check') ? 'check' : 'call';
+        state = executePlayerAction(state, player.id, action).gameState;
+        expect(countTableChips(state)).toBe(total);
+      }
+      expect(state.winners!.reduce((sum, w) => sum + w.amount, 0)).toBe(60);
+
+      state = startNewHand(state);
+      expect(state.winners).toBeUndefined();
+      expect(countTableChips(state)).toBe(total);
+    });
+
+    it('should refuse a transition once the pot no longer matches the chips bet', () => {
+      const state = dealNewHand(createGame('tamper', ['Alice', 'Bob']));
+      state.pot += 10;
+
+      expect(() => executePlayerAction(state, state.players[state.activePlayerIndex].id, 'call'))
+        .toThrow('Chip conservation violated after Alice\'s call: pot of 50 does not match 40 chips bet');
+    });
+  });
+
+  describe('Short Deck', () => {
+    it('should deal from the 36-card deck with everyone anteing', () => {
+      const state = dealNewHand(createGame('short', ['Alice', 'Bob', 'Charlie'], { variant: 'short-deck' }));
+
+      expect(state.config.ante).toBe(state.config.smallBlind);
+      expect(state.deck).toHaveLength(36 - 6);
+      expect([...state.deck, ...state.players.flatMap(p => p.holeCards)].every(card => card.value >= 6)).toBe(true);
+      expect(state.handHistory!.events.filter(e => e.type === 'post' && e.blind === 'ante')).toHaveLength(3);
+    });
+
+    it('should require an ante', () => {
+      expect(() => createTableConfig({ variant: 'short-deck', ante: 0 })).toThrow('Short Deck tables must have an ante');
+    });
+
+    it('should rank a flush above a full house at showdown', () => {
+      let state = dealNewHand(createGame('short', ['Alice', 'Bob'], { variant: 'short-deck' }));
+      state = executePlayerAction(state, state.players[0].id, 'call').gameState;
+      state.players[0].holeCards = ['Ah', 'Qh'].map(stringToCard);
+      state.players[1].holeCards = ['9c', '6d'].map(stringToCard);
+      state.communityCards = ['9s', '9d', 'Kh', '7h', '6h'].map(stringToCard);
+      state.phase = 'showdown';
+
+      determineWinner(state);
+
+      expect(state.winner).toBe(0);
+    });
+
+    it('should replay and verify the shuffle of a Short Deck hand', () => {
+      let state = dealNewHand(createGame('short', ['Alice', 'Bob', 'Charlie'], { variant: 'short-deck' }));
+      while (state.phase !== 'complete') {
+        const player = state.players[state.activePlayerIndex];
+        state = executePlayerAction(state, player.id, state.currentBet > player.currentBet ? 'call' : 'check').gameState;
+      }
+
+      expect(replayHand(state.handHistory!).verified).toBe(true);
+      expect(verifyHandShuffle(state.handHistory!).verified).toBe(true);
+    });
+  });
+
+  describe('Seven-Card Stud', () => {
+    // Third street is dealt two down and one up per seat, then one card per seat each street
+    const studDeck = (cards: string[]): Card[] => [
+      ...cards.map(stringToCard),
+      ...createDeck().filter(card => !cards.includes(cardToString(card)))
+    ];
+    const thirdStreet = ['Ah', 'Kd', '9s', '2c', '3c', '4d', 'Qh', 'Qd', '4c'];
+    const fourthStreet = ['9h', '5s', 'Kc'];
+
+    const callAround = (state: GameState): GameState => {
+      const street = state.phase;
+      while (state.phase === street) {
+        const player = state.players[state.activePlayerIndex];
+        state = executePlayerAction(state, player.id, state.currentBet > player.currentBet ? 'call' : 'check').gameState;
+      }
+      return state;
+    };
+
+    it('should ante, deal third street and bring in with the lowest upcard', () => {
+      const game = createGame('stud', ['Alice', 'Bob', 'Charlie'], { variant: 'stud' });
+      const state = dealNewHand(game, studDeck(thirdStreet));
+
+      expect(state.config.bettingStructure).toBe('fixed-limit');
+      expect(state.config.ante).toBe(2);
+      expect(state.phase).toBe('third-street');
+      expect(state.players.map(p => p.holeCards.length)).toEqual([2, 2, 2]);
+      expect(state.players.map(p => p.upCards.map(cardToString))).toEqual([['9s'], ['4d'], ['4c']]);
+
+      // Fours tie on rank, and clubs is the lowest suit
+      expect(state.players[2].currentBet).toBe(10);
+      expect(state.handHistory!.events).toContainEqual({ type: 'post', playerId: state.players[2].id, blind: 'bring-in', amount: 10 });
+      expect(state.pot).toBe(3 * 2 + 10);
+      expect(state.activePlayerIndex).toBe(0);
+      expect(getLegalActions(state, state.players[0].id)).toEqual([
+        { action: 'fold' },
+        { action: 'call', minAmount: 10, maxAmount: 10 },
+        { action: 'raise', minAmount: 20, maxAmount: 20 }
+      ]);
+    });
+
+    it('should close third street without giving the bring-in an option', () => {
+      let state = dealNewHand(createGame('stud', ['Alice', 'Bob', 'Charlie'], { variant: 'stud' }), studDeck([...thirdStreet, ...fourthStreet]));
+      state = callAround(state);
+
+      expect(state.phase).toBe('fourth-street');
+      expect(state.players.map(p => p.upCards.length)).toEqual([2, 2, 2]);
+      expect(state.players.map(p => p.holeCards.length)).toEqual([2, 2, 2]);
+    });
+
+    it('should let the best showing hand act first on later streets', () => {
+      let state = dealNewHand(createGame('stud', ['Alice', 'Bob', 'Charlie'], { variant: 'stud' }), studDeck([...thirdStreet, ...fourthStreet]));
+      state = callAround(state);
+
+      // Alice shows a pair of nines, ahead of Charlie's king-four
+      expect(state.activePlayerIndex).toBe(0);
+      state = executePlayerAction(state, state.players[0].id, 'check').gameState;
+      expect(state.activePlayerIndex).toBe(1);
+    });
+
+    it('should bet the small bet until fifth street and the big bet after', () => {
+      let state = dealNewHand(createGame('stud', ['Alice', 'Bob'], { variant: 'stud' }));
+      state = callAround(state);
+      expect(getLegalActions(state, state.players[state.activePlayerIndex].id)).toContainEqual({ action: 'bet', minAmount: 20, maxAmount: 20 });
+
+      state = callAround(state);
+      expect(state.phase).toBe('fifth-street');
+      expect(getLegalActions(state, state.players[state.activePlayerIndex].id)).toContainEqual({ action: 'bet', minAmount: 40, maxAmount: 40 });
+    });
+
+    it('should deal the seventh card down and show only up cards to opponents', () => {
+      let state = dealNewHand(createGame('stud', ['Alice', 'Bob'], { variant: 'stud' }));
+      while (state.phase !== 'seventh-street') {
+        state = callAround(state);
+      }
+
+      expect(state.players.map(p => [p.holeCards.length, p.upCards.length])).toEqual([[3, 4], [3, 4]]);
+      const view = redactGameStateFor(state, state.players[0].id);
+      expect(view.players[0].holeCards).toHaveLength(3);
+      expect(view.players[1].holeCards).toHaveLength(0);
+      expect(view.players[1].upCards).toEqual(state.players[1].upCards);
+    });
+
+    it('should award the pot to the best five of seven cards', () => {
+      let state = dealNewHand(createGame('stud', ['Alice', 'Bob'], { variant: 'stud' }));
+      while (state.phase !== 'seventh-street') {
+        state = callAround(state);
+      }
+      state.players[0].holeCards = ['2h', '7h', 'Jc'].map(stringToCard);
+      state.players[0].upCards = ['9h', 'Kh', '3d', '4h'].map(stringToCard);
+      state.players[1].holeCards = ['Ac', 'Ad', '8s'].map(stringToCard);
+      state.players[1].upCards = ['As', 'Kc', 'Ks', '2d'].map(stringToCard);
+      state.phase = 'showdown';
+
+      determineWinner(state);
+
+      expect(state.winner).toBe(1);
+      expect(state.handHistory!.events).toContainEqual(
+        expect.objectContaining({ type: 'show', playerId: state.players[0].id, description: 'Flush, K high' })
+      );
+    });
+
+    it('should split a Stud Hi/Lo pot with the eight-or-better low', () => {
+      let state = dealNewHand(createGame('stud8', ['Alice', 'Bob'], { variant: 'stud-hi-lo' }));
+      while (state.phase !== 'seventh-street') {
+        state = callAround(state);
+      }
+      state.players[0].holeCards = ['Kc', 'Kd', '9s'].map(stringToCard);
+      state.players[0].upCards = ['9c', 'Qh', 'Jd', '10s'].map(stringToCard);
+      state.players[1].holeCards = ['Ac', '3d', '2s'].map(stringToCard);
+      state.players[1].upCards = ['5c', '7h', 'Qd', 'Qs'].map(stringToCard);
+      const chipsBefore = state.players.map(p => p.chips);
+      const pot = state.pot;
+      state.phase = 'showdown';
+
+      determineWinner(state);
+
+      expect(state.winnerReason).toBe('split pot');
+      expect(state.players.map((p, i) => p.chips - chipsBefore[i])).toEqual([pot / 2, pot / 2]);
+    });
+
+    it('should replay and verify the shuffle of a Stud hand, redacted or not', () => {
+      let state = dealNewHand(createGame('stud', ['Alice', 'Bob', 'Charlie'], { variant: 'stud' }));
+      state = executePlayerAction(state, state.players[state.activePlayerIndex].id, 'fold').gameState;
+      while (state.phase !== 'complete') {
+        state = callAround(state);
+      }
+      const history = state.handHistory!;
+      const folded = state.players.find(p => p.folded)!;
+
+      expect(replayHand(history).verified).toBe(true);
+      expect(verifyHandShuffle(history).verified).toBe(true);
+      expect(replayHand(redactHandHistoryFor(history, folded.id)).verified).toBe(true);
+      expect(verifyHandShuffle(redactHandHistoryFor(history, folded.id)).verified).toBe(true);
+    });
+
+    it('should seat at most seven players and require an ante', () => {
+      const names = ['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H'];
+      expect(() => createGame('stud', names, { variant: 'stud' })).toThrow('Seven-Card Stud games seat at most 7 players');
+      expect(() => createTableConfig({ variant: 'stud', ante: 0 })).toThrow('Seven-Card Stud tables must have an ante');
+    });
+  });
+});
@@ -8,7 +8,26 @@
 import { describe, it, expect } from 'vitest';
 import { TestPerformance } from '../utils/test-helpers';
 
-import { evaluateHand, HandRank, HandEvalResult } from '@bluepoker/shared';
+import {
+  evaluateHand,
+  evaluateOmahaHand,
+  compareHands,
+  evaluateAceToFiveLow,
+  evaluateDeuceToSevenLow,
+  evaluateEightOrBetterLow,
+  evaluateOmahaLow,
+  compareLowHands,
+  HandRank,
+  HandEvalResult,
+  evaluate7,
+  encodeCards,
+  handRankOfStrength,
+  describeHandStrength,
+  createDeck,
+  shuffleDeck,
+  cardToString,
+  stringToCard
+} from '@bluepoker/shared';
 
 describe('Hand Evaluation Core', () => {
   it('should evaluate hands without throwing errors', () => {
@@ -201,4 +220,227 @@ describe('Benchmark Tests', () => {
       expect(result.handRank).toBeGreaterThanOrEqual(0);
     });
   });
-});
\ No newline at end of file
+});
+
+describe('Hand Comparison', () => {
+  it('should rank hands by category before kickers', () => {
+    const flush = evaluateHand(['2h', '5h', '7h', '9h', 'Jh']);
+    const straight = evaluateHand(['10s', 'Jh', 'Qd', 'Kc', 'As']);
+
+    expect(compareHands(flush, straight)).toBeLessThan(0);
+    expect(compareHands(straight, flush)).toBeGreaterThan(0);
+  });
+
+  it('should compare kickers within a category', () => {
+    const acesKingKicker = evaluateHand(['As', 'Ah', 'Kd', '7c', '3s']);
+    const acesQueenKicker = evaluateHand(['Ac', 'Ad', 'Qd', '7h', '3d']);
+
+    expect(compareHands(acesKingKicker, acesQueenKicker)).toBeLessThan(0);
+  });
+
+  it('should rank the wheel as the lowest straight', () => {
+    const wheel = evaluateHand(['As', '2h', '3d', '4c', '5s']);
+    const sixHigh = evaluateHand(['2s', '3h', '4d', '5c', '6s']);
+
+    expect(compareHands(sixHigh, wheel)).toBeLessThan(0);
+  });
+
+  it('should tie hands of equal rank in different suits', () => {
+    const first = evaluateHand(['As', 'Kh', 'Qd', 'Jc', '9s']);
+    const second = evaluateHand(['Ah', 'Kd', 'Qc', 'Js', '9h']);
+
+    expect(compareHands(first, second)).toBe(0);
+  });
+});
+
+describe('Omaha Hand Evaluation', () => {
+  it('should use exactly two hole cards and three board cards', () => {
+    // One heart in hand makes no flush, however many hearts are on the board
+    const result = evaluateOmahaHand(['Qh', '9s', '9d', '3c'], ['Ah', 'Kh', '7h', '4h', '2c']);
+
+    expect(result.handRank).toBe(HandRank.OnePair);
+    expect(result.handDescription).toBe('One Pair, 9s');
+  });
+
+  it('should find the best combination of hole and board cards', () => {
+    const result = evaluateOmahaHand(['Jh', '10h', '2s', '2d'], ['Ah', 'Kh', 'Qh', '4h', '2c']);
+
+    expect(result.handRank).toBe(HandRank.RoyalFlush);
+  });
+
+  it('should reject hands without four hole cards', () => {
+    expect(() => evaluateOmahaHand(['As', 'Ks'], ['Ah', 'Kh', 'Qh'])).toThrow('Omaha hands have 4 hole cards');
+  });
+});
+
+describe('Low Hand Evaluation', () => {
+  describe('Ace-to-five', () => {
+    it('should rank the wheel as the best low, ignoring the straight and flush', () => {
+      const wheel = evaluateAceToFiveLow(['Ah', '2h', '3h', '4h', '5h']);
+      const sixLow = evaluateAceToFiveLow(['Ac', '2d', '3s', '4h', '6c']);
+
+      expect(wheel.handDescription).toBe('5-4-3-2-A low');
+      expect(compareLowHands(wheel, sixLow)).toBeLessThan(0);
+    });
+
+    it('should pick the best five of seven cards and count pairs against the hand', () => {
+      const low = evaluateAceToFiveLow(['Kc', '8d', '6s', '4h', '3c', '3d', 'As']);
+      const paired = evaluateAceToFiveLow(['3h', '3s', '2c', '4d', '5h']);
+
+      expect(low.handDescription).toBe('8-6-4-3-A low');
+      expect(low.cards).toEqual(['8d', '6s', '4h', expect.stringMatching(/^3/), 'As']);
+      expect(compareLowHands(low, paired)).toBeLessThan(0);
+    });
+
+    it('should compare lows from the top card down', () => {
+      const eightSix = evaluateAceToFiveLow(['8s', '6h', '3d', '2c', 'Ah']);
+      const eightSeven = evaluateAceToFiveLow(['8h', '7c', '3s', '2d', 'Ac']);
+
+      expect(compareLowHands(eightSix, eightSeven)).toBeLessThan(0);
+      expect(compareLowHands(eightSix, evaluateAceToFiveLow(['8d', '6c', '3h', '2s', 'Ad']))).toBe(0);
+    });
+  });
+
+  describe('Eight or better', () => {
+    it('should only qualify five unpaired cards of eight or lower', () => {
+      expect(evaluateEightOrBetterLow(['8s', '7h', '3d', '2c', 'Ah', 'Kd', 'Qc'])!.handDescription).toBe('8-7-3-2-A low');
+      expect(evaluateEightOrBetterLow(['9s', '7h', '3d', '2c', 'Ah'])).toBeNull();
+      expect(evaluateEightOrBetterLow(['7s', '7h', '3d', '2c', 'Ah', 'Kd', 'Qc'])).toBeNull();
+    });
+
+    it('should make Omaha lows from exactly two hole cards', () => {
+      expect(evaluateOmahaLow(['Ac', '2d', 'Ks', 'Kh'], ['3h', '4c', '5d', 'Kd', 'Qc'])!.handDescription).toBe('5-4-3-2-A low');
+      // A single low card in hand cannot use the four low cards on the board
+      expect(evaluateOmahaLow(['Ac', 'Kd', 'Ks', 'Qh'], ['2h', '3c', '4d', '5s', '8c'])).toBeNull();
+    });
+  });
+
+  describe('Deuce-to-seven', () => {
+    it('should rank 7-5-4-3-2 as the best low', () => {
+      const best = evaluateDeuceToSevenLow(['7c', '5d', '4h', '3s', '2c']);
+      const eight = evaluateDeuceToSevenLow(['8c', '5d', '4h', '3s', '2c']);
+
+      expect(best.handDescription).toBe('7-5-4-3-2 low');
+      expect(compareLowHands(best, eight)).toBeLessThan(0);
+    });
+
+    it('should count straights and flushes against the hand and play aces high', () => {
+      const eight = evaluateDeuceToSevenLow(['8c', '5d', '4h', '3s', '2c']);
+      const straight = evaluateDeuceToSevenLow(['6c', '5d', '4h', '3s', '2c']);
+      const flush = evaluateDeuceToSevenLow(['8h', '6h', '4h', '3h', '2h']);
+      const aceHigh = evaluateDeuceToSevenLow(['Ac', '5d', '4h', '3s', '2c']);
+
+      expect(compareLowHands(eight, straight)).toBeLessThan(0);
+      expect(compareLowHands(eight, flush)).toBeLessThan(0);
+      expect(aceHigh.value[0]).toBe(HandRank.HighCard);
+      expect(aceHigh.handDescription).toBe('A-5-4-3-2 low');
+    });
+  });
+});
+
+describe('Best Five of Seven', () => {
+  it('should find pairs and straights below the five highest cards', () => {
+    expect(evaluateHand(['As', 'Kh', 'Qd', 'Jc', '9s', '3h', '3d']).handDescription).toBe('One Pair, 3s');
+    expect(evaluateHand(['As', 'Kh', '9d', '8c', '7s', '6h', '5d']).handRank).toBe(HandRank.Straight);
+    expect(evaluateHand(['As', 'Kh', '2d', '3c', '4s', '5h', 'Jd']).handDescription).toBe('Straight (Wheel)');
+  });
+
+  it('should keep the two highest pairs and the best kicker', () => {
+    const result = evaluateHand(['Ah', 'Ad', 'Kc', 'Ks', 'Qh', 'Qd', '2c']);
+
+    expect(result.handDescription).toBe('Two Pair, As and Ks');
+    expect(result.kickers).toEqual(['A', 'K', 'Q']);
+  });
+});
+
+describe('Short Deck Ranking', () => {
+  it('should play A-6-7-8-9 as the lowest straight', () => {
+    const wheel = evaluateHand(['As', '6h', '7d', '8c', '9s', 'Kd', 'Qc'], 'short-deck');
+    const tenHigh = evaluateHand(['10s', '6h', '7d', '8c', '9s'], 'short-deck');
+
+    expect(wheel.handRank).toBe(HandRank.Straight);
+    expect(compareHands(tenHigh, wheel, 'short-deck')).toBeLessThan(0);
+    expect(evaluateHand(['As', '6h', '7d', '8c', '9s']).handRank).toBe(HandRank.HighCard);
+  });
+
+  it('should rank a flush above a full house', () => {
+    const flush = evaluateHand(['Ah', 'Kh', '9h', '7h', '6h'], 'short-deck');
+    const fullHouse = evaluateHand(['9s', '9d', '9c', '6c', '6d'], 'short-deck');
+
+    expect(compareHands(flush, fullHouse, 'short-deck')).toBeLessThan(0);
+    expect(compareHands(flush, fullHouse)).toBeGreaterThan(0);
+  });
+
+  it('should reject cards that are not in the short deck', () => {
+    expect(() => evaluateHand(['As', '6h', '7d', '8c', '2s'], 'short-deck')).toThrow('Short deck hands cannot contain twos through fives');
+  });
+});
+
+describe('Lookup-Table Evaluation', () => {
+  // The same reproducible 5, 6 and 7 card hands every run
+  const sampleHands = Array.from({ length: 3000 }, (_, i) =>
+    shuffleDeck(createDeck(), i + 1).slice(0, 5 + (i % 3)).map(cardToString)
+  );
+
+  // Category, then the five cards' ranks in order of contribution (the wheel's ace plays low)
+  const referenceKey = (result: HandEvalResult) => {
+    const ranks = result.cards.map(card => stringToCard(card).value);
+    const wheel = ranks[0] === 14 && ranks[1] === 5 && result.handRank !== HandRank.Flush;
+    return [result.handRank, ...(wheel ? [5, 4, 3, 2, 1] : ranks)];
+  };
+
+  it('should rank the best and worst hands at the ends of the scale', () => {
+    expect(evaluate7(encodeCards(['Ah', 'Kh', 'Qh', 'Jh', '10h', '2c', '3d']))).toBe(0);
+    expect(evaluate7(encodeCards(['7h', '5d', '4c', '3s', '2h']))).toBe(7461);
+    expect(handRankOfStrength(7461)).toBe(HandRank.HighCard);
+  });
+
+  it('should agree with evaluateHand on category and order', () => {
+    const results = sampleHands.map(hand => evaluateHand(hand));
+    const strengths = sampleHands.map(hand => evaluate7(encodeCards(hand)));
+
+    results.forEach((result, i) => {
+      expect(handRankOfStrength(strengths[i])).toBe(result.handRank);
+      expect(result.handStrength).toBe(strengths[i]);
+
+      // Order agrees with category then card ranks, independent of handStrength
+      const next = (i + 1) % results.length;
+      const [a, b] = [referenceKey(result), referenceKey(results[next])];
+      const difference = a.map((value, j) => b[j] - value).find(value => value !== 0) ?? 0;
+      expect(Math.sign(strengths[i] - strengths[next])).toBe(Math.sign(difference));
+    });
+  });
+
+  it('should describe a strength as evaluateHand describes the hand', () => {
+    const namedHands = [
+      ['Ah', 'Kh', 'Qh', 'Jh', '10h'],
+      ['5d', '4d', '3d', '2d', 'Ad', 'Kc'],
+      ['Ac', '2d', '3h', '4s', '5c', '9d', 'Jh'],
+      ['Ac', 'Kd', 'Qh', 'Js', '10c', '2d', '3h'],
+      ['Kc', 'Kd', 'Kh', '7s', '7c', '7d', '2h']
+    ];
+
+    [...namedHands, ...sampleHands].forEach(hand => {
+      expect(describeHandStrength(evaluate7(encodeCards(hand)))).toBe(evaluateHand(hand).handDescription);
+    });
+  });
+
+  it('should evaluate seven cards in under a microsecond on average', () => {
+    const hands = sampleHands.filter(hand => hand.length === 7).map(encodeCards);
+
+    // Time several batches and keep the fastest, so other test files sharing the CPU do not count
+    let checksum = 0;
+    const batchMeans = Array.from({ length: 10 }, () => {
+      const start = performance.now();
+      for (let round = 0; round < 20; round++) {
+        for (let i = 0; i < hands.length; i++) {
+          checksum += evaluate7(hands[i]);
+        }
+      }
+      return ((performance.now() - start) * 1e6) / (20 * hands.length);
+    });
+
+    expect(checksum).toBeGreaterThan(0);
+    expect(Math.min(...batchMeans)).toBeLessThan(1000);
+  });
+});
@@ -0,0 +1,191 @@
+import { describe, it, expect } from 'vitest';
+import { createGame, dealNewHand, executePlayerAction, startNewHand, GameState } from '../../packages/shared/src/game-state';
+import {
+  formatPokerStarsHandHistory,
+  formatPokerStarsSession,
+  redactHandHistoryFor
+} from '../../packages/shared/src/hand-history';
+
+function playToShowdown(state: GameState): GameState {
+  let current = state;
+  while (current.phase !== 'complete') {
+    const player = current.players[current.activePlayerIndex];
+    const action = current.currentBet > player.currentBet ? 'call' : 'check';
+    current = executePlayerAction(current, player.id, action).gameState;
+  }
+  return current;
+}
+
+describe('Hand History', () => {
+  it('should record blinds and hole cards when a hand is dealt', () => {
+    const state = dealNewHand(createGame('history', ['Alice', 'Bob']));
+    const history = state.handHistory!;
+
+    expect(history.handNumber).toBe(1);
+    expect(history.dealerIndex).toBe(0);
+    expect(history.seats.map(s => [s.name, s.chips])).toEqual([['Alice', 1000], ['Bob', 1000]]);
+    expect(history.events.slice(0, 2)).toEqual([
+      { type: 'post', playerId: state.players[0].id, blind: 'small blind', amount: 10 },
+      { type: 'post', playerId: state.players[1].id, blind: 'big blind', amount: 20 }
+    ]);
+    expect(history.events.filter(e => e.type === 'deal')).toHaveLength(2);
+    expect(history.endedAt).toBeUndefined();
+  });
+
+  it('should record antes before the blinds', () => {
+    const state = dealNewHand(createGame('antes', ['P0', 'P1', 'P2'], { ante: 5 }));
+    const posts = state.handHistory!.events.filter(e => e.type === 'post');
+
+    expect(posts.map(e => e.type === 'post' && e.blind)).toEqual(['ante', 'ante', 'ante', 'small blind', 'big blind']);
+  });
+
+  it('should record actions, the uncalled bet and the uncontested pot', () => {
+    let state = dealNewHand(createGame('fold-hand', ['Alice', 'Bob']));
+    state = executePlayerAction(state, state.players[0].id, 'raise', 60).gameState;
+    state = executePlayerAction(state, state.players[1].id, 'fold').gameState;
+
+    const events = state.handHistory!.events.slice(-4);
+    expect(events).toEqual([
+      { type: 'action', playerId: state.players[0].id, action: 'raise', amount: 50, raiseTo: 60, allIn: false },
+      { type: 'action', playerId: state.players[1].id, action: 'fold', amount: 0, allIn: false },
+      { type: 'uncalled', playerId: state.players[0].id, amount: 40 },
+      { type: 'collect', playerId: state.players[0].id, amount: 40, potIndex: 0 }
+    ]);
+    expect(state.handHistory!.totalPot).toBe(40);
+    expect(state.handHistory!.finalChips).toEqual({
+      [state.players[0].id]: 1020,
+      [state.players[1].id]: 980
+    });
+    expect(state.handHistory!.endedAt).toBeDefined();
+  });
+
+  it('should record every street and the showdown', () => {
+    const state = playToShowdown(dealNewHand(createGame('showdown', ['Alice', 'Bob'])));
+    const events = state.handHistory!.events;
+
+    expect(events.filter(e => e.type === 'board').map(e => e.type === 'board' && e.cards.length)).toEqual([3, 1, 1]);
+    expect(events.filter(e => e.type === 'show')).toHaveLength(2);
+    expect(state.handHistory!.totalPot).toBe(40);
+
+    const chips = state.players.map(p => state.handHistory!.finalChips![p.id]);
+    expect(chips).toEqual(state.players.map(p => p.chips));
+  });
+
+  it('should not change the history of earlier states', () => {
+    const dealt = dealNewHand(createGame('immutable', ['Alice', 'Bob']));
+    const eventCount = dealt.handHistory!.events.length;
+
+    executePlayerAction(dealt, dealt.players[0].id, 'call');
+
+    expect(dealt.handHistory!.events).toHaveLength(eventCount);
+  });
+
+  it('should start a fresh history for each hand', () => {
+    let state = dealNewHand(createGame('sessions', ['Alice', 'Bob']));
+    state = executePlayerAction(state, state.players[0].id, 'fold').gameState;
+    const firstHand = state.handHistory!;
+
+    state = startNewHand(state);
+
+    expect(state.handHistory!.handNumber).toBe(2);
+    expect(state.handHistory!.dealerIndex).toBe(1);
+    expect(state.handHistory!.events.some(e => e.type === 'collect')).toBe(false);
+    expect(firstHand.handNumber).toBe(1);
+  });
+
+  it('should only reveal a player their own hole cards and hands shown down', () => {
+    let state = dealNewHand(createGame('redact', ['Alice', 'Bob']));
+    state = executePlayerAction(state, state.players[0].id, 'fold').gameState;
+
+    const forAlice = redactHandHistoryFor(state.handHistory!, state.players[0].id);
+    expect(forAlice.events.filter(e => e.type === 'deal').map(e => 'playerId' in e && e.playerId)).toEqual([state.players[0].id]);
+    expect(redactHandHistoryFor(state.handHistory!, null).events.some(e => e.type === 'deal')).toBe(false);
+
+    const shownDown = playToShowdown(dealNewHand(createGame('shown', ['Alice', 'Bob'])));
+    const spectatorView = redactHandHistoryFor(shownDown.handHistory!, null);
+    expect(spectatorView.events.filter(e => e.type === 'show')).toHaveLength(2);
+  });
+
+  describe('PokerStars Export', () => {
+    it('should format a hand in PokerStars text format', () => {
+      let state = dealNewHand(createGame('table-1', ['Alice', 'Bob']));
+      state = executePlayerAction(state, state.players[0].id, 'raise', 60).gameState;
+      state = executePlayerAction(state, state.players[1].id, 'fold').gameState;
+
+      const text = formatPokerStarsHandHistory(redactHandHistoryFor(state.handHistory!, state.players[0].id));
+      const lines = text.split('\n');
+
+      expect(lines[0]).toMatch(/^PokerStars Hand #1: Hold'em No Limit \(\$10\/\$20\) - \d{4}\/\d{2}\/\d{2} \d{2}:\d{2}:\d{2} UTC$/);
+      expect(lines.slice(1, 6)).toEqual([
+        "Table 'table-1' 2-max Seat #1 is the button",
+        'Seat 1: Alice ($1000 in chips)',
+        'Seat 2: Bob ($1000 in chips)',
+        'Alice: posts small blind $10',
+        'Bob: posts big blind $20'
+      ]);
+      expect(lines[6]).toBe('*** HOLE CARDS ***');
+      expect(lines[7]).toMatch(/^Dealt to Alice \[[2-9TJQKA][hdcs] [2-9TJQKA][hdcs]\]$/);
+      expect(lines.slice(8)).toEqual([
+        'Alice: raises $40 to $60',
+        'Bob: folds',
+        'Uncalled bet ($40) returned to Alice',
+        'Alice collected $40 from pot',
+        '*** SUMMARY ***',
+        'Total pot $40 | Rake $0',
+        'Seat 1: Alice (button) collected ($40)',
+        'Seat 2: Bob folded before Flop'
+      ]);
+    });
+
+    it('should describe the structure and stakes of limit and pot-limit tables', () => {
+      const limit = dealNewHand(createGame('limit', ['Alice', 'Bob'], { bettingStructure: 'fixed-limit' }));
+      const potLimit = dealNewHand(createGame('pot-limit', ['Alice', 'Bob'], { bettingStructure: 'pot-limit' }));
+
+      expect(formatPokerStarsHandHistory(limit.handHistory!)).toContain("Hold'em Limit ($20/$40)");
+      expect(formatPokerStarsHandHistory(potLimit.handHistory!)).toContain("Hold'em Pot Limit ($10/$20)");
+    });
+
+    it('should name the variant of Omaha tables', () => {
+      const omaha = dealNewHand(createGame('omaha', ['Alice', 'Bob'], { variant: 'omaha' }));
+
+      expect(formatPokerStarsHandHistory(omaha.handHistory!)).toContain('Omaha Pot Limit ($10/$20)');
+    });
+
+    it('should write Seven-Card Stud streets and the bring-in', () => {
+      const state = playToShowdown(dealNewHand(createGame('stud', ['Alice', 'Bob'], { variant: 'stud' })));
+      const text = formatPokerStarsHandHistory(state.handHistory!);
+
+      expect(text).toContain('7 Card Stud Limit ($20/$40)');
+      expect(text).toContain('Alice: posts the ante $2');
+      expect(text).toMatch(/\n\*\*\* 3RD STREET \*\*\*\nDealt to Alice \[\S+ \S+\]\nDealt to Alice \[\S+\]\n/);
+      expect(text).toMatch(/: brings in for \$10\n/);
+      expect(text).toContain('*** 7TH STREET ***');
+      expect(text).not.toContain('*** HOLE CARDS ***');
+      expect(text).toContain('*** SHOW DOWN ***');
+    });
+
+    it('should include the board and showdown for hands that reach the river', () => {
+      const state = playToShowdown(dealNewHand(createGame('river', ['Alice', 'Bob'])));
+      const text = formatPokerStarsHandHistory(state.handHistory!);
+
+      expect(text).toMatch(/\*\*\* FLOP \*\*\* \[\S+ \S+ \S+\]/);
+      expect(text).toMatch(/\*\*\* TURN \*\*\* \[\S+ \S+ \S+\] \[\S+\]/);
+      expect(text).toMatch(/\*\*\* RIVER \*\*\* \[\S+ \S+ \S+ \S+\] \[\S+\]/);
+      expect(text).toContain('*** SHOW DOWN ***');
+      expect(text).toMatch(/Board \[\S+ \S+ \S+ \S+ \S+\]/);
+      expect(text).not.toMatch(/\[[^\]]*10[hdcs]/);
+    });
+
+    it('should separate hands in a session export', () => {
+      let state = dealNewHand(createGame('session', ['Alice', 'Bob']));
+      state = executePlayerAction(state, state.players[0].id, 'fold').gameState;
+      const first = state.handHistory!;
+      state = startNewHand(state);
+      state = executePlayerAction(state, state.players[1].id, 'fold').gameState;
+
+      const session = formatPokerStarsSession([first, state.handHistory!]);
+      expect(session.split('\n\n\n')).toHaveLength(2);
+      expect(session).toContain('PokerStars Hand #2');
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { parseRange, rangeGridHand, rangeHandClass, rangeHandClassSize, cardToString } from '../../packages/shared/src/index';
+
+const handsOf = (notation: string, blockedCards?: string[]) =>
+  parseRange(notation, blockedCards).map(combo => combo.cards.map(cardToString).join(''));
+
+const classesOf = (notation: string) =>
+  Array.from(new Set(parseRange(notation).map(combo => rangeHandClass(combo.cards))));
+
+describe('Hand Range Parsing', () => {
+  it('should expand pairs, suited and offsuit hands', () => {
+    expect(parseRange('QQ')).toHaveLength(6);
+    expect(parseRange('AKs')).toHaveLength(4);
+    expect(parseRange('AKo')).toHaveLength(12);
+    expect(parseRange('AK')).toHaveLength(16);
+    expect(parseRange('QQ, AKs, KQo')).toHaveLength(22);
+  });
+
+  it('should expand plus and dash notation', () => {
+    expect(classesOf('QQ+')).toEqual(['AA', 'KK', 'QQ']);
+    expect(classesOf('ATs+')).toEqual(['AKs', 'AQs', 'AJs', 'ATs']);
+    expect(classesOf('KQo+')).toEqual(['KQo']);
+    expect(classesOf('A5s-A2s')).toEqual(['A5s', 'A4s', 'A3s', 'A2s']);
+    expect(classesOf('88-TT')).toEqual(['TT', '99', '88']);
+  });
+
+  it('should read exact hands and tens written either way', () => {
+    expect(handsOf('AhKh')).toEqual(['AhKh']);
+    expect(handsOf('Th9h, 10d9d')).toEqual(['10h9h', '10d9d']);
+    expect(classesOf('T9s')).toEqual(['T9s']);
+  });
+
+  it('should weight entries and let the last mention win', () => {
+    const combos = parseRange('AA:0.5, AhAd');
+
+    expect(combos).toHaveLength(6);
+    expect(combos.filter(combo => combo.weight === 0.5)).toHaveLength(5);
+    expect(combos.find(combo => combo.cards.map(cardToString).join('') === 'AhAd')?.weight).toBe(1);
+  });
+
+  it('should remove combos blocked by the board or dead cards', () => {
+    expect(handsOf('AA', ['Ah', '2c'])).toEqual(['AdAc', 'AdAs', 'AcAs']);
+    expect(parseRange('AKs', ['As', 'Ks'])).toHaveLength(3);
+  });
+
+  it('should reject bad notation', () => {
+    expect(() => parseRange('AKx')).toThrow('Invalid range notation: AKx');
+    expect(() => parseRange('AAs')).toThrow('Invalid range notation: AAs');
+    expect(() => parseRange('A5s-K2s')).toThrow('Invalid range notation: A5s-K2s');
+    expect(() => parseRange('QQ-AK')).toThrow('Invalid range notation: QQ-AK');
+    expect(() => parseRange('AhAh')).toThrow('Invalid range notation: AhAh');
+    expect(() => parseRange('AA:1.5')).toThrow('Invalid range weight: AA:1.5');
+  });
+
+  it('should lay out the 13x13 grid', () => {
+    expect(rangeGridHand(0, 0)).toBe('AA');
+    expect(rangeGridHand(0, 1)).toBe('AKs');
+    expect(rangeGridHand(1, 0)).toBe('AKo');
+    expect(rangeGridHand(12, 4)).toBe('T2o');
+
+    const cells = Array.from({ length: 13 }, (_, row) => Array.from({ length: 13 }, (_, column) => rangeGridHand(row, column))).flat();
+    expect(cells.reduce((total, cell) => total + rangeHandClassSize(cell), 0)).toBe(1326);
+    expect(cells.reduce((total, cell) => total + parseRange(cell).length, 0)).toBe(1326);
+  });
+});
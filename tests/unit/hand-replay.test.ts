@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest';
+import { createGame, dealNewHand, executePlayerAction, startNewHand, sitOut, sitIn, GameState, PlayerAction } from '../../packages/shared/src/game-state';
+import { redactHandHistoryFor } from '../../packages/shared/src/hand-history';
+import { replayHand } from '../../packages/shared/src/hand-replay';
+
+function play(state: GameState, steps: Array<[number, PlayerAction, number?]>): GameState {
+  return steps.reduce((current, [seat, action, amount]) => {
+    const result = executePlayerAction(current, current.players[seat].id, action, amount);
+    expect(result.error).toBeUndefined();
+    return result.gameState;
+  }, state);
+}
+
+function checkDown(state: GameState): GameState {
+  let current = state;
+  while (current.phase !== 'complete') {
+    const player = current.players[current.activePlayerIndex];
+    const action = current.currentBet > player.currentBet ? 'call' : 'check';
+    current = executePlayerAction(current, player.id, action).gameState;
+  }
+  return current;
+}
+
+describe('Hand Replay', () => {
+  it('should rebuild every intermediate state of a hand', () => {
+    let state = dealNewHand(createGame('replay', ['Alice', 'Bob']));
+    state = play(state, [[0, 'raise', 60], [1, 'call']]);
+    state = checkDown(state);
+
+    const replay = replayHand(state.handHistory!);
+    const actionCount = state.handHistory!.events.filter(e => e.type === 'action').length;
+
+    expect(replay.error).toBeUndefined();
+    expect(replay.verified).toBe(true);
+    expect(replay.steps).toHaveLength(actionCount + 1);
+    expect(replay.steps[0].gameState.pot).toBe(30);
+    expect(replay.steps[1].gameState.currentBet).toBe(60);
+    expect(replay.steps[2].gameState.phase).toBe('flop');
+    expect(replay.steps[2].gameState.communityCards).toEqual(state.communityCards.slice(0, 3));
+
+    const final = replay.steps[replay.steps.length - 1].gameState;
+    expect(final.players.map(p => p.chips)).toEqual(state.players.map(p => p.chips));
+  });
+
+  it('should keep each step as it was when later steps are played', () => {
+    let state = dealNewHand(createGame('replay-steps', ['Alice', 'Bob']));
+    state = play(state, [[0, 'raise', 60], [1, 'call']]);
+    state = checkDown(state);
+
+    const replay = replayHand(state.handHistory!);
+    const stacks = replay.steps.map(step => step.gameState.players.map(p => [p.chips, p.currentBet]));
+
+    expect(stacks[0]).toEqual([[990, 10], [980, 20]]);
+    expect(stacks[1]).toEqual([[940, 60], [980, 20]]);
+    // Every later street is checked through until the pot is awarded
+    stacks.slice(2, -1).forEach(stack => expect(stack).toEqual([[940, 0], [940, 0]]));
+    expect(stacks[stacks.length - 1]).toEqual(state.players.map(p => [p.chips, 0]));
+  });
+
+  it('should replay multiway all-ins with antes and a straddle', () => {
+    const game = createGame('multiway', ['P0', 'P1', 'P2', 'P3'], { ante: 5, straddleAllowed: true });
+    game.players[1].chips = 150;
+    let state = dealNewHand(game);
+    state = play(state, [[3, 'straddle'], [0, 'raise', 200], [1, 'all-in'], [2, 'call'], [3, 'fold']]);
+    state = checkDown(state);
+
+    const replay = replayHand(state.handHistory!);
+
+    expect(replay.verified).toBe(true);
+    expect(replay.steps[1].event).toMatchObject({ type: 'post', blind: 'straddle' });
+  });
+
+  it('should replay hands after the first with the recorded button', () => {
+    let state = dealNewHand(createGame('second-hand', ['P0', 'P1', 'P2']));
+    state = play(state, [[0, 'fold'], [1, 'fold']]);
+    state = startNewHand(state);
+    state = play(state, [[1, 'raise', 60], [2, 'fold'], [0, 'fold']]);
+
+    const replay = replayHand(state.handHistory!);
+
+    expect(state.handHistory!.handNumber).toBe(2);
+    expect(replay.verified).toBe(true);
+    expect(replay.steps[0].gameState.dealerIndex).toBe(1);
+  });
+
+  it('should replay a redacted history without revealing unknown hole cards', () => {
+    let state = dealNewHand(createGame('redacted', ['Alice', 'Bob', 'Carol']));
+    state = play(state, [[0, 'fold']]);
+    state = checkDown(state);
+    const history = redactHandHistoryFor(state.handHistory!, state.players[1].id);
+
+    const replay = replayHand(history);
+    const dealt = replay.steps[0].gameState;
+
+    expect(replay.verified).toBe(true);
+    expect(dealt.players[0].holeCards).toEqual([]);
+    expect(dealt.players[1].holeCards).toEqual(state.players[1].holeCards);
+    expect(dealt.players[2].holeCards).toEqual(state.players[2].holeCards);
+  });
+
+  it('should report stacks that do not match the record', () => {
+    let state = dealNewHand(createGame('tampered', ['Alice', 'Bob']));
+    state = play(state, [[0, 'fold']]);
+    const history = {
+      ...state.handHistory!,
+      finalChips: { ...state.handHistory!.finalChips!, [state.players[1].id]: 5000 }
+    };
+
+    const replay = replayHand(history);
+
+    expect(replay.verified).toBe(false);
+    expect(replay.mismatches).toEqual([{ playerId: state.players[1].id, expected: 5000, actual: 1010 }]);
+  });
+
+  it('should stop at the first action the engine rejects', () => {
+    let state = dealNewHand(createGame('diverged', ['Alice', 'Bob']));
+    state = play(state, [[0, 'call'], [1, 'check']]);
+    const history = state.handHistory!;
+    const events = history.events.map(event =>
+      event.type === 'action' && event.action === 'check' ? { ...event, action: 'raise' as const, raiseTo: 5 } : event
+    );
+
+    const replay = replayHand({ ...history, events });
+
+    expect(replay.verified).toBe(false);
+    expect(replay.error).toContain('Replay diverged at Bob raise');
+    expect(replay.steps).toHaveLength(2);
+  });
+
+  it('should not verify an unfinished hand', () => {
+    const state = dealNewHand(createGame('unfinished', ['Alice', 'Bob']));
+
+    const replay = replayHand(state.handHistory!);
+
+    expect(replay.verified).toBe(false);
+    expect(replay.error).toBe('Hand history is incomplete');
+  });
+
+  it('should replay a hand with a player sitting out and another making up missed blinds', () => {
+    let state = dealNewHand(createGame('sitting-out', ['Alice', 'Bob', 'Charlie', 'Dave']));
+    state = play(state, [[3, 'fold'], [0, 'fold'], [1, 'fold']]);
+    state = sitOut(state, state.players[2].id).gameState;
+    state = play(startNewHand(state), [[1, 'fold'], [3, 'fold']]);
+    state = sitIn(state, state.players[2].id).gameState;
+    state = sitOut(state, state.players[1].id).gameState;
+    state = checkDown(startNewHand(state));
+
+    expect(state.handHistory!.events.some(e => e.type === 'post' && e.blind === 'missed small blind')).toBe(true);
+    const replay = replayHand(state.handHistory!);
+    expect(replay.error).toBeUndefined();
+    expect(replay.verified).toBe(true);
+  });
+});
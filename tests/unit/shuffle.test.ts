@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest';
+import { createDeck, validateDeck } from '../../packages/shared/src/cards';
+import { createGame, dealNewHand, executePlayerAction, GameState } from '../../packages/shared/src/game-state';
+import { redactHandHistoryFor } from '../../packages/shared/src/hand-history';
+import { redactGameStateFor, SPECTATOR } from '../../packages/shared/src/state-redaction';
+import {
+  secureShuffle,
+  createShuffleCommitment,
+  hashShuffleSeed,
+  shuffleDeckFromSeed,
+  verifyHandShuffle
+} from '../../packages/shared/src/shuffle';
+
+function checkDown(state: GameState): GameState {
+  let current = state;
+  while (current.phase !== 'complete') {
+    const player = current.players[current.activePlayerIndex];
+    const action = current.currentBet > player.currentBet ? 'call' : 'check';
+    current = executePlayerAction(current, player.id, action).gameState;
+  }
+  return current;
+}
+
+describe('Shuffle', () => {
+  describe('secureShuffle', () => {
+    it('should return a complete deck in a new order', () => {
+      const deck = createDeck();
+      const shuffled = secureShuffle(deck);
+
+      expect(validateDeck(shuffled)).toBe(true);
+      expect(shuffled).not.toEqual(deck);
+      expect(deck).toEqual(createDeck());
+    });
+  });
+
+  describe('shuffleDeckFromSeed', () => {
+    it('should produce the same deck for the same seed', () => {
+      const { seed } = createShuffleCommitment();
+
+      expect(shuffleDeckFromSeed(createDeck(), seed)).toEqual(shuffleDeckFromSeed(createDeck(), seed));
+      expect(validateDeck(shuffleDeckFromSeed(createDeck(), seed))).toBe(true);
+    });
+
+    it('should produce different decks for different seeds', () => {
+      expect(shuffleDeckFromSeed(createDeck(), 'a')).not.toEqual(shuffleDeckFromSeed(createDeck(), 'b'));
+    });
+  });
+
+  describe('createShuffleCommitment', () => {
+    it('should commit to a random seed with its SHA-256 hash', () => {
+      const first = createShuffleCommitment();
+      const second = createShuffleCommitment();
+
+      expect(first.seed).toMatch(/^[0-9a-f]{64}$/);
+      expect(first.commitment).toBe(hashShuffleSeed(first.seed));
+      expect(first.seed).not.toBe(second.seed);
+    });
+  });
+
+  describe('Commit-reveal dealing', () => {
+    it('should deal from the seed committed before the hand', () => {
+      const game = createGame('fair', ['Alice', 'Bob']);
+      const committed = game.nextShuffle!;
+      const state = dealNewHand(game);
+
+      expect(state.shuffle).toEqual(committed);
+      expect(state.handHistory!.shuffle).toEqual({ commitment: committed.commitment });
+      expect(state.players[0].holeCards).toEqual(shuffleDeckFromSeed(createDeck(), committed.seed).slice(0, 2));
+      expect(state.nextShuffle!.commitment).not.toBe(committed.commitment);
+    });
+
+    it('should keep seeds out of redacted states until the hand is complete', () => {
+      let state = dealNewHand(createGame('fair', ['Alice', 'Bob']));
+      const view = redactGameStateFor(state, state.players[0].id);
+
+      expect(view.shuffle!.commitment).toBe(state.shuffle!.commitment);
+      expect(view.shuffle!.seed).toBe('');
+      expect(view.nextShuffle!.seed).toBe('');
+
+      state = checkDown(state);
+      expect(redactGameStateFor(state, SPECTATOR).shuffle!.seed).toBe(state.shuffle!.seed);
+      expect(redactGameStateFor(state, SPECTATOR).nextShuffle!.seed).toBe('');
+    });
+
+    it('should reveal the seed in the completed hand history', () => {
+      const state = checkDown(dealNewHand(createGame('fair', ['Alice', 'Bob'])));
+
+      expect(state.handHistory!.shuffle!.seed).toBe(state.shuffle!.seed);
+    });
+
+    it('should fall back to a secure shuffle when provably-fair dealing is off', () => {
+      const game = createGame('secure', ['Alice', 'Bob'], { provablyFair: false });
+      const state = dealNewHand(game);
+
+      expect(game.nextShuffle).toBeUndefined();
+      expect(state.shuffle).toBeUndefined();
+      expect(state.handHistory!.shuffle).toBeUndefined();
+    });
+  });
+
+  describe('verifyHandShuffle', () => {
+    const playHand = () => checkDown(dealNewHand(createGame('fair', ['Alice', 'Bob', 'Charlie']))).handHistory!;
+
+    it('should verify a completed hand', () => {
+      const result = verifyHandShuffle(playHand());
+
+      expect(result.error).toBeUndefined();
+      expect(result.commitmentMatches).toBe(true);
+      expect(result.verified).toBe(true);
+    });
+
+    it("should verify a player's redacted view of the hand", () => {
+      const history = playHand();
+
+      expect(verifyHandShuffle(redactHandHistoryFor(history, history.seats[1].playerId)).verified).toBe(true);
+    });
+
+    it('should reject a seed that does not match the commitment', () => {
+      const history = playHand();
+      const result = verifyHandShuffle({ ...history, shuffle: { ...history.shuffle!, seed: 'forged' } });
+
+      expect(result.verified).toBe(false);
+      expect(result.commitmentMatches).toBe(false);
+    });
+
+    it('should detect cards that were not dealt from the seed', () => {
+      const history = playHand();
+      const events = history.events.map(event =>
+        event.type === 'board' && event.street === 'river' ? { ...event, cards: ['Zz'] } : event
+      );
+      const result = verifyHandShuffle({ ...history, events });
+
+      expect(result.commitmentMatches).toBe(true);
+      expect(result.verified).toBe(false);
+      expect(result.mismatches).toHaveLength(1);
+    });
+
+    it('should not verify a hand whose seed is still secret', () => {
+      const history = dealNewHand(createGame('fair', ['Alice', 'Bob'])).handHistory!;
+
+      expect(verifyHandShuffle(history).error).toBe('Shuffle seed has not been revealed yet');
+    });
+  });
+});
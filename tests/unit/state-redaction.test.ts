@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { createGame, dealNewHand, executePlayerAction, GameState } from '../../packages/shared/src/game-state';
+import { redactGameStateFor, SPECTATOR } from '../../packages/shared/src/state-redaction';
+
+function checkDown(state: GameState): GameState {
+  let current = state;
+  while (current.phase !== 'complete') {
+    const player = current.players[current.activePlayerIndex];
+    const action = current.currentBet > player.currentBet ? 'call' : 'check';
+    current = executePlayerAction(current, player.id, action).gameState;
+  }
+  return current;
+}
+
+describe('Game State Redaction', () => {
+  it('should show a player only their own hole cards', () => {
+    const state = dealNewHand(createGame('redact', ['Alice', 'Bob', 'Charlie']));
+    const view = redactGameStateFor(state, state.players[0].id);
+
+    expect(view.players[0].holeCards).toEqual(state.players[0].holeCards);
+    expect(view.players[1].holeCards).toEqual([]);
+    expect(view.players[2].holeCards).toEqual([]);
+  });
+
+  it('should never include the deck', () => {
+    const state = dealNewHand(createGame('redact', ['Alice', 'Bob']));
+
+    expect(redactGameStateFor(state, state.players[0].id).deck).toEqual([]);
+    expect(redactGameStateFor(state, SPECTATOR).deck).toEqual([]);
+  });
+
+  it('should hide every hole card from spectators', () => {
+    const state = dealNewHand(createGame('redact', ['Alice', 'Bob']));
+    const view = redactGameStateFor(state, SPECTATOR);
+
+    expect(view.players.every(p => p.holeCards.length === 0)).toBe(true);
+  });
+
+  it('should not modify the original game state', () => {
+    const state = dealNewHand(createGame('redact', ['Alice', 'Bob']));
+    redactGameStateFor(state, SPECTATOR);
+
+    expect(state.players[0].holeCards).toHaveLength(2);
+    expect(state.deck.length).toBeGreaterThan(0);
+  });
+
+  it('should reveal only players who went to showdown', () => {
+    let state = dealNewHand(createGame('redact', ['Alice', 'Bob', 'Charlie']));
+    const folder = state.players[state.activePlayerIndex];
+    state = executePlayerAction(state, folder.id, 'fold').gameState;
+    state = checkDown(state);
+
+    const view = redactGameStateFor(state, SPECTATOR);
+    view.players.forEach(player => {
+      expect(player.holeCards).toHaveLength(player.id === folder.id ? 0 : 2);
+    });
+  });
+
+  it('should reveal nothing when the hand is won without a showdown', () => {
+    let state = dealNewHand(createGame('redact', ['Alice', 'Bob']));
+    const folder = state.players[state.activePlayerIndex];
+    state = executePlayerAction(state, folder.id, 'fold').gameState;
+
+    expect(state.phase).toBe('complete');
+    const view = redactGameStateFor(state, SPECTATOR);
+    expect(view.players.every(p => p.holeCards.length === 0)).toBe(true);
+  });
+
+  it("should remove other players' deal events from the hand history", () => {
+    const state = dealNewHand(createGame('redact', ['Alice', 'Bob']));
+    const view = redactGameStateFor(state, state.players[1].id);
+    const deals = view.handHistory!.events.filter(e => e.type === 'deal');
+
+    expect(deals).toHaveLength(1);
+    expect(deals[0]).toMatchObject({ playerId: state.players[1].id });
+    expect(redactGameStateFor(state, SPECTATOR).handHistory!.events.some(e => e.type === 'deal')).toBe(false);
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { createGame, dealNewHand, executePlayerAction, calculatePots, GameState } from '../../packages/shared/src/game-state';
+import { stringToCard } from '../../packages/shared/src/cards';
+import { validateGameState } from '../../packages/shared/src/state-validation';
+
+function checkDown(state: GameState, onEachAction: (state: GameState) => void): GameState {
+  let current = state;
+  while (current.phase !== 'complete') {
+    const player = current.players[current.activePlayerIndex];
+    const action = current.currentBet > player.currentBet ? 'call' : 'check';
+    current = executePlayerAction(current, player.id, action).gameState;
+    onEachAction(current);
+  }
+  return current;
+}
+
+describe('Game State Validation', () => {
+  it('should accept every state of a hand played through the engine', () => {
+    const variants = ['holdem', 'omaha-hi-lo', 'short-deck', 'stud'] as const;
+    variants.forEach(variant => {
+      const state = dealNewHand(createGame('valid', ['Alice', 'Bob', 'Charlie'], { variant }));
+      expect(validateGameState(state)).toEqual([]);
+      checkDown(state, next => expect(validateGameState(next)).toEqual([]));
+    });
+  });
+
+  it('should report a card dealt twice', () => {
+    const state = dealNewHand(createGame('cards', ['Alice', 'Bob']));
+    state.players[1].holeCards = [state.players[0].holeCards[0], state.deck.pop()!];
+
+    expect(validateGameState(state)).toContainEqual({ rule: 'cards', message: expect.stringMatching(/appears more than once$/) });
+  });
+
+  it('should report cards that do not fit the variant or the phase', () => {
+    const state = dealNewHand(createGame('short', ['Alice', 'Bob'], { variant: 'short-deck' }));
+    state.communityCards = [stringToCard('2h')];
+
+    expect(validateGameState(state).map(v => v.message)).toEqual(expect.arrayContaining([
+      'Card 2h is not in the short-deck deck',
+      'preflop has 1 community cards'
+    ]));
+  });
+
+  it('should report a folded player to act and a pot that does not match the bets', () => {
+    const state = dealNewHand(createGame('turn', ['Alice', 'Bob', 'Charlie']));
+    const active = state.players[state.activePlayerIndex];
+    active.folded = true;
+    state.pot += 5;
+
+    const violations = validateGameState(state);
+    expect(violations).toContainEqual({ rule: 'active-player', message: `${active.name} is to act but has folded`, playerId: active.id });
+    expect(violations).toContainEqual({ rule: 'chips', message: 'Pot of 35 does not match 30 chips bet' });
+  });
+
+  it('should report acted flags that do not match the seats or a round that should have closed', () => {
+    const state = dealNewHand(createGame('acted', ['Alice', 'Bob']));
+    state.playersActed = [true];
+    expect(validateGameState(state)).toContainEqual({ rule: 'players-acted', message: '1 acted flags for 2 players' });
+
+    state.playersActed = [true, true];
+    state.players.forEach(p => { p.currentBet = state.currentBet; p.totalBet = state.currentBet; });
+    state.pot = state.currentBet * 2;
+    state.pots = calculatePots(state.players);
+    expect(validateGameState(state)).toEqual([
+      { rule: 'players-acted', message: 'Every player has acted but the preflop betting round is still open' }
+    ]);
+  });
+
+  it('should stop the engine acting on an invalid state outside production', () => {
+    const state = dealNewHand(createGame('engine', ['Alice', 'Bob']));
+    state.players[1].holeCards = [...state.players[0].holeCards];
+
+    expect(() => executePlayerAction(state, state.players[state.activePlayerIndex].id, 'call'))
+      .toThrow(/^Invalid game state after Alice's call: Card .+ appears more than once/);
+  });
+});